@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+
+/**
+ * Build the offline breached-password list used by the password policy.
+ *
+ * Accepts one or more source files containing either plaintext passwords
+ * (one per line) or HIBP-style "SHA1:COUNT" lines, and writes the sorted,
+ * de-duplicated SHA-1 prefixes to data/breached-passwords.txt (or --out).
+ *
+ * Usage: ts-node scripts/buildBreachedPasswordList.ts [--out file] <source...>
+ */
+const PREFIX_LENGTH = 16;
+const SHA1_LINE = /^([0-9a-fA-F]{40})(:\d+)?$/;
+
+const toPrefix = (line: string): string | null => {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const hashed = SHA1_LINE.exec(trimmed);
+  const hash = hashed
+    ? hashed[1]
+    : crypto.createHash('sha1').update(trimmed, 'utf8').digest('hex');
+
+  return hash.slice(0, PREFIX_LENGTH).toUpperCase();
+};
+
+async function buildBreachedPasswordList() {
+  const args = process.argv.slice(2);
+  let out = path.resolve(__dirname, '../data/breached-passwords.txt');
+
+  const outIndex = args.indexOf('--out');
+  if (outIndex !== -1) {
+    out = path.resolve(args[outIndex + 1]);
+    args.splice(outIndex, 2);
+  }
+
+  if (args.length === 0) {
+    console.error('Usage: ts-node scripts/buildBreachedPasswordList.ts [--out file] <source...>');
+    process.exit(1);
+  }
+
+  const prefixes = new Set<string>();
+
+  for (const source of args) {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(source, 'utf8'),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      const prefix = toPrefix(line);
+      if (prefix) {
+        prefixes.add(prefix);
+      }
+    }
+  }
+
+  const header = [
+    '# MindSupport breached-password list',
+    `# Uppercase SHA-1 prefixes (${PREFIX_LENGTH} hex chars), one per line, sorted`,
+    '# Generated by scripts/buildBreachedPasswordList.ts',
+  ];
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, [...header, ...[...prefixes].sort()].join('\n') + '\n');
+
+  console.log(`Wrote ${prefixes.size} prefixes to ${out}`);
+}
+
+buildBreachedPasswordList();
\ No newline at end of file
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Manage asymmetric JWT signing keys in JWT_KEYS_DIR.
+ *
+ * Generate a new key:
+ *   ts-node scripts/generateJwtKey.ts [--alg RS256|ES256] [--kid <kid>]
+ * Retire a key (keep only its public half so existing tokens still verify):
+ *   ts-node scripts/generateJwtKey.ts --retire <kid>
+ */
+const keysDir = path.resolve(process.env.JWT_KEYS_DIR || 'keys');
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+function generateKey(alg: string, kid: string) {
+  const { privateKey } =
+    alg === 'ES256'
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+      : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  const file = path.join(keysDir, `${kid}.pem`);
+  if (fs.existsSync(file)) {
+    throw new Error(`Key ${kid} already exists`);
+  }
+
+  fs.mkdirSync(keysDir, { recursive: true });
+  fs.writeFileSync(file, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+
+  console.log(`Created ${alg} key ${file}`);
+  console.log('Deploy it, wait for JWKS caches to refresh, then set JWT_ACTIVE_KID=' + kid);
+}
+
+function retireKey(kid: string) {
+  const file = path.join(keysDir, `${kid}.pem`);
+  const privateKey = crypto.createPrivateKey(fs.readFileSync(file, 'utf8'));
+  const publicPem = crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' });
+
+  fs.writeFileSync(path.join(keysDir, `${kid}.pub.pem`), publicPem);
+  fs.unlinkSync(file);
+
+  console.log(`Retired key ${kid}; delete ${kid}.pub.pem once its tokens have expired`);
+}
+
+try {
+  const retire = getArg('retire');
+  if (retire) {
+    retireKey(retire);
+  } else {
+    const alg = (getArg('alg') || 'RS256').toUpperCase();
+    if (alg !== 'RS256' && alg !== 'ES256') {
+      throw new Error('--alg must be RS256 or ES256');
+    }
+    const kid = getArg('kid') || `${new Date().toISOString().slice(0, 10)}-${alg.toLowerCase()}`;
+    generateKey(alg, kid);
+  }
+} catch (error) {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Local mock OpenID Connect provider for developing and testing social login.
+ *
+ * Usage: ts-node scripts/mockOidcProvider.ts
+ * Then set:
+ *   OIDC_PROVIDERS=[{"name":"mock","issuer":"http://localhost:4010","clientIds":["mindsupport-dev"]}]
+ * and mint ID tokens with:
+ *   curl "http://localhost:4010/token?sub=alice&email=alice@example.com"
+ */
+const port = Number(process.env.MOCK_IDP_PORT || 4010);
+const issuer = `http://localhost:${port}`;
+const kid = 'mock-key-1';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const app = express();
+
+app.get('/.well-known/openid-configuration', (_req, res) => {
+  res.json({
+    issuer,
+    jwks_uri: `${issuer}/jwks`,
+    id_token_signing_alg_values_supported: ['RS256'],
+  });
+});
+
+app.get('/jwks', (_req, res) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }],
+  });
+});
+
+app.get('/token', (req, res) => {
+  const query = req.query as Record<string, string | undefined>;
+
+  const idToken = jwt.sign(
+    {
+      email: query.email,
+      email_verified: query.email_verified !== 'false',
+      name: query.name,
+      nonce: query.nonce,
+    },
+    privateKey,
+    {
+      algorithm: 'RS256',
+      keyid: kid,
+      issuer,
+      subject: query.sub || 'mock-user',
+      audience: query.aud || 'mindsupport-dev',
+      expiresIn: '10m',
+    }
+  );
+
+  res.json({ id_token: idToken });
+});
+
+app.listen(port, () => {
+  console.log(`🔐 Mock OIDC provider running at ${issuer}`);
+});
\ No newline at end of file
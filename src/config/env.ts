@@ -3,6 +3,14 @@ import { z } from 'zod';
 
 dotenv.config();
 
+// OpenID Connect identity provider
+const oidcProviderSchema = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/, 'Provider name must be lowercase letters, digits or dashes'),
+  issuer: z.string().url(),
+  clientIds: z.array(z.string().min(1)).min(1),
+  jwksUri: z.string().url().optional(),
+});
+
 // Environment variable schema with validation
 const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
@@ -16,6 +24,64 @@ const envSchema = z.object({
   JWT_REFRESH_SECRET: z.string().min(32, 'JWT_REFRESH_SECRET must be at least 32 characters'),
   JWT_ACCESS_EXPIRY: z.string().default('15m'),
   JWT_REFRESH_EXPIRY: z.string().default('7d'),
+  JWT_KEYS_DIR: z.string().default('keys'),
+  JWT_ACTIVE_KID: z.string().optional(),
+  JWT_ACCEPT_HS256: z.enum(['true', 'false']).default('true'),
+  PASSWORD_RESET_EXPIRY_MINUTES: z.string().default('30'),
+  EMAIL_VERIFICATION_EXPIRY_HOURS: z.string().default('48'),
+  REQUIRE_EMAIL_VERIFICATION: z.enum(['true', 'false']).default('false'),
+  
+  // Password policy
+  PASSWORD_MIN_LENGTH: z.string().default('10'),
+  PASSWORD_MIN_ENTROPY_BITS: z.string().default('40'),
+  PASSWORD_BREACH_CHECK: z.enum(['true', 'false']).default('true'),
+  PASSWORD_BREACH_LIST_PATH: z.string().optional(),
+  
+  // Login lockout
+  LOGIN_LOCKOUT_THRESHOLD: z.string().default('10'),
+  LOGIN_LOCKOUT_MINUTES: z.string().default('15'),
+  LOGIN_FAILURE_WINDOW_MINUTES: z.string().default('60'),
+  
+  // Account deletion
+  ACCOUNT_DELETION_GRACE_DAYS: z.string().default('14'),
+  PSEUDONYMIZATION_SECRET: z.string().min(32, 'PSEUDONYMIZATION_SECRET must be at least 32 characters').optional(),
+  
+  // Personal data export
+  DATA_EXPORT_TTL_HOURS: z.string().default('48'),
+  
+  // Channel discovery
+  CHANNEL_DISCOVERY_MAX_FLAGS: z.string().default('10'),
+  
+  // Peer-support matching
+  MATCH_QUEUE_TIMEOUT_MINUTES: z.string().default('15'),
+  
+  // Counselor appointments
+  APPOINTMENT_REMINDER_MINUTES: z.string().default('60'),
+  
+  // Anonymous handles
+  ANONYMOUS_HANDLE_TTL_HOURS: z.string().default('24'),
+  
+  // Age gate
+  MINIMUM_AGE: z.string().default('13'),
+  GUARDIAN_CONSENT_AGE: z.string().default('16'),
+  GUARDIAN_CONSENT_EXPIRY_DAYS: z.string().default('7'),
+  
+  // Admin impersonation
+  IMPERSONATION_TTL_MINUTES: z.string().default('15'),
+  
+  // Two-factor authentication
+  TOTP_ENCRYPTION_KEY: z.string().min(32, 'TOTP_ENCRYPTION_KEY must be at least 32 characters').optional(),
+  REQUIRE_STAFF_2FA: z.enum(['true', 'false']).default('true'),
+  
+  // OpenID Connect providers (JSON array of { name, issuer, clientIds, jwksUri? })
+  OIDC_PROVIDERS: z.string().default('[]').transform((value, ctx) => {
+    try {
+      return JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'OIDC_PROVIDERS must be valid JSON' });
+      return z.NEVER;
+    }
+  }).pipe(z.array(oidcProviderSchema)),
   
   // Stream Chat
   STREAM_API_KEY: z.string().min(1, 'STREAM_API_KEY is required'),
@@ -26,10 +92,20 @@ const envSchema = z.object({
   
   // Optional services
   REDIS_URL: z.string().optional(),
+  PRINCIPAL_CACHE_TTL_SECONDS: z.string().default('60'),
+  PRINCIPAL_CACHE_MAX_ENTRIES: z.string().default('10000'),
+  LAST_SEEN_FLUSH_SECONDS: z.string().default('60'),
   PUSH_SERVICE_KEY: z.string().optional(),
   SENTRY_DSN: z.string().optional(),
   ADMIN_API_KEY: z.string().optional(),
   
+  // Mail
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).default('console'),
+  SMTP_URL: z.string().optional(),
+  MAIL_FROM: z.string().default('MindSupport <no-reply@mindsupport.app>'),
+  MAIL_FILE_DIR: z.string().default('tmp/mail'),
+  APP_BASE_URL: z.string().url().default('http://localhost:3000'),
+  
   // CORS
   ALLOWED_ORIGINS: z.string().default('http://localhost:3000'),
 });
@@ -66,6 +142,95 @@ export const config = {
     refreshSecret: env.JWT_REFRESH_SECRET,
     accessExpiry: env.JWT_ACCESS_EXPIRY,
     refreshExpiry: env.JWT_REFRESH_EXPIRY,
+    // Access tokens are signed with this RS256/ES256 key when set (HS256 otherwise)
+    keysDir: env.JWT_KEYS_DIR,
+    activeKid: env.JWT_ACTIVE_KID,
+    // Keep accepting HS256 access tokens while migrating to asymmetric keys
+    acceptHs256: env.JWT_ACCEPT_HS256 === 'true',
+  },
+  
+  passwordReset: {
+    expiryMinutes: parseInt(env.PASSWORD_RESET_EXPIRY_MINUTES, 10),
+  },
+  
+  emailVerification: {
+    expiryHours: parseInt(env.EMAIL_VERIFICATION_EXPIRY_HOURS, 10),
+    // Block reports and channel creation until the email is verified
+    required: env.REQUIRE_EMAIL_VERIFICATION === 'true',
+  },
+  
+  passwordPolicy: {
+    minLength: parseInt(env.PASSWORD_MIN_LENGTH, 10),
+    maxLength: 128,
+    minEntropyBits: parseInt(env.PASSWORD_MIN_ENTROPY_BITS, 10),
+    // Offline check against the bundled breached-password prefix list
+    breachCheck: env.PASSWORD_BREACH_CHECK === 'true',
+    breachListPath: env.PASSWORD_BREACH_LIST_PATH,
+  },
+  
+  loginLockout: {
+    // Failed attempts (per account) before a temporary lockout
+    threshold: parseInt(env.LOGIN_LOCKOUT_THRESHOLD, 10),
+    durationMinutes: parseInt(env.LOGIN_LOCKOUT_MINUTES, 10),
+    windowMinutes: parseInt(env.LOGIN_FAILURE_WINDOW_MINUTES, 10),
+    // Failures allowed before progressive delays kick in
+    freeAttempts: 3,
+    baseDelaySeconds: 2,
+    maxDelaySeconds: 60,
+  },
+  
+  accountDeletion: {
+    graceDays: parseInt(env.ACCOUNT_DELETION_GRACE_DAYS, 10),
+    // Keyed hash used to replace user ids in records kept after erasure
+    pseudonymSecret: env.PSEUDONYMIZATION_SECRET || env.JWT_SECRET,
+  },
+  
+  dataExport: {
+    // How long a finished archive can be downloaded
+    ttlHours: parseInt(env.DATA_EXPORT_TTL_HOURS, 10),
+  },
+  
+  channelDiscovery: {
+    // Rooms flagged this many times (or suspended) are not listed
+    maxFlaggedCount: parseInt(env.CHANNEL_DISCOVERY_MAX_FLAGS, 10),
+  },
+  
+  matching: {
+    // Waiting requests expire after this long without a match
+    queueTimeoutMinutes: parseInt(env.MATCH_QUEUE_TIMEOUT_MINUTES, 10),
+  },
+  
+  appointments: {
+    // How long before a session reminders go out
+    reminderMinutes: parseInt(env.APPOINTMENT_REMINDER_MINUTES, 10),
+  },
+  
+  anonymousHandles: {
+    // Idle anonymous identities are retired after this long; use renews it
+    ttlHours: parseInt(env.ANONYMOUS_HANDLE_TTL_HOURS, 10),
+  },
+  
+  ageGate: {
+    minimumAge: parseInt(env.MINIMUM_AGE, 10),
+    // Users younger than this need a parent/guardian to consent
+    guardianConsentAge: parseInt(env.GUARDIAN_CONSENT_AGE, 10),
+    consentExpiryDays: parseInt(env.GUARDIAN_CONSENT_EXPIRY_DAYS, 10),
+  },
+  
+  impersonation: {
+    ttlMinutes: parseInt(env.IMPERSONATION_TTL_MINUTES, 10),
+  },
+  
+  twoFactor: {
+    // Falls back to JWT_SECRET so existing deployments keep working
+    encryptionKey: env.TOTP_ENCRYPTION_KEY || env.JWT_SECRET,
+    requiredForStaff: env.REQUIRE_STAFF_2FA === 'true',
+  },
+  
+  oidc: {
+    providers: env.OIDC_PROVIDERS,
+    // How long fetched provider keys are trusted before refetching
+    jwksCacheMinutes: 60,
   },
   
   stream: {
@@ -81,6 +246,16 @@ export const config = {
     url: env.REDIS_URL,
   },
   
+  principalCache: {
+    ttlSeconds: parseInt(env.PRINCIPAL_CACHE_TTL_SECONDS, 10),
+    maxEntries: parseInt(env.PRINCIPAL_CACHE_MAX_ENTRIES, 10),
+  },
+  
+  lastSeen: {
+    // lastSeenAt is written at most once per interval per user
+    flushIntervalSeconds: parseInt(env.LAST_SEEN_FLUSH_SECONDS, 10),
+  },
+  
   push: {
     serviceKey: env.PUSH_SERVICE_KEY,
   },
@@ -93,6 +268,17 @@ export const config = {
     apiKey: env.ADMIN_API_KEY,
   },
   
+  mail: {
+    transport: env.MAIL_TRANSPORT,
+    smtpUrl: env.SMTP_URL,
+    from: env.MAIL_FROM,
+    fileDir: env.MAIL_FILE_DIR,
+  },
+  
+  app: {
+    baseUrl: env.APP_BASE_URL.replace(/\/+$/, ''),
+  },
+  
   cors: {
     allowedOrigins: env.ALLOWED_ORIGINS.split(',').map(o => o.trim()),
   },
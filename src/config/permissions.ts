@@ -0,0 +1,57 @@
+import { ApiKeyScope, Permission, UserRole } from '../types';
+
+/**
+ * Permissions granted by each role
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.USER]: [],
+  [UserRole.COUNSELOR]: [
+    Permission.CRISIS_RESPOND,
+    Permission.MODERATION_QUEUE_READ,
+    Permission.APPOINTMENTS_HOST,
+  ],
+  [UserRole.MODERATOR]: [
+    Permission.REPORTS_READ,
+    Permission.REPORTS_RESOLVE,
+    Permission.MODERATION_QUEUE_READ,
+    Permission.MODERATION_QUEUE_PROCESS,
+    Permission.USERS_BAN,
+    Permission.CHANNELS_SUSPEND,
+  ],
+  [UserRole.ADMIN]: Object.values(Permission),
+};
+
+/**
+ * Permissions an API key scope grants
+ */
+export const API_KEY_SCOPE_PERMISSIONS: Record<ApiKeyScope, Permission[]> = {
+  [ApiKeyScope.TIPS_PUBLISH]: [Permission.TIPS_PUBLISH],
+  [ApiKeyScope.MODERATION_READ]: [Permission.REPORTS_READ, Permission.MODERATION_QUEUE_READ],
+  [ApiKeyScope.METRICS_READ]: [Permission.METRICS_READ],
+};
+
+/**
+ * Effective permissions of a user: role, the legacy isCounselor flag and per-user grants
+ */
+export const resolvePermissions = (user: {
+  role: UserRole;
+  isCounselor?: boolean;
+  permissions?: Permission[];
+}): Permission[] => {
+  const permissions = new Set<Permission>(ROLE_PERMISSIONS[user.role] ?? []);
+
+  if (user.isCounselor) {
+    ROLE_PERMISSIONS[UserRole.COUNSELOR].forEach((permission) => permissions.add(permission));
+  }
+
+  (user.permissions ?? []).forEach((permission) => permissions.add(permission));
+
+  return [...permissions];
+};
+
+/**
+ * Permissions granted by a set of API key scopes
+ */
+export const resolveScopePermissions = (scopes: ApiKeyScope[]): Permission[] => {
+  return [...new Set(scopes.flatMap((scope) => API_KEY_SCOPE_PERMISSIONS[scope] ?? []))];
+};
\ No newline at end of file
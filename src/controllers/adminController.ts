@@ -0,0 +1,305 @@
+import { Response } from 'express';
+import { AuthenticatedRequest, Permission, ReportStatus } from '../types';
+import { resolvePermissions } from '../config/permissions';
+import { AuditLog } from '../models/AuditLog';
+import { User } from '../models/User';
+import { Report } from '../models/Report';
+import { ModerationQueue } from '../models/ModerationQueue';
+import { ChatRoom } from '../models/ChatRoom';
+import { Session } from '../models/Session';
+import { MetricsMessagesDaily } from '../models/MetricsMessagesDaily';
+import { apiKeyService } from '../services/apiKeyService';
+import { principalCache } from '../services/principalCache';
+import { sessionService } from '../services/sessionService';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Create a scoped API key (the raw key is only returned here)
+ */
+export const createApiKey = async (req: AuthenticatedRequest, res: Response) => {
+  const { name, scopes, expiresInDays } = req.body;
+  const actorId = req.user!.id;
+
+  const { apiKey, key } = await apiKeyService.create({
+    name,
+    scopes,
+    expiresInDays,
+    createdBy: actorId,
+  });
+
+  await AuditLog.create({
+    action: 'api_key_created',
+    actorUserId: actorId,
+    target: `api_key:${apiKey._id}`,
+    timestamp: new Date(),
+    meta: {
+      name,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+    },
+  });
+
+  res.status(201).json({
+    success: true,
+    data: {
+      apiKey,
+      // Shown only once
+      key,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * List API keys
+ */
+export const listApiKeys = async (req: AuthenticatedRequest, res: Response) => {
+  const includeRevoked = req.query.includeRevoked === 'true';
+  const apiKeys = await apiKeyService.list(includeRevoked);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      items: apiKeys,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Revoke an API key
+ */
+export const revokeApiKey = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const actorId = req.user!.id;
+
+  const revoked = await apiKeyService.revoke(id, actorId);
+  if (!revoked) {
+    throw new AppError('API key not found', 404, 'API_KEY_NOT_FOUND');
+  }
+
+  await AuditLog.create({
+    action: 'api_key_revoked',
+    actorUserId: actorId,
+    target: `api_key:${id}`,
+    timestamp: new Date(),
+    meta: { ip: req.ip },
+  });
+
+  logger.info(`API key revoked: ${id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      message: 'API key revoked',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Platform metrics for dashboards and monitoring
+ */
+export const getMetrics = async (_req: AuthenticatedRequest, res: Response) => {
+  const since = new Date();
+  since.setDate(since.getDate() - 30);
+  const sinceDay = since.toISOString().split('T')[0];
+
+  const [users, openReports, pendingQueue, rooms, activeSessions, messagesDaily] = await Promise.all([
+    User.countDocuments(),
+    Report.countDocuments({ status: { $ne: ReportStatus.RESOLVED } }),
+    ModerationQueue.countDocuments({ processed: false }),
+    ChatRoom.countDocuments(),
+    Session.countDocuments({ revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } }),
+    MetricsMessagesDaily.find({ day: { $gte: sinceDay } }).sort({ day: 1 }),
+  ]);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      users,
+      openReports,
+      pendingQueue,
+      rooms,
+      activeSessions,
+      messagesDaily: messagesDaily.map((entry) => ({ day: entry.day, count: entry.count })),
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Change a user's role, counselor/volunteer flags or per-user permission grants
+ */
+export const updateUserAccess = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { role, isCounselor, isVolunteer, permissions } = req.body;
+  const actor = req.user!;
+
+  if (id === actor.id) {
+    throw new AppError('You cannot change your own access', 400, 'CANNOT_MODIFY_SELF');
+  }
+
+  const user = await User.findById(id);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  const before = {
+    role: user.role,
+    isCounselor: user.isCounselor,
+    isVolunteer: user.isVolunteer,
+    permissions: [...user.permissions],
+  };
+
+  if (role !== undefined) user.role = role;
+  if (isCounselor !== undefined) user.isCounselor = isCounselor;
+  if (isVolunteer !== undefined) user.isVolunteer = isVolunteer;
+  if (permissions !== undefined) user.permissions = [...new Set<Permission>(permissions)];
+
+  // Nobody can hand out permissions they do not hold themselves
+  const escalated = resolvePermissions(user).filter((permission) => !actor.permissions.includes(permission));
+  if (escalated.length > 0) {
+    throw new AppError('Cannot grant permissions you do not have', 403, 'FORBIDDEN', {
+      permissions: escalated,
+    });
+  }
+
+  await user.save();
+  await principalCache.invalidate(String(user._id));
+
+  const after = {
+    role: user.role,
+    isCounselor: user.isCounselor,
+    isVolunteer: user.isVolunteer,
+    permissions: [...user.permissions],
+  };
+
+  await AuditLog.create({
+    action: 'user_access_changed',
+    actorUserId: actor.id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: { before, after },
+  });
+
+  logger.info(`Access changed for user ${user._id} by ${actor.id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      user: {
+        id: user._id,
+        ...after,
+        effectivePermissions: resolvePermissions(user),
+      },
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Start impersonating a user: returns a short-lived, read-only access token
+ */
+export const startImpersonation = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const { reason } = req.body;
+  const actor = req.user!;
+
+  if (actor.impersonatedBy) {
+    throw new AppError('Already impersonating a user', 400, 'ALREADY_IMPERSONATING');
+  }
+
+  if (id === actor.id) {
+    throw new AppError('You cannot impersonate yourself', 400, 'CANNOT_IMPERSONATE_SELF');
+  }
+
+  const user = await User.findById(id);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  // Impersonation must not become a way to use permissions the admin lacks
+  const escalated = resolvePermissions(user).filter((permission) => !actor.permissions.includes(permission));
+  if (escalated.length > 0) {
+    throw new AppError('Cannot impersonate a user with permissions you do not have', 403, 'FORBIDDEN', {
+      permissions: escalated,
+    });
+  }
+
+  const { accessToken, sessionId, expiresAt } = await sessionService.createImpersonationSession(user, actor.id, {
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+  });
+
+  await AuditLog.create({
+    action: 'impersonation_started',
+    actorUserId: actor.id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: {
+      reason,
+      sessionId,
+      expiresAt,
+      ip: req.ip,
+    },
+  });
+
+  logger.warn(`Admin ${actor.id} started impersonating user ${user._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      accessToken,
+      expiresAt,
+      user,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * End the impersonation session the request is made with
+ */
+export const endImpersonation = async (req: AuthenticatedRequest, res: Response) => {
+  const { id: userId, impersonatedBy, sessionId } = req.user!;
+
+  if (!impersonatedBy || !sessionId) {
+    throw new AppError('Not impersonating a user', 400, 'NOT_IMPERSONATING');
+  }
+
+  await sessionService.revokeSession(sessionId, 'impersonation_ended', userId);
+
+  await AuditLog.create({
+    action: 'impersonation_ended',
+    actorUserId: impersonatedBy,
+    target: `user:${userId}`,
+    timestamp: new Date(),
+    meta: { sessionId },
+  });
+
+  logger.info(`Admin ${impersonatedBy} stopped impersonating user ${userId}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      message: 'Impersonation ended',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
\ No newline at end of file
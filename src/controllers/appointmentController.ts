@@ -0,0 +1,155 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../types';
+import { User } from '../models/User';
+import { IAppointment } from '../models/Appointment';
+import { IAvailabilitySlot } from '../models/AvailabilitySlot';
+import { appointmentService } from '../services/appointmentService';
+import { AppError } from '../middleware/errorHandler';
+import { schemas } from '../middleware/validation';
+
+const toSlotResponse = (slot: IAvailabilitySlot) => ({
+  id: slot._id,
+  counselorId: slot.counselorId,
+  startsAt: slot.startsAt,
+  endsAt: slot.endsAt,
+  timezone: slot.timezone,
+});
+
+/**
+ * Public view of an appointment, including the caller's side of it
+ */
+const toResponse = (appointment: IAppointment, userId: string) => {
+  const asCounselor = appointment.counselorId.equals(userId);
+  return {
+    id: appointment._id,
+    role: asCounselor ? 'counselor' : 'client',
+    userId: appointment.userId,
+    counselorId: appointment.counselorId,
+    slotId: appointment.slotId,
+    startsAt: appointment.startsAt,
+    endsAt: appointment.endsAt,
+    timezone: asCounselor ? appointment.counselorTimezone : appointment.timezone,
+    status: appointment.status,
+    streamChannelId: appointment.streamChannelId,
+    cancelledAt: appointment.cancelledAt,
+    cancelReason: appointment.cancelReason,
+  };
+};
+
+/**
+ * Publish availability slots
+ */
+export const createSlots = async (req: AuthenticatedRequest, res: Response) => {
+  const { slots, timezone } = req.body;
+  const created = await appointmentService.createSlots(req.user!.id, slots, timezone);
+
+  res.status(201).json({
+    success: true,
+    data: created.map(toSlotResponse),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * List open slots
+ */
+export const listSlots = async (req: AuthenticatedRequest, res: Response) => {
+  // Parsed by validate(schemas.listSlots)
+  const filter = req.query as unknown as z.infer<typeof schemas.listSlots.query>;
+  const slots = await appointmentService.listOpenSlots(filter);
+
+  res.status(200).json({
+    success: true,
+    data: slots.map(toSlotResponse),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Withdraw an unbooked slot
+ */
+export const withdrawSlot = async (req: AuthenticatedRequest, res: Response) => {
+  await appointmentService.withdrawSlot(req.user!.id, req.params.id);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      message: 'Slot withdrawn',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Book a slot
+ */
+export const bookAppointment = async (req: AuthenticatedRequest, res: Response) => {
+  const user = await User.findById(req.user!.id);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  const appointment = await appointmentService.book(user, req.body.slotId, req.body.timezone);
+
+  res.status(201).json({
+    success: true,
+    data: toResponse(appointment, req.user!.id),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Upcoming appointments, as client or counselor
+ */
+export const listAppointments = async (req: AuthenticatedRequest, res: Response) => {
+  const appointments = await appointmentService.listUpcoming(req.user!.id);
+
+  res.status(200).json({
+    success: true,
+    data: appointments.map((appointment) => toResponse(appointment, req.user!.id)),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Move an appointment to another slot
+ */
+export const rescheduleAppointment = async (req: AuthenticatedRequest, res: Response) => {
+  const appointment = await appointmentService.findForParticipant(req.params.id, req.user!.id);
+  await appointmentService.reschedule(appointment, req.user!.id, req.body.slotId);
+
+  res.status(200).json({
+    success: true,
+    data: toResponse(appointment, req.user!.id),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Cancel an appointment
+ */
+export const cancelAppointment = async (req: AuthenticatedRequest, res: Response) => {
+  const appointment = await appointmentService.findForParticipant(req.params.id, req.user!.id);
+  await appointmentService.cancel(appointment, req.user!.id, req.body.reason);
+
+  res.status(200).json({
+    success: true,
+    data: toResponse(appointment, req.user!.id),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
\ No newline at end of file
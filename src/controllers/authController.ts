@@ -1,15 +1,168 @@
 import { Response } from 'express';
-import { AuthenticatedRequest } from '../types';
-import { User } from '../models/User';
+import {
+  AgeBand,
+  AuthenticatedRequest,
+  GuardianConsentStatus,
+  JWTPayload,
+  SessionContext,
+  TokenPurpose,
+} from '../types';
+import { User, IUser } from '../models/User';
+import { AuditLog } from '../models/AuditLog';
 import { authService } from '../services/authService';
+import { sessionService } from '../services/sessionService';
+import { oneTimeTokenService } from '../services/oneTimeTokenService';
+import { mailService } from '../services/mailService';
+import { totpService } from '../services/totpService';
+import { loginAttemptService } from '../services/loginAttemptService';
+import { passwordPolicy } from '../services/passwordPolicy';
+import { oidcService } from '../services/oidcService';
+import { principalCache } from '../services/principalCache';
+import { ageGate } from '../services/ageGate';
+import { config } from '../config/env';
+import { customAlphabet } from 'nanoid';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
 
+const guestSuffix = customAlphabet('0123456789', 4);
+
+/**
+ * Display name for accounts created without one, e.g. "Guest 4821"
+ */
+const guestName = () => `Guest ${guestSuffix()}`;
+
+/**
+ * Extract client context for session tracking
+ */
+const getSessionContext = (req: AuthenticatedRequest): SessionContext => ({
+  deviceName: req.body?.deviceName,
+  deviceId: req.body?.deviceId,
+  ip: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+/**
+ * Issue an email verification token and email it (runs detached from the request)
+ */
+const sendEmailVerification = async (user: IUser) => {
+  try {
+    const token = await oneTimeTokenService.issue(
+      String(user._id),
+      TokenPurpose.EMAIL_VERIFICATION,
+      config.emailVerification.expiryHours * 60
+    );
+
+    await mailService.sendEmailVerificationEmail(user.email!, user.displayName, token);
+  } catch (error) {
+    logger.error('Failed to send verification email:', error);
+  }
+};
+
+/**
+ * Issue a guardian consent token and email it to the guardian (runs detached from the request)
+ */
+const sendGuardianConsentRequest = async (user: IUser) => {
+  try {
+    const token = await oneTimeTokenService.issue(
+      String(user._id),
+      TokenPurpose.GUARDIAN_CONSENT,
+      config.ageGate.consentExpiryDays * 24 * 60
+    );
+
+    await mailService.sendGuardianConsentEmail(user.guardianConsent.guardianEmail!, user.displayName, token);
+  } catch (error) {
+    logger.error('Failed to send guardian consent email:', error);
+  }
+};
+
+/**
+ * Age fields for a new account. Refuses users under the minimum age and
+ * requires a guardian email (other than the user's own) below the consent age.
+ */
+const captureAge = (
+  input: { dateOfBirth?: Date; ageBand?: AgeBand; guardianEmail?: string },
+  ownEmail?: string
+) => {
+  const age = ageGate.assess(input);
+  const { guardianEmail } = input;
+  if (age.guardianConsentRequired && (!guardianEmail || guardianEmail === ownEmail?.toLowerCase())) {
+    throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', [{
+      field: 'guardianEmail',
+      message: `A parent or guardian email (not your own) is required under ${config.ageGate.guardianConsentAge}`,
+    }]);
+  }
+
+  return {
+    dateOfBirth: input.dateOfBirth,
+    ageBand: age.ageBand,
+    guardianConsent: age.guardianConsentRequired
+      ? { status: GuardianConsentStatus.PENDING, guardianEmail, requestedAt: new Date() }
+      : { status: GuardianConsentStatus.NOT_REQUIRED },
+  };
+};
+
+/**
+ * Start a session for a fully authenticated user and send the login response
+ */
+const completeLogin = async (req: AuthenticatedRequest, res: Response, user: IUser) => {
+  // Start a session and generate tokens
+  const { accessToken, refreshToken } = await sessionService.createSession(user, getSessionContext(req));
+
+  // Successful login clears failed-attempt tracking
+  await loginAttemptService.recordSuccess(user.email || String(user._id));
+
+  // Update last seen
+  user.lastSeenAt = new Date();
+  await user.save();
+
+  logger.info(`User logged in: ${user._id}`);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      user: {
+        id: user._id,
+        displayName: user.displayName,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        role: user.role,
+      },
+      accessToken,
+      refreshToken,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Ask for a second factor before completing the login
+ */
+const sendTwoFactorChallenge = (res: Response, user: IUser) => {
+  logger.info(`2FA challenge issued for user: ${user._id}`);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      twoFactorRequired: true,
+      challengeToken: authService.generateTwoFactorChallengeToken(String(user._id)),
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
 /**
  * Register a new user
  */
 export const register = async (req: AuthenticatedRequest, res: Response) => {
-  const { email, password, displayName } = req.body;
+  const { email, password, displayName, dateOfBirth, ageBand, guardianEmail } = req.body;
+
+  passwordPolicy.assertValid(password, { email, displayName });
+
+  const age = captureAge({ dateOfBirth, ageBand, guardianEmail }, email);
 
   // Check if user already exists
   const existingUser = await User.findOne({ email });
@@ -25,20 +178,18 @@ export const register = async (req: AuthenticatedRequest, res: Response) => {
     email,
     passwordHash,
     displayName,
+    ...age,
   });
 
-  // Generate tokens
-  const accessToken = authService.generateAccessToken({
-    userId: String(user._id),
-    role: user.role,
-    email: user.email,
-  });
+  // Start a session and generate tokens
+  const { accessToken, refreshToken } = await sessionService.createSession(user, getSessionContext(req));
 
-  const refreshToken = authService.generateRefreshToken({
-    userId: String(user._id),
-    role: user.role,
-    email: user.email,
-  });
+  // Send verification email
+  void sendEmailVerification(user);
+
+  if (ageGate.isConsentOutstanding(user.guardianConsent)) {
+    void sendGuardianConsentRequest(user);
+  }
 
   logger.info(`User registered: ${user._id}`);
 
@@ -49,7 +200,10 @@ export const register = async (req: AuthenticatedRequest, res: Response) => {
         id: user._id,
         displayName: user.displayName,
         email: user.email,
+        emailVerified: user.emailVerified,
         role: user.role,
+        ageBand: user.ageBand,
+        guardianConsentStatus: user.guardianConsent.status,
       },
       accessToken,
       refreshToken,
@@ -66,9 +220,13 @@ export const register = async (req: AuthenticatedRequest, res: Response) => {
 export const login = async (req: AuthenticatedRequest, res: Response) => {
   const { email, password } = req.body;
 
+  // Per-account lockout / progressive delay (independent of client IP)
+  await loginAttemptService.assertCanAttempt(email);
+
   // Find user
   const user = await User.findOne({ email });
   if (!user || !user.passwordHash) {
+    await loginAttemptService.recordFailure(email, null, req.ip);
     throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
   }
 
@@ -82,39 +240,513 @@ export const login = async (req: AuthenticatedRequest, res: Response) => {
   // Verify password
   const isValid = await authService.comparePassword(password, user.passwordHash);
   if (!isValid) {
+    await loginAttemptService.recordFailure(email, user, req.ip);
     throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
   }
 
-  // Generate tokens
-  const accessToken = authService.generateAccessToken({
-    userId: String(user._id),
-    role: user.role,
-    email: user.email,
+  // Step-up: password is correct but a second factor is still required
+  if (user.twoFactor?.enabled) {
+    return sendTwoFactorChallenge(res, user);
+  }
+
+  return completeLogin(req, res, user);
+};
+
+/**
+ * Complete a login with a TOTP or backup code
+ */
+export const verifyTwoFactorLogin = async (req: AuthenticatedRequest, res: Response) => {
+  const { challengeToken, code, backupCode } = req.body;
+
+  let userId: string;
+  try {
+    userId = authService.verifyTwoFactorChallengeToken(challengeToken).userId;
+  } catch (error: any) {
+    throw new AppError(error.message || 'Invalid challenge token', 401, 'INVALID_TOKEN');
+  }
+
+  const user = await User.findById(userId);
+  if (!user || !user.twoFactor?.enabled) {
+    throw new AppError('Invalid challenge token', 401, 'INVALID_TOKEN');
+  }
+
+  // Second-factor guesses count towards the same per-account lockout
+  const account = user.email || String(user._id);
+  await loginAttemptService.assertCanAttempt(account);
+
+  if (user.isBanned()) {
+    throw new AppError('User is banned', 403, 'USER_BANNED', {
+      bannedUntil: user.bannedUntil,
+    });
+  }
+
+  if (!(await totpService.verifySecondFactor(user, { code, backupCode }))) {
+    await AuditLog.create({
+      action: 'two_factor_failed',
+      actorUserId: user._id,
+      target: `user:${user._id}`,
+      timestamp: new Date(),
+      meta: { ip: req.ip },
+    });
+    await loginAttemptService.recordFailure(account, user, req.ip);
+    throw new AppError('Invalid verification code', 401, 'INVALID_2FA_CODE');
+  }
+
+  if (backupCode) {
+    // The loaded document still lists the code that was just consumed
+    logger.warn(`Backup code used by user ${user._id}, ${user.twoFactor.backupCodeHashes.length - 1} left`);
+  }
+
+  return completeLogin(req, res, user);
+};
+
+/**
+ * Refresh access token (rotates the refresh token)
+ */
+export const refresh = async (req: AuthenticatedRequest, res: Response) => {
+  const { refreshToken } = req.body;
+
+  // Verify refresh token
+  let payload: JWTPayload;
+  try {
+    payload = authService.verifyRefreshToken(refreshToken);
+  } catch (error: any) {
+    throw new AppError(error.message || 'Invalid refresh token', 401, 'INVALID_TOKEN');
+  }
+
+  // Fetch user
+  const user = await User.findById(payload.userId);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  if (user.isBanned()) {
+    throw new AppError('User is banned', 403, 'USER_BANNED', {
+      bannedUntil: user.bannedUntil,
+    });
+  }
+
+  // Rotate refresh token and generate new access token
+  const tokens = await sessionService.rotateRefreshToken(
+    user,
+    payload,
+    refreshToken,
+    getSessionContext(req)
+  );
+
+  logger.info(`Token refreshed for user: ${user._id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
   });
+};
+
+/**
+ * Logout the current session (or every session of the user)
+ */
+export const logout = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const sessionId = req.user!.sessionId;
+  const { allDevices = false } = req.body;
 
-  const refreshToken = authService.generateRefreshToken({
-    userId: String(user._id),
-    role: user.role,
-    email: user.email,
+  let revokedCount = 0;
+  if (allDevices) {
+    revokedCount = await sessionService.revokeAllForUser(userId, 'logout_all');
+  } else if (sessionId) {
+    revokedCount = (await sessionService.revokeSession(sessionId, 'logout', userId)) ? 1 : 0;
+  }
+
+  await AuditLog.create({
+    action: allDevices ? 'logout_all' : 'logout',
+    actorUserId: userId,
+    target: sessionId ? `session:${sessionId}` : undefined,
+    timestamp: new Date(),
+    meta: {
+      revokedCount,
+      ip: req.ip,
+    },
   });
 
-  // Update last seen
-  user.lastSeenAt = new Date();
+  logger.info(`User logged out: ${userId} (allDevices: ${allDevices})`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      revokedCount,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * List active sessions (devices) of the current user
+ */
+export const getSessions = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const currentSessionId = req.user!.sessionId;
+
+  const sessions = await sessionService.listActiveSessions(userId);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      items: sessions.map((session) => ({
+        id: session._id,
+        deviceName: session.deviceName,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        lastUsedAt: session.lastUsedAt,
+        createdAt: session.createdAt,
+        current: String(session._id) === currentSessionId,
+      })),
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Revoke one of the current user's sessions
+ */
+export const revokeSession = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { id } = req.params;
+
+  const revoked = await sessionService.revokeSession(id, 'revoked_by_user', userId);
+  if (!revoked) {
+    throw new AppError('Session not found', 404, 'SESSION_NOT_FOUND');
+  }
+
+  await AuditLog.create({
+    action: 'session_revoked',
+    actorUserId: userId,
+    target: `session:${id}`,
+    timestamp: new Date(),
+    meta: {
+      ip: req.ip,
+      current: id === req.user!.sessionId,
+    },
+  });
+
+  logger.info(`Session revoked: ${id} by user ${userId}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      sessionId: id,
+      revoked: true,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Issue a reset token and email it (runs detached from the request)
+ */
+const sendPasswordReset = async (user: IUser, ip?: string) => {
+  try {
+    const token = await oneTimeTokenService.issue(
+      String(user._id),
+      TokenPurpose.PASSWORD_RESET,
+      config.passwordReset.expiryMinutes
+    );
+
+    await mailService.sendPasswordResetEmail(user.email!, user.displayName, token);
+
+    await AuditLog.create({
+      action: 'password_reset_requested',
+      actorUserId: user._id,
+      target: `user:${user._id}`,
+      timestamp: new Date(),
+      meta: { ip },
+    });
+  } catch (error) {
+    logger.error('Failed to send password reset email:', error);
+  }
+};
+
+/**
+ * Request a password reset email
+ */
+export const forgotPassword = async (req: AuthenticatedRequest, res: Response) => {
+  const { email } = req.body;
+
+  const user = await User.findOne({ email });
+
+  // Respond identically whether or not the account exists
+  if (user && user.email && user.passwordHash) {
+    void sendPasswordReset(user, req.ip);
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {
+      message: 'If an account exists for this email, a password reset link has been sent',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Reset password using a one-time token
+ */
+export const resetPassword = async (req: AuthenticatedRequest, res: Response) => {
+  const { token, password } = req.body;
+
+  // Check the new password before burning the token so the user can retry
+  const pendingToken = await oneTimeTokenService.find(token, TokenPurpose.PASSWORD_RESET);
+  const pendingUser = pendingToken ? await User.findById(pendingToken.userId) : null;
+  if (pendingUser) {
+    passwordPolicy.assertValid(password, {
+      email: pendingUser.email,
+      displayName: pendingUser.displayName,
+    });
+  }
+
+  const resetToken = await oneTimeTokenService.consume(token, TokenPurpose.PASSWORD_RESET);
+  const user = resetToken ? await User.findById(resetToken.userId) : null;
+  if (!user) {
+    throw new AppError('Invalid or expired reset token', 400, 'INVALID_RESET_TOKEN');
+  }
+
+  user.passwordHash = await authService.hashPassword(password);
   await user.save();
 
-  logger.info(`User logged in: ${user._id}`);
+  // Sign out everywhere - whoever had access before the reset loses it
+  const revokedCount = await sessionService.revokeAllForUser(String(user._id), 'password_reset');
+
+  await AuditLog.create({
+    action: 'password_reset_completed',
+    actorUserId: user._id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: {
+      ip: req.ip,
+      revokedSessions: revokedCount,
+    },
+  });
+
+  if (user.email) {
+    mailService.sendPasswordChangedEmail(user.email, user.displayName, 'all').catch((error) => {
+      logger.error('Failed to send password changed email:', error);
+    });
+  }
+
+  logger.info(`Password reset for user: ${user._id}`);
 
   res.status(200).json({
+    success: true,
+    data: {
+      message: 'Password has been reset. Please log in again.',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Verify email address using a one-time token
+ */
+export const verifyEmail = async (req: AuthenticatedRequest, res: Response) => {
+  const { token } = req.body;
+
+  const verificationToken = await oneTimeTokenService.consume(token, TokenPurpose.EMAIL_VERIFICATION);
+  const user = verificationToken ? await User.findById(verificationToken.userId) : null;
+  if (!user) {
+    throw new AppError('Invalid or expired verification token', 400, 'INVALID_VERIFICATION_TOKEN');
+  }
+
+  if (!user.emailVerified) {
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    await user.save();
+    await principalCache.invalidate(String(user._id));
+
+    await AuditLog.create({
+      action: 'email_verified',
+      actorUserId: user._id,
+      target: `user:${user._id}`,
+      timestamp: new Date(),
+      meta: {
+        email: user.email,
+      },
+    });
+  }
+
+  logger.info(`Email verified for user: ${user._id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      emailVerified: true,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Resend the email verification link to the current user
+ */
+export const resendVerification = async (req: AuthenticatedRequest, res: Response) => {
+  const user = await User.findById(req.user!.id);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  if (!user.email) {
+    throw new AppError('Account has no email address', 400, 'NO_EMAIL');
+  }
+
+  if (user.emailVerified) {
+    throw new AppError('Email already verified', 400, 'ALREADY_VERIFIED');
+  }
+
+  void sendEmailVerification(user);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      message: 'Verification email sent',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Record a parent/guardian's decision using the emailed one-time token
+ */
+export const respondToGuardianConsent = async (req: AuthenticatedRequest, res: Response) => {
+  const { token, decision } = req.body;
+
+  const consentToken = await oneTimeTokenService.consume(token, TokenPurpose.GUARDIAN_CONSENT);
+  const user = consentToken ? await User.findById(consentToken.userId) : null;
+  if (!user || user.guardianConsent?.status !== GuardianConsentStatus.PENDING) {
+    throw new AppError('Invalid or expired consent link', 400, 'INVALID_CONSENT_TOKEN');
+  }
+
+  const granted = decision === 'grant';
+  user.guardianConsent.status = granted ? GuardianConsentStatus.GRANTED : GuardianConsentStatus.DENIED;
+  user.guardianConsent.decidedAt = new Date();
+  await user.save();
+  await principalCache.invalidate(String(user._id));
+
+  await AuditLog.create({
+    action: granted ? 'guardian_consent_granted' : 'guardian_consent_denied',
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: {
+      ip: req.ip,
+    },
+  });
+
+  logger.info(`Guardian consent ${granted ? 'granted' : 'denied'} for user: ${user._id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      status: user.guardianConsent.status,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Send the guardian consent request again (e.g. after it expired)
+ */
+export const resendGuardianConsent = async (req: AuthenticatedRequest, res: Response) => {
+  const user = await User.findById(req.user!.id);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  if (user.guardianConsent?.status !== GuardianConsentStatus.PENDING) {
+    throw new AppError('Guardian consent is not pending', 400, 'CONSENT_NOT_PENDING');
+  }
+
+  // Only the newest link stays valid
+  await oneTimeTokenService.revokeAll(String(user._id), TokenPurpose.GUARDIAN_CONSENT);
+  void sendGuardianConsentRequest(user);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      message: 'Consent request sent',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Create an anonymous account (no email required). Its session is bound to
+ * the device id: refreshing needs the same id, other devices use recovery.
+ */
+export const createAnonymousAccount = async (req: AuthenticatedRequest, res: Response) => {
+  const { displayName, dateOfBirth, ageBand, guardianEmail } = req.body;
+
+  const age = captureAge({ dateOfBirth, ageBand, guardianEmail });
+  const recoveryCode = authService.generateRecoveryCode();
+
+  const user = await User.create({
+    displayName: displayName || guestName(),
+    isAnonymous: true,
+    recoveryCodeHash: authService.hashSecret(recoveryCode),
+    ...age,
+  });
+
+  const { accessToken, refreshToken } = await sessionService.createSession(user, getSessionContext(req));
+
+  if (ageGate.isConsentOutstanding(user.guardianConsent)) {
+    void sendGuardianConsentRequest(user);
+  }
+
+  await AuditLog.create({
+    action: 'anonymous_account_created',
+    actorUserId: user._id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: { ip: req.ip },
+  });
+
+  logger.info(`Anonymous account created: ${user._id}`);
+
+  res.status(201).json({
     success: true,
     data: {
       user: {
         id: user._id,
         displayName: user.displayName,
-        email: user.email,
+        isAnonymous: true,
         role: user.role,
+        ageBand: user.ageBand,
+        guardianConsentStatus: user.guardianConsent.status,
       },
       accessToken,
       refreshToken,
+      // Shown only once - the client must ask the user to store it safely
+      recoveryCode,
     },
     meta: {
       timestamp: new Date().toISOString(),
@@ -123,39 +755,285 @@ export const login = async (req: AuthenticatedRequest, res: Response) => {
 };
 
 /**
- * Refresh access token
+ * Recover an anonymous account on a (new) device with its recovery code.
+ * The account moves to that device.
  */
-export const refresh = async (req: AuthenticatedRequest, res: Response) => {
-  const { refreshToken } = req.body;
+export const recoverAnonymousAccount = async (req: AuthenticatedRequest, res: Response) => {
+  const { recoveryCode } = req.body;
+  const recoveryCodeHash = authService.hashSecret(recoveryCode);
 
-  // Verify refresh token
-  const payload = authService.verifyRefreshToken(refreshToken);
+  const found = await User.findOne({ recoveryCodeHash, isAnonymous: true });
+  if (found?.isBanned()) {
+    throw new AppError('User is banned', 403, 'USER_BANNED', {
+      bannedUntil: found.bannedUntil,
+    });
+  }
 
-  // Fetch user
-  const user = await User.findById(payload.userId);
+  // Recovery codes are single use: swap in a fresh one only if this one is still current
+  const nextRecoveryCode = authService.generateRecoveryCode();
+  const user = found && await User.findOneAndUpdate(
+    { _id: found._id, recoveryCodeHash, isAnonymous: true },
+    { recoveryCodeHash: authService.hashSecret(nextRecoveryCode), lastSeenAt: new Date() },
+    { new: true }
+  );
+  if (!user) {
+    throw new AppError('Invalid recovery code', 401, 'INVALID_RECOVERY_CODE');
+  }
+
+  // The previous device loses access
+  await sessionService.revokeAllForUser(String(user._id), 'device_rebound');
+  const { accessToken, refreshToken } = await sessionService.createSession(user, getSessionContext(req));
+
+  await AuditLog.create({
+    action: 'anonymous_account_recovered',
+    actorUserId: user._id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: { ip: req.ip },
+  });
+
+  logger.info(`Anonymous account recovered: ${user._id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      user: {
+        id: user._id,
+        displayName: user.displayName,
+        isAnonymous: true,
+        role: user.role,
+      },
+      accessToken,
+      refreshToken,
+      recoveryCode: nextRecoveryCode,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Attach email/password login to the current anonymous account.
+ * The user id is unchanged, so handles, channels and tags are kept.
+ */
+export const upgradeAccount = async (req: AuthenticatedRequest, res: Response) => {
+  const { email, password, displayName } = req.body;
+
+  const user = await User.findById(req.user!.id);
   if (!user) {
     throw new AppError('User not found', 404, 'USER_NOT_FOUND');
   }
 
+  if (!user.isAnonymous) {
+    throw new AppError('Account already has email login', 400, 'ALREADY_UPGRADED');
+  }
+
+  passwordPolicy.assertValid(password, { email, displayName: displayName || user.displayName });
+
+  const existingUser = await User.findOne({ email });
+  if (existingUser) {
+    throw new AppError('User already exists', 409, 'USER_EXISTS');
+  }
+
+  user.email = email;
+  user.passwordHash = await authService.hashPassword(password);
+  user.isAnonymous = false;
+  user.recoveryCodeHash = undefined;
+  if (displayName) {
+    user.displayName = displayName;
+  }
+  await user.save();
+  await principalCache.invalidate(String(user._id));
+
+  void sendEmailVerification(user);
+
+  await AuditLog.create({
+    action: 'anonymous_account_upgraded',
+    actorUserId: user._id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: { ip: req.ip },
+  });
+
+  logger.info(`Anonymous account upgraded: ${user._id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      user: {
+        id: user._id,
+        displayName: user.displayName,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        isAnonymous: false,
+        role: user.role,
+      },
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Sign in with an OpenID Connect provider ID token (Google, Apple, ...).
+ * Finds the user by linked identity, links by provider-verified email,
+ * or creates a new account.
+ */
+export const oidcLogin = async (req: AuthenticatedRequest, res: Response) => {
+  const { idToken, nonce, displayName, dateOfBirth, ageBand, guardianEmail } = req.body;
+  const claims = await oidcService.verifyIdToken(req.params.provider, idToken, nonce);
+
+  let user = await User.findOne({
+    identities: { $elemMatch: { provider: claims.provider, subject: claims.subject } },
+  });
+
+  if (!user && claims.email) {
+    const existing = await User.findOne({ email: claims.email });
+
+    if (existing && !claims.emailVerified) {
+      // Never attach an identity to an account based on an unverified address
+      throw new AppError(
+        'An account with this email already exists. Log in and link the provider from your account.',
+        409,
+        'ACCOUNT_EXISTS'
+      );
+    }
+
+    if (existing) {
+      existing.identities.push({
+        provider: claims.provider,
+        subject: claims.subject,
+        email: claims.email,
+        linkedAt: new Date(),
+      });
+      if (!existing.emailVerified) {
+        existing.emailVerified = true;
+        existing.emailVerifiedAt = new Date();
+      }
+      await existing.save();
+      await principalCache.invalidate(String(existing._id));
+
+      await AuditLog.create({
+        action: 'identity_linked',
+        actorUserId: existing._id,
+        target: `user:${existing._id}`,
+        timestamp: new Date(),
+        meta: { provider: claims.provider, method: 'verified_email', ip: req.ip },
+      });
+
+      user = existing;
+    }
+  }
+
+  if (!user) {
+    // New accounts go through the same age gate as registration
+    if (!dateOfBirth && !ageBand) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', [{
+        field: 'dateOfBirth',
+        message: 'Date of birth or age band is required to create an account',
+      }]);
+    }
+    const age = captureAge({ dateOfBirth, ageBand, guardianEmail }, claims.email);
+
+    user = await User.create({
+      email: claims.email,
+      emailVerified: claims.emailVerified,
+      emailVerifiedAt: claims.emailVerified ? new Date() : undefined,
+      displayName: displayName || claims.name || guestName(),
+      avatarUrl: claims.picture,
+      identities: [{
+        provider: claims.provider,
+        subject: claims.subject,
+        email: claims.email,
+        linkedAt: new Date(),
+      }],
+      ...age,
+    });
+
+    if (user.email && !user.emailVerified) {
+      void sendEmailVerification(user);
+    }
+    if (ageGate.isConsentOutstanding(user.guardianConsent)) {
+      void sendGuardianConsentRequest(user);
+    }
+
+    logger.info(`User registered via ${claims.provider}: ${user._id}`);
+  }
+
   if (user.isBanned()) {
     throw new AppError('User is banned', 403, 'USER_BANNED', {
       bannedUntil: user.bannedUntil,
     });
   }
 
-  // Generate new access token
-  const accessToken = authService.generateAccessToken({
-    userId: String(user._id),
-    role: user.role,
-    email: user.email,
+  // The provider replaces the password step, not the second factor
+  if (user.twoFactor?.enabled) {
+    return sendTwoFactorChallenge(res, user);
+  }
+
+  return completeLogin(req, res, user);
+};
+
+/**
+ * Link an OpenID Connect identity to the signed-in account
+ */
+export const linkIdentity = async (req: AuthenticatedRequest, res: Response) => {
+  const { idToken, nonce } = req.body;
+  const claims = await oidcService.verifyIdToken(req.params.provider, idToken, nonce);
+
+  const owner = await User.findOne({
+    identities: { $elemMatch: { provider: claims.provider, subject: claims.subject } },
   });
+  if (owner && String(owner._id) !== req.user!.id) {
+    throw new AppError('This identity is linked to another account', 409, 'IDENTITY_IN_USE');
+  }
 
-  logger.info(`Token refreshed for user: ${user._id}`);
+  const user = await User.findById(req.user!.id);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  if (!owner) {
+    // One identity per provider per account
+    user.identities = user.identities.filter((identity) => identity.provider !== claims.provider);
+    user.identities.push({
+      provider: claims.provider,
+      subject: claims.subject,
+      email: claims.email,
+      linkedAt: new Date(),
+    });
+    await user.save();
+
+    await AuditLog.create({
+      action: 'identity_linked',
+      actorUserId: user._id,
+      target: `user:${user._id}`,
+      timestamp: new Date(),
+      meta: { provider: claims.provider, method: 'explicit', ip: req.ip },
+    });
+  }
 
   res.status(200).json({
     success: true,
     data: {
-      accessToken,
+      identities: user.identities.map(({ provider, email, linkedAt }) => ({ provider, email, linkedAt })),
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * List the configured identity providers
+ */
+export const getOidcProviders = async (_req: AuthenticatedRequest, res: Response) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      providers: oidcService.listProviders(),
     },
     meta: {
       timestamp: new Date().toISOString(),
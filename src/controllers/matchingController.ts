@@ -0,0 +1,84 @@
+import { Response } from 'express';
+import { AuthenticatedRequest, MatchStatus } from '../types';
+import { User } from '../models/User';
+import { IMatchRequest } from '../models/MatchRequest';
+import { matchingService } from '../services/matchingService';
+import { streamClient } from '../services/streamClient';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Public view of a matching request. Matched requests include the channel and,
+ * for anonymous identities, a Stream token to chat with.
+ */
+const toResponse = (request: IMatchRequest) => ({
+  id: request._id,
+  status: request.status,
+  tags: request.tags,
+  language: request.language,
+  partnerType: request.partnerType,
+  anonymousHandle: request.anonymousHandle,
+  expiresAt: request.expiresAt,
+  ...(request.status === MatchStatus.MATCHED && request.streamChannelId && {
+    match: {
+      streamChannelId: request.streamChannelId,
+      memberId: request.memberId,
+      matchedAt: request.matchedAt,
+      ...(request.memberId?.startsWith('anon_') && {
+        token: streamClient.createToken(request.memberId),
+      }),
+    },
+  }),
+});
+
+/**
+ * Ask to be paired for a 1:1 conversation
+ */
+export const requestMatch = async (req: AuthenticatedRequest, res: Response) => {
+  const user = await User.findById(req.user!.id);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  const request = await matchingService.enqueue(user, req.body);
+
+  res.status(request.status === MatchStatus.MATCHED ? 201 : 202).json({
+    success: true,
+    data: toResponse(request),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Poll the current request
+ */
+export const getCurrentMatch = async (req: AuthenticatedRequest, res: Response) => {
+  const request = await matchingService.current(req.user!.id);
+  if (!request) {
+    throw new AppError('No matching request found', 404, 'MATCH_REQUEST_NOT_FOUND');
+  }
+
+  res.status(200).json({
+    success: true,
+    data: toResponse(request),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Leave the queue
+ */
+export const cancelMatch = async (req: AuthenticatedRequest, res: Response) => {
+  const request = await matchingService.cancel(req.user!.id);
+
+  res.status(200).json({
+    success: true,
+    data: toResponse(request),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
\ No newline at end of file
@@ -1,11 +1,12 @@
 import { Response } from 'express';
-import { AuthenticatedRequest, ModerationAction, ReportStatus } from '../types';
+import { AuthenticatedRequest, ModerationAction, Permission, ReportStatus } from '../types';
 import { Report } from '../models/Report';
 import { ModerationQueue } from '../models/ModerationQueue';
 import { User } from '../models/User';
-import { ChatRoom } from '../models/ChatRoom';
+import { ChatRoom, SUSPENDED_FLAG_COUNT } from '../models/ChatRoom';
 import { AuditLog } from '../models/AuditLog';
 import { streamClient } from '../services/streamClient';
+import { principalCache } from '../services/principalCache';
 // ...existing code...
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
@@ -27,6 +28,18 @@ export const resolveModerationAction = async (req: AuthenticatedRequest, res: Re
     throw new AppError('Report already resolved', 400, 'ALREADY_RESOLVED');
   }
 
+  // Some actions need more than reports.resolve
+  const actionPermission: Partial<Record<ModerationAction, Permission>> = {
+    [ModerationAction.BAN_USER]: Permission.USERS_BAN,
+    [ModerationAction.SUSPEND_CHANNEL]: Permission.CHANNELS_SUSPEND,
+  };
+  const required = actionPermission[action as ModerationAction];
+  if (required && !req.user!.permissions.includes(required)) {
+    throw new AppError('Insufficient permissions', 403, 'FORBIDDEN', {
+      required: [required],
+    });
+  }
+
   let actionDetails: any = {
     action,
     comment,
@@ -75,6 +88,7 @@ export const resolveModerationAction = async (req: AuthenticatedRequest, res: Re
 
           user.bannedUntil = bannedUntil;
           await user.save();
+          await principalCache.invalidate(String(user._id));
 
           // Ban in Stream
           try {
@@ -99,7 +113,7 @@ export const resolveModerationAction = async (req: AuthenticatedRequest, res: Re
       if (report.targetType === 'channel') {
         const chatRoom = await ChatRoom.findOne({ streamChannelId: report.targetId });
         if (chatRoom) {
-          chatRoom.flaggedCount += 100; // Mark as suspended
+          chatRoom.flaggedCount += SUSPENDED_FLAG_COUNT; // Mark as suspended
           await chatRoom.save();
           actionDetails.channelSuspended = true;
         }
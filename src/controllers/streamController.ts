@@ -1,19 +1,57 @@
 import { Response } from 'express';
+import { z } from 'zod';
 import { AuthenticatedRequest } from '../types';
 import { streamClient } from '../services/streamClient';
 import { User } from '../models/User';
-import { ChatRoom } from '../models/ChatRoom';
+import { ChatRoom, ChatRoomRole, IChatRoom } from '../models/ChatRoom';
 import { EphemeralMapping } from '../models/EphemeralMapping';
+import { AuditLog } from '../models/AuditLog';
+import { Session } from '../models/Session';
+import { IChannelInvite } from '../models/ChannelInvite';
+import { chatRoomService } from '../services/chatRoomService';
+import { channelInviteService } from '../services/channelInviteService';
+import { anonymousIdentityService, PENDING_CHANNEL } from '../services/anonymousIdentityService';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
+import { schemas } from '../middleware/validation';
 import { nanoid } from 'nanoid';
 
+/**
+ * Stream token for an admin impersonating the user: the user's own identity,
+ * expiring with the impersonation. Stream can't scope tokens, so nothing is
+ * written to Stream and the token is audited instead.
+ */
+const issueImpersonationToken = async (req: AuthenticatedRequest): Promise<string> => {
+  const { id: userId, impersonatedBy, sessionId } = req.user!;
+  if (req.body.anonymousHandle) {
+    // Issuing handle tokens creates or renews identities
+    throw new AppError('Anonymous handles are not available while impersonating', 403, 'IMPERSONATION_READ_ONLY');
+  }
+
+  const session = await Session.findById(sessionId).select('expiresAt');
+  if (!session) {
+    throw new AppError('Session has been revoked or expired', 401, 'SESSION_REVOKED');
+  }
+  const { expiresAt } = session;
+  const token = streamClient.createToken(userId, Math.floor(expiresAt.getTime() / 1000));
+
+  await AuditLog.create({
+    action: 'impersonation_stream_token_issued',
+    actorUserId: impersonatedBy,
+    target: `user:${userId}`,
+    timestamp: new Date(),
+    meta: { sessionId, expiresAt },
+  });
+
+  return token;
+};
+
 /**
  * Generate Stream token for authenticated user
  */
 export const getStreamToken = async (req: AuthenticatedRequest, res: Response) => {
   const userId = req.user!.id;
-  const { anonymousHandle } = req.body;
+  const { anonymousHandle, streamChannelId } = req.body;
 
   // Fetch user
   const user = await User.findById(userId);
@@ -30,54 +68,27 @@ export const getStreamToken = async (req: AuthenticatedRequest, res: Response) =
   let token: string;
   let ephemeralData: any = null;
 
-  if (anonymousHandle) {
-    // Create ephemeral identity
-    const ephemeralId = `anon_${userId}_${nanoid(8)}`;
-    
-    // Upsert ephemeral user in Stream
-    await streamClient.upsertUser(ephemeralId, {
-      name: anonymousHandle,
-      role: 'anonymous',
-      isAnonymous: true,
-    });
+  if (req.user!.impersonatedBy) {
+    token = await issueImpersonationToken(req);
+  } else if (anonymousHandle) {
+    // Identity already bound to the channel, or a pending one bound when joining
+    const { ephemeralId, expiresAt } = await anonymousIdentityService.issue(user, anonymousHandle, streamChannelId);
 
     // Create ephemeral token
     token = streamClient.createToken(ephemeralId);
 
-    // Store mapping
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24); // 24 hour expiry
-
-    await EphemeralMapping.create({
-      ephemeralId,
-      realUserId: user._id,
-      channelId: 'pending', // Will be updated when joining channel
-      expiresAt,
-    });
-
-    // Add to user's anonymous handles
-    user.anonymousHandles.push({
-      channelId: 'pending',
-      handle: anonymousHandle,
-      ephemeralId,
-      createdAt: new Date(),
-    });
-    await user.save();
-
     ephemeralData = {
       id: ephemeralId,
       token,
       handle: anonymousHandle,
       expiresAt,
     };
-
-    logger.info(`Ephemeral identity created for user ${userId}: ${ephemeralId}`);
   } else {
     // Regular user identity
     await streamClient.upsertUser(userId, {
       name: user.displayName,
       image: user.avatarUrl,
-      role: user.role,
+      role: streamClient.toStreamRole(user.role),
     });
 
     token = streamClient.createToken(userId);
@@ -100,6 +111,45 @@ export const getStreamToken = async (req: AuthenticatedRequest, res: Response) =
   });
 };
 
+/**
+ * List the caller's active anonymous handles
+ */
+export const listHandles = async (req: AuthenticatedRequest, res: Response) => {
+  const mappings = await anonymousIdentityService.listActive(req.user!.id);
+
+  res.status(200).json({
+    success: true,
+    data: mappings.map((mapping) => ({
+      ephemeralId: mapping.ephemeralId,
+      handle: mapping.handle,
+      // null until the handle is used to join a channel
+      streamChannelId: mapping.channelId === PENDING_CHANNEL ? null : mapping.channelId,
+      expiresAt: mapping.expiresAt,
+      createdAt: mapping.createdAt,
+    })),
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Retire one of the caller's anonymous handles
+ */
+export const retireHandle = async (req: AuthenticatedRequest, res: Response) => {
+  await anonymousIdentityService.retireForUser(req.user!.id, req.params.ephemeralId);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      message: 'Handle retired',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
 /**
  * Create a new channel
  */
@@ -158,79 +208,33 @@ export const createChannel = async (req: AuthenticatedRequest, res: Response) =>
 };
 
 /**
- * Join an existing channel
+ * Add the caller to a channel as themselves or under an anonymous handle.
+ * Returns the member id used.
  */
-export const joinChannel = async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.user!.id;
-  const { streamChannelId, asAnonymousHandle } = req.body;
-
-  // Parse channel type and id
-  const [channelType, channelId] = streamChannelId.split(':');
-  if (!channelType || !channelId) {
-    throw new AppError('Invalid channel ID format', 400, 'INVALID_CHANNEL_ID');
-  }
+const addToChannel = async (
+  userId: string,
+  streamChannelId: string,
+  chatRoom: IChatRoom | null,
+  asAnonymousHandle?: string
+): Promise<string> => {
+  const { channelType, channelId } = chatRoomService.parseChannelId(streamChannelId);
 
   let effectiveUserId = userId;
 
   if (asAnonymousHandle) {
-    // Find or create ephemeral identity
     const user = await User.findById(userId);
     if (!user) {
       throw new AppError('User not found', 404, 'USER_NOT_FOUND');
     }
 
-    const existingHandle = user.anonymousHandles.find(
-      (h) => h.handle === asAnonymousHandle && h.channelId === 'pending'
-    );
-
-    if (existingHandle) {
-      effectiveUserId = existingHandle.ephemeralId;
-      
-      // Update mapping with actual channel
-      await EphemeralMapping.updateOne(
-        { ephemeralId: effectiveUserId },
-        { channelId: streamChannelId }
-      );
-      
-      existingHandle.channelId = streamChannelId;
-      await user.save();
-    } else {
-      // Create new ephemeral identity
-      const ephemeralId = `anon_${userId}_${nanoid(8)}`;
-      await streamClient.upsertUser(ephemeralId, {
-        name: asAnonymousHandle,
-        role: 'anonymous',
-        isAnonymous: true,
-      });
-
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 24);
-
-      await EphemeralMapping.create({
-        ephemeralId,
-        realUserId: user._id,
-        channelId: streamChannelId,
-        expiresAt,
-      });
-
-      user.anonymousHandles.push({
-        channelId: streamChannelId,
-        handle: asAnonymousHandle,
-        ephemeralId,
-        createdAt: new Date(),
-      });
-      await user.save();
-
-      effectiveUserId = ephemeralId;
-    }
+    effectiveUserId = await anonymousIdentityService.bind(user, asAnonymousHandle, streamChannelId);
   }
 
   // Add member to Stream channel
   await streamClient.addMembers(channelType, channelId, [effectiveUserId]);
 
-  // Update database
-  const chatRoom = await ChatRoom.findOne({ streamChannelId });
-  if (chatRoom) {
+  // Update database; rejoining keeps an existing role
+  if (chatRoom && !chatRoom.members.has(effectiveUserId)) {
     chatRoom.members.set(effectiveUserId, {
       role: 'member',
       joinedAt: new Date(),
@@ -239,12 +243,577 @@ export const joinChannel = async (req: AuthenticatedRequest, res: Response) => {
   }
 
   logger.info(`User ${effectiveUserId} joined channel ${streamChannelId}`);
+  return effectiveUserId;
+};
+
+/**
+ * Record that an invite let a user in
+ */
+const auditInviteAccepted = (userId: string, invite: IChannelInvite) =>
+  AuditLog.create({
+    action: 'channel_invite_accepted',
+    actorUserId: userId,
+    target: `channel:${invite.streamChannelId}`,
+    timestamp: new Date(),
+    meta: {
+      inviteId: invite._id,
+      invitedBy: invite.createdBy,
+      uses: invite.uses,
+      maxUses: invite.maxUses,
+    },
+  });
+
+const inviteInvalid = () => new AppError('Invite is invalid, expired or used up', 404, 'INVITE_INVALID');
+
+/**
+ * Add a user to the channel of an invite they redeemed. The use is given back
+ * if joining fails.
+ */
+const addWithInvite = async (
+  userId: string,
+  invite: IChannelInvite,
+  chatRoom: IChatRoom,
+  asAnonymousHandle?: string
+): Promise<string> => {
+  let effectiveUserId: string;
+  try {
+    effectiveUserId = await addToChannel(userId, invite.streamChannelId, chatRoom, asAnonymousHandle);
+  } catch (error) {
+    await channelInviteService.release(invite);
+    throw error;
+  }
+
+  await auditInviteAccepted(userId, invite);
+  return effectiveUserId;
+};
+
+/**
+ * Join an existing channel. Private rooms need an invite unless the caller is already in them.
+ */
+export const joinChannel = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { streamChannelId, asAnonymousHandle, inviteToken } = req.body;
+
+  chatRoomService.parseChannelId(streamChannelId);
+  const chatRoom = await ChatRoom.findOne({ streamChannelId });
+
+  let invite: IChannelInvite | null = null;
+  if (chatRoom?.isPrivate && (await chatRoomService.memberIdentities(chatRoom, userId)).length === 0) {
+    invite = inviteToken ? await channelInviteService.redeem(inviteToken, streamChannelId) : null;
+    if (!invite) {
+      throw new AppError('This channel is private and needs a valid invite', 403, 'INVITE_REQUIRED');
+    }
+  }
+
+  const effectiveUserId = invite
+    ? await addWithInvite(userId, invite, chatRoom!, asAnonymousHandle)
+    : await addToChannel(userId, streamChannelId, chatRoom, asAnonymousHandle);
 
   res.status(200).json({
     success: true,
     data: {
       channelId: streamChannelId,
       userId: effectiveUserId,
+      ...(effectiveUserId.startsWith('anon_') && {
+        token: streamClient.createToken(effectiveUserId),
+      }),
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Real account behind a member id (anonymous members are audited against it)
+ */
+const realUserIdOf = async (memberId: string): Promise<string> => {
+  if (!memberId.startsWith('anon_')) {
+    return memberId;
+  }
+  const mapping = await EphemeralMapping.findOne({ ephemeralId: memberId }).select('realUserId');
+  return mapping ? String(mapping.realUserId) : memberId;
+};
+
+/**
+ * Require a room moderator/owner who outranks the target member
+ */
+const assertCanModerate = (
+  actorRole: ChatRoomRole | null,
+  targetRole: ChatRoomRole,
+  verb: string
+): ChatRoomRole => {
+  if (!actorRole || actorRole === 'member') {
+    throw new AppError(`Only the channel owner or moderators can ${verb} members`, 403, 'FORBIDDEN');
+  }
+  if (!chatRoomService.outranks(actorRole, targetRole)) {
+    throw new AppError(`A ${actorRole} cannot ${verb} a ${targetRole}`, 403, 'FORBIDDEN');
+  }
+  return actorRole;
+};
+
+/**
+ * Load a room and the caller's owner identity, or throw if the caller is not the owner
+ */
+const loadAsOwner = async (req: AuthenticatedRequest, streamChannelId: string) => {
+  const chatRoom = await chatRoomService.findRoom(streamChannelId);
+  const memberIds = await chatRoomService.memberIdentities(chatRoom, req.user!.id);
+  const ownerId = memberIds.find((id) => chatRoom.members.get(id)?.role === 'owner');
+  if (!ownerId) {
+    throw new AppError('Only the channel owner can manage roles', 403, 'FORBIDDEN');
+  }
+  return { chatRoom, ownerId };
+};
+
+/**
+ * Room role of a member, or 404
+ */
+const memberRoleOf = (chatRoom: IChatRoom, memberId: string): ChatRoomRole => {
+  const role = chatRoom.members.get(memberId)?.role;
+  if (!role) {
+    throw new AppError('Member not found in this channel', 404, 'MEMBER_NOT_FOUND');
+  }
+  return role;
+};
+
+/**
+ * List public channels for discovery
+ */
+export const listChannels = async (req: AuthenticatedRequest, res: Response) => {
+  // Parsed by validate(schemas.listChannels)
+  const { tags, q, sort, limit, cursor } = req.query as unknown as z.infer<typeof schemas.listChannels.query>;
+
+  const { items, nextCursor } = await chatRoomService.discover({ tags, q, sort, limit, cursor });
+
+  res.status(200).json({
+    success: true,
+    data: {
+      items,
+      pagination: {
+        limit,
+        nextCursor,
+        hasNext: nextCursor !== null,
+      },
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Leave a channel with every identity (real or anonymous) the caller has in it
+ */
+export const leaveChannel = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { streamChannelId } = req.body;
+
+  const chatRoom = await chatRoomService.findRoom(streamChannelId);
+  const memberIds = await chatRoomService.memberIdentities(chatRoom, userId);
+  if (memberIds.length === 0) {
+    throw new AppError('Not a member of this channel', 404, 'NOT_A_MEMBER');
+  }
+
+  if (chatRoomService.highestRole(chatRoom, memberIds) === 'owner') {
+    throw new AppError('The owner cannot leave the channel', 409, 'OWNER_CANNOT_LEAVE');
+  }
+
+  await chatRoomService.removeMembers(chatRoom, memberIds);
+
+  await AuditLog.create({
+    action: 'channel_left',
+    actorUserId: userId,
+    target: `channel:${streamChannelId}`,
+    timestamp: new Date(),
+    meta: { memberIds },
+  });
+
+  logger.info(`User ${userId} left channel ${streamChannelId}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      channelId: streamChannelId,
+      removedMemberIds: memberIds,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Remove a member from a channel (room owner/moderator, or channel moderation permission)
+ */
+export const removeMember = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { streamChannelId, memberId, reason } = req.body;
+
+  const chatRoom = await chatRoomService.findRoom(streamChannelId);
+  const targetRole = memberRoleOf(chatRoom, memberId);
+
+  const actor = await chatRoomService.resolveActor(chatRoom, req.user!);
+  if (actor.memberIds.includes(memberId)) {
+    throw new AppError('Use leaveChannel to leave a channel', 400, 'CANNOT_REMOVE_SELF');
+  }
+  const actorRole = assertCanModerate(actor.role, targetRole, 'remove');
+
+  await chatRoomService.removeMembers(chatRoom, [memberId]);
+
+  await AuditLog.create({
+    action: 'channel_member_removed',
+    actorUserId: userId,
+    target: `channel:${streamChannelId}`,
+    timestamp: new Date(),
+    meta: {
+      memberId,
+      memberUserId: await realUserIdOf(memberId),
+      actorRole,
+      reason,
+    },
+  });
+
+  logger.info(`Member ${memberId} removed from channel ${streamChannelId} by user ${userId}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      channelId: streamChannelId,
+      removedMemberId: memberId,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Promote a member to room moderator (owner only)
+ */
+export const promoteModerator = async (req: AuthenticatedRequest, res: Response) => {
+  const { streamChannelId, memberId } = req.body;
+
+  const { chatRoom } = await loadAsOwner(req, streamChannelId);
+  if (memberRoleOf(chatRoom, memberId) !== 'member') {
+    throw new AppError('Member is already a moderator or the owner', 409, 'ALREADY_MODERATOR');
+  }
+
+  await chatRoomService.setRoles(chatRoom, { [memberId]: 'moderator' });
+
+  await AuditLog.create({
+    action: 'channel_moderator_promoted',
+    actorUserId: req.user!.id,
+    target: `channel:${streamChannelId}`,
+    timestamp: new Date(),
+    meta: { memberId, memberUserId: await realUserIdOf(memberId) },
+  });
+
+  logger.info(`Member ${memberId} promoted to moderator in ${streamChannelId}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      channelId: streamChannelId,
+      memberId,
+      role: 'moderator',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Demote a room moderator back to member (owner only)
+ */
+export const demoteModerator = async (req: AuthenticatedRequest, res: Response) => {
+  const { streamChannelId, memberId } = req.body;
+
+  const { chatRoom } = await loadAsOwner(req, streamChannelId);
+  if (memberRoleOf(chatRoom, memberId) !== 'moderator') {
+    throw new AppError('Member is not a moderator', 409, 'NOT_A_MODERATOR');
+  }
+
+  await chatRoomService.setRoles(chatRoom, { [memberId]: 'member' });
+
+  await AuditLog.create({
+    action: 'channel_moderator_demoted',
+    actorUserId: req.user!.id,
+    target: `channel:${streamChannelId}`,
+    timestamp: new Date(),
+    meta: { memberId, memberUserId: await realUserIdOf(memberId) },
+  });
+
+  logger.info(`Moderator ${memberId} demoted in ${streamChannelId}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      channelId: streamChannelId,
+      memberId,
+      role: 'member',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Hand ownership to another member; the previous owner stays on as moderator
+ */
+export const transferOwnership = async (req: AuthenticatedRequest, res: Response) => {
+  const { streamChannelId, memberId } = req.body;
+
+  const { chatRoom, ownerId } = await loadAsOwner(req, streamChannelId);
+  if (memberRoleOf(chatRoom, memberId) === 'owner') {
+    throw new AppError('Member already owns this channel', 409, 'ALREADY_OWNER');
+  }
+
+  await chatRoomService.setRoles(chatRoom, { [memberId]: 'owner', [ownerId]: 'moderator' });
+
+  await AuditLog.create({
+    action: 'channel_ownership_transferred',
+    actorUserId: req.user!.id,
+    target: `channel:${streamChannelId}`,
+    timestamp: new Date(),
+    meta: {
+      fromMemberId: ownerId,
+      toMemberId: memberId,
+      toUserId: await realUserIdOf(memberId),
+    },
+  });
+
+  logger.info(`Ownership of ${streamChannelId} transferred from ${ownerId} to ${memberId}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      channelId: streamChannelId,
+      ownerId: memberId,
+      previousOwnerId: ownerId,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Mute a member in one channel for a while (room owner/moderator, or channels.suspend)
+ */
+export const muteMember = async (req: AuthenticatedRequest, res: Response) => {
+  const { streamChannelId, memberId, durationMinutes, reason } = req.body;
+
+  const chatRoom = await chatRoomService.findRoom(streamChannelId);
+  const targetRole = memberRoleOf(chatRoom, memberId);
+  const actor = await chatRoomService.resolveActor(chatRoom, req.user!);
+  const actorRole = assertCanModerate(actor.role, targetRole, 'mute');
+
+  const { channelType, channelId } = chatRoomService.parseChannelId(streamChannelId);
+  await streamClient.banFromChannel(channelType, channelId, memberId, {
+    timeout: durationMinutes,
+    reason,
+    bannedBy: actor.memberIds[0] ?? req.user!.id,
+  });
+
+  const mutedUntil = new Date(Date.now() + durationMinutes * 60 * 1000);
+
+  await AuditLog.create({
+    action: 'channel_member_muted',
+    actorUserId: req.user!.id,
+    target: `channel:${streamChannelId}`,
+    timestamp: new Date(),
+    meta: {
+      memberId,
+      memberUserId: await realUserIdOf(memberId),
+      actorRole,
+      mutedUntil,
+      reason,
+    },
+  });
+
+  logger.info(`Member ${memberId} muted in ${streamChannelId} until ${mutedUntil.toISOString()}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      channelId: streamChannelId,
+      memberId,
+      mutedUntil,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Lift a channel mute early
+ */
+export const unmuteMember = async (req: AuthenticatedRequest, res: Response) => {
+  const { streamChannelId, memberId } = req.body;
+
+  const chatRoom = await chatRoomService.findRoom(streamChannelId);
+  const targetRole = memberRoleOf(chatRoom, memberId);
+  const actor = await chatRoomService.resolveActor(chatRoom, req.user!);
+  const actorRole = assertCanModerate(actor.role, targetRole, 'unmute');
+
+  const { channelType, channelId } = chatRoomService.parseChannelId(streamChannelId);
+  await streamClient.unbanFromChannel(channelType, channelId, memberId);
+
+  await AuditLog.create({
+    action: 'channel_member_unmuted',
+    actorUserId: req.user!.id,
+    target: `channel:${streamChannelId}`,
+    timestamp: new Date(),
+    meta: { memberId, memberUserId: await realUserIdOf(memberId), actorRole },
+  });
+
+  res.status(200).json({
+    success: true,
+    data: {
+      channelId: streamChannelId,
+      memberId,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Delete a message in a channel (room owner/moderator, or channels.suspend)
+ */
+export const deleteChannelMessage = async (req: AuthenticatedRequest, res: Response) => {
+  const { streamChannelId, messageId } = req.body;
+
+  const chatRoom = await chatRoomService.findRoom(streamChannelId);
+  const message = await streamClient.getMessage(messageId).catch(() => null);
+  if (!message || message.cid !== streamChannelId) {
+    throw new AppError('Message not found in this channel', 404, 'MESSAGE_NOT_FOUND');
+  }
+
+  const authorId = message.user?.id;
+  const actor = await chatRoomService.resolveActor(chatRoom, req.user!);
+  // Authors who have left count as plain members
+  const authorRole = (authorId && chatRoom.members.get(authorId)?.role) || 'member';
+  const ownMessage = !!authorId && actor.memberIds.includes(authorId);
+  const actorRole = assertCanModerate(actor.role, ownMessage ? 'member' : authorRole, 'delete messages of');
+
+  await streamClient.deleteMessage(messageId);
+
+  await AuditLog.create({
+    action: 'channel_message_deleted',
+    actorUserId: req.user!.id,
+    target: `message:${messageId}`,
+    timestamp: new Date(),
+    meta: {
+      channelId: streamChannelId,
+      authorId,
+      authorUserId: authorId ? await realUserIdOf(authorId) : undefined,
+      actorRole,
+    },
+  });
+
+  logger.info(`Message ${messageId} deleted in ${streamChannelId} by user ${req.user!.id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      channelId: streamChannelId,
+      messageId,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Create an invite link for a private channel (room owner/moderator)
+ */
+export const createInvite = async (req: AuthenticatedRequest, res: Response) => {
+  const { id: streamChannelId } = req.params;
+  const { maxUses, expiresInHours } = req.body;
+
+  const chatRoom = await chatRoomService.findRoom(streamChannelId);
+  if (!chatRoom.isPrivate) {
+    throw new AppError('Public channels can be joined without an invite', 409, 'CHANNEL_NOT_PRIVATE');
+  }
+
+  const actor = await chatRoomService.resolveActor(chatRoom, req.user!);
+  if (!actor.role || actor.role === 'member') {
+    throw new AppError('Only the channel owner or moderators can create invites', 403, 'FORBIDDEN');
+  }
+
+  const { token, invite } = await channelInviteService.create(streamChannelId, req.user!.id, {
+    maxUses,
+    expiresInHours,
+  });
+
+  await AuditLog.create({
+    action: 'channel_invite_created',
+    actorUserId: req.user!.id,
+    target: `channel:${streamChannelId}`,
+    timestamp: new Date(),
+    meta: {
+      inviteId: invite._id,
+      maxUses,
+      expiresAt: invite.expiresAt,
+    },
+  });
+
+  res.status(201).json({
+    success: true,
+    data: {
+      id: invite._id,
+      token,
+      channelId: streamChannelId,
+      maxUses: invite.maxUses,
+      expiresAt: invite.expiresAt,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Join the channel an invite is for. Members rejoin without using it up.
+ */
+export const acceptInvite = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user!.id;
+  const { token } = req.params;
+  const { asAnonymousHandle } = req.body;
+
+  const invite = await channelInviteService.find(token);
+  if (!invite) {
+    throw inviteInvalid();
+  }
+
+  const chatRoom = await chatRoomService.findRoom(invite.streamChannelId);
+  let effectiveUserId: string;
+
+  if ((await chatRoomService.memberIdentities(chatRoom, userId)).length > 0) {
+    effectiveUserId = await addToChannel(userId, invite.streamChannelId, chatRoom, asAnonymousHandle);
+  } else {
+    const redeemed = await channelInviteService.redeem(token, invite.streamChannelId);
+    if (!redeemed) {
+      throw inviteInvalid();
+    }
+    effectiveUserId = await addWithInvite(userId, redeemed, chatRoom, asAnonymousHandle);
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {
+      channelId: invite.streamChannelId,
+      userId: effectiveUserId,
+      title: chatRoom.title,
+      ...(effectiveUserId.startsWith('anon_') && {
+        token: streamClient.createToken(effectiveUserId),
+      }),
     },
     meta: {
       timestamp: new Date().toISOString(),
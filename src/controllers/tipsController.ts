@@ -4,7 +4,6 @@ import { DailyTip } from '../models/DailyTip';
 import { AuditLog } from '../models/AuditLog';
 import { pushService } from '../services/pushService';
 import { streamClient } from '../services/streamClient';
-import { config } from '../config/env';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
 
@@ -21,30 +20,8 @@ const SAMPLE_TIPS = [
  * Publish daily tip
  */
 export const publishDailyTip = async (req: AuthenticatedRequest, res: Response) => {
-  // Verify authorization (static secret or admin JWT)
-  const authHeader = req.headers.authorization;
-  const publishSecret = config.publish.secret;
-
-  let authorized = false;
-  let publishedBy = 'system';
-
-  // Check if admin user
-  if (req.user && req.user.role === 'admin') {
-    authorized = true;
-    publishedBy = req.user.id;
-  }
-  // Check static secret
-  else if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    if (token === publishSecret) {
-      authorized = true;
-      publishedBy = 'scheduled-job';
-    }
-  }
-
-  if (!authorized) {
-    throw new AppError('Unauthorized to publish tips', 403, 'FORBIDDEN');
-  }
+  // Authorized by authenticateApiKey: an admin user or a key with tips:publish
+  const publishedBy = req.user?.id || req.apiKey?.name || 'system';
 
   const { content, type, scheduledFor } = req.body;
 
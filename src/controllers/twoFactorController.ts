@@ -0,0 +1,189 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { User } from '../models/User';
+import { AuditLog } from '../models/AuditLog';
+import { totpService } from '../services/totpService';
+import { authService } from '../services/authService';
+import { principalCache } from '../services/principalCache';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Load the authenticated user
+ */
+const loadUser = async (req: AuthenticatedRequest) => {
+  const user = await User.findById(req.user!.id);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+  return user;
+};
+
+/**
+ * Start TOTP enrollment: create a pending secret and provisioning URI
+ */
+export const setupTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  const user = await loadUser(req);
+
+  if (user.twoFactor?.enabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400, 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const secret = totpService.generateSecret();
+  user.twoFactor.pendingSecretEncrypted = totpService.encryptSecret(secret);
+  await user.save();
+
+  logger.info(`2FA enrollment started for user: ${user._id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      secret,
+      otpauthUri: totpService.buildProvisioningUri(secret, user.email || user.displayName),
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ */
+export const enableTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  const { code } = req.body;
+  const user = await loadUser(req);
+
+  if (user.twoFactor?.enabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400, 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  if (!user.twoFactor?.pendingSecretEncrypted) {
+    throw new AppError('Start two-factor setup first', 400, 'TWO_FACTOR_NOT_SETUP');
+  }
+
+  const secretEncrypted = user.twoFactor.pendingSecretEncrypted;
+  const step = totpService.verifyCode(totpService.decryptSecret(secretEncrypted), code);
+  if (step === null) {
+    throw new AppError('Invalid verification code', 400, 'INVALID_2FA_CODE');
+  }
+
+  const { codes, hashes } = totpService.generateBackupCodes();
+
+  user.twoFactor = {
+    enabled: true,
+    secretEncrypted,
+    backupCodeHashes: hashes,
+    lastUsedStep: step,
+    enabledAt: new Date(),
+  };
+  await user.save();
+  await principalCache.invalidate(String(user._id));
+
+  await AuditLog.create({
+    action: 'two_factor_enabled',
+    actorUserId: user._id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: { ip: req.ip },
+  });
+
+  logger.info(`2FA enabled for user: ${user._id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      enabled: true,
+      // Shown only once
+      backupCodes: codes,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Disable two-factor authentication (requires password and a current code)
+ */
+export const disableTwoFactor = async (req: AuthenticatedRequest, res: Response) => {
+  const { password, code, backupCode } = req.body;
+  const user = await loadUser(req);
+
+  if (!user.twoFactor?.enabled) {
+    throw new AppError('Two-factor authentication is not enabled', 400, 'TWO_FACTOR_NOT_ENABLED');
+  }
+
+  if (user.passwordHash && !(await authService.comparePassword(password || '', user.passwordHash))) {
+    throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
+  }
+
+  if (!(await totpService.verifySecondFactor(user, { code, backupCode }))) {
+    throw new AppError('Invalid verification code', 400, 'INVALID_2FA_CODE');
+  }
+
+  user.twoFactor = {
+    enabled: false,
+    backupCodeHashes: [],
+  };
+  await user.save();
+  await principalCache.invalidate(String(user._id));
+
+  await AuditLog.create({
+    action: 'two_factor_disabled',
+    actorUserId: user._id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: { ip: req.ip, role: user.role },
+  });
+
+  logger.info(`2FA disabled for user: ${user._id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      enabled: false,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Replace all backup codes (requires a current TOTP code)
+ */
+export const regenerateBackupCodes = async (req: AuthenticatedRequest, res: Response) => {
+  const { code } = req.body;
+  const user = await loadUser(req);
+
+  if (!user.twoFactor?.enabled) {
+    throw new AppError('Two-factor authentication is not enabled', 400, 'TWO_FACTOR_NOT_ENABLED');
+  }
+
+  if (!(await totpService.verifySecondFactor(user, { code }))) {
+    throw new AppError('Invalid verification code', 400, 'INVALID_2FA_CODE');
+  }
+
+  const { codes, hashes } = totpService.generateBackupCodes();
+  user.twoFactor.backupCodeHashes = hashes;
+  await user.save();
+
+  await AuditLog.create({
+    action: 'two_factor_backup_codes_regenerated',
+    actorUserId: user._id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: { ip: req.ip },
+  });
+
+  res.status(200).json({
+    success: true,
+    data: {
+      backupCodes: codes,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
\ No newline at end of file
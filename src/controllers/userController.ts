@@ -0,0 +1,267 @@
+import { Response } from 'express';
+import { AuthenticatedRequest, DataExportStatus, KeywordAction } from '../types';
+import { User } from '../models/User';
+import { AuditLog } from '../models/AuditLog';
+import { authService } from '../services/authService';
+import { passwordPolicy } from '../services/passwordPolicy';
+import { sessionService } from '../services/sessionService';
+import { mailService } from '../services/mailService';
+import { keywordScanner } from '../services/keywordScanner';
+import { streamClient } from '../services/streamClient';
+import { principalCache } from '../services/principalCache';
+import { accountDeletionService } from '../services/accountDeletionService';
+import { dataExportService } from '../services/dataExportService';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Load the authenticated user
+ */
+const loadUser = async (req: AuthenticatedRequest) => {
+  const user = await User.findById(req.user!.id);
+  if (!user) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+  return user;
+};
+
+/**
+ * Get the current user's profile
+ */
+export const getProfile = async (req: AuthenticatedRequest, res: Response) => {
+  const user = await loadUser(req);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      user,
+      permissions: req.user!.permissions,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Update display name, avatar or tags
+ */
+export const updateProfile = async (req: AuthenticatedRequest, res: Response) => {
+  const { displayName, avatarUrl, tags } = req.body;
+  const user = await loadUser(req);
+  const changed: string[] = [];
+
+  if (displayName !== undefined && displayName !== user.displayName) {
+    // Only abusive words; crisis and mood keywords are fine in a name
+    const scan = await keywordScanner.scanText(displayName);
+    if (scan.matches.some((match) => match.action === KeywordAction.HIDE)) {
+      throw new AppError('Display name is not allowed', 400, 'VALIDATION_ERROR', [
+        { field: 'displayName', message: 'Display name contains words that are not allowed' },
+      ]);
+    }
+    user.displayName = displayName;
+    changed.push('displayName');
+  }
+
+  if (avatarUrl !== undefined && (avatarUrl || undefined) !== user.avatarUrl) {
+    user.avatarUrl = avatarUrl || undefined;
+    changed.push('avatarUrl');
+  }
+
+  if (tags !== undefined) {
+    user.tags = [...new Set<string>(tags)];
+    changed.push('tags');
+  }
+
+  await user.save();
+  if (changed.includes('displayName')) {
+    await principalCache.invalidate(String(user._id));
+  }
+
+  if (changed.includes('displayName') || changed.includes('avatarUrl')) {
+    // The profile is saved either way; the next token request upserts again
+    try {
+      await streamClient.upsertUser(String(user._id), {
+        name: user.displayName,
+        image: user.avatarUrl,
+        role: streamClient.toStreamRole(user.role),
+      });
+    } catch (error) {
+      logger.warn(`Profile of user ${user._id} not synced to Stream:`, error);
+    }
+  }
+
+  if (changed.length > 0) {
+    await AuditLog.create({
+      action: 'profile_updated',
+      actorUserId: user._id,
+      target: `user:${user._id}`,
+      timestamp: new Date(),
+      meta: { fields: changed },
+    });
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {
+      user,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Change password and sign out all other sessions
+ */
+export const changePassword = async (req: AuthenticatedRequest, res: Response) => {
+  const { currentPassword, newPassword } = req.body;
+  const user = await loadUser(req);
+
+  if (!user.passwordHash) {
+    throw new AppError('Account has no password; upgrade the account first', 400, 'NO_PASSWORD');
+  }
+
+  if (!(await authService.comparePassword(currentPassword, user.passwordHash))) {
+    throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
+  }
+
+  passwordPolicy.assertValid(newPassword, {
+    email: user.email,
+    displayName: user.displayName,
+  });
+
+  user.passwordHash = await authService.hashPassword(newPassword);
+  await user.save();
+
+  const revokedCount = await sessionService.revokeAllForUser(
+    String(user._id),
+    'password_changed',
+    req.user!.sessionId
+  );
+
+  await AuditLog.create({
+    action: 'password_changed',
+    actorUserId: user._id,
+    target: `user:${user._id}`,
+    timestamp: new Date(),
+    meta: {
+      ip: req.ip,
+      revokedSessions: revokedCount,
+    },
+  });
+
+  if (user.email) {
+    mailService.sendPasswordChangedEmail(user.email, user.displayName, 'others').catch((error) => {
+      logger.error('Failed to send password changed email:', error);
+    });
+  }
+
+  logger.info(`Password changed for user: ${user._id}`);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      message: 'Password changed. Other devices have been signed out.',
+      revokedSessions: revokedCount,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Request deletion of the current account. The account is erased once the
+ * grace period ends unless the user cancels.
+ */
+export const deleteAccount = async (req: AuthenticatedRequest, res: Response) => {
+  const { password } = req.body;
+  const user = await loadUser(req);
+
+  if (user.passwordHash && !(await authService.comparePassword(password || '', user.passwordHash))) {
+    throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
+  }
+
+  if (user.deletionScheduledFor) {
+    throw new AppError('Account deletion is already scheduled', 409, 'DELETION_ALREADY_SCHEDULED', {
+      scheduledFor: user.deletionScheduledFor,
+    });
+  }
+
+  const scheduledFor = await accountDeletionService.schedule(user, req.ip);
+
+  res.status(202).json({
+    success: true,
+    data: {
+      message: 'Account scheduled for deletion',
+      scheduledFor,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Cancel a pending account deletion
+ */
+export const cancelAccountDeletion = async (req: AuthenticatedRequest, res: Response) => {
+  const user = await loadUser(req);
+
+  if (!(await accountDeletionService.cancel(user))) {
+    throw new AppError('No account deletion is scheduled', 400, 'DELETION_NOT_SCHEDULED');
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {
+      message: 'Account deletion cancelled',
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Get the current personal data export, starting one if needed
+ */
+export const requestDataExport = async (req: AuthenticatedRequest, res: Response) => {
+  const dataExport = await dataExportService.request(req.user!.id);
+  const ready = dataExport.status === DataExportStatus.READY;
+
+  res.status(ready ? 200 : 202).json({
+    success: true,
+    data: {
+      export: dataExport,
+      downloadUrl: ready ? `/api/users/me/export/${dataExport._id}/download` : undefined,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Download a finished export archive
+ */
+export const downloadDataExport = async (req: AuthenticatedRequest, res: Response) => {
+  const { dataExport, archive } = await dataExportService.getArchive(req.user!.id, req.params.id);
+  const date = (dataExport.completedAt || dataExport.createdAt).toISOString().slice(0, 10);
+
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="mindsupport-export-${date}.json"`);
+  res.setHeader('Cache-Control', 'no-store');
+  if (dataExport.sizeBytes !== undefined) {
+    res.setHeader('Content-Length', dataExport.sizeBytes);
+  }
+
+  archive.on('error', (error) => {
+    logger.error(`Failed to stream data export ${dataExport._id}:`, error);
+    res.destroy(error);
+  });
+  res.status(200);
+  archive.pipe(res);
+};
\ No newline at end of file
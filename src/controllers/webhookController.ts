@@ -4,6 +4,7 @@ import { streamClient } from '../services/streamClient';
 import { keywordScanner } from '../services/keywordScanner';
 import { idempotencyService } from '../services/idempotency';
 import { pushService } from '../services/pushService';
+import { anonymousIdentityService } from '../services/anonymousIdentityService';
 import { ChatRoom } from '../models/ChatRoom';
 import { ModerationQueue } from '../models/ModerationQueue';
 import { Report } from '../models/Report';
@@ -91,6 +92,11 @@ async function processMessageCreated(event: StreamWebhookEvent) {
   // Mark as processed immediately to prevent race conditions
   await idempotencyService.markProcessed(messageId);
 
+  // Posting keeps an anonymous identity alive
+  if (userId.startsWith('anon_')) {
+    await anonymousIdentityService.renew(userId);
+  }
+
   // Scan message text
   const scanResult = await keywordScanner.scanText(text);
 
@@ -0,0 +1,11 @@
+import { Request, Response } from 'express';
+import { keyStore } from '../services/keyStore';
+
+/**
+ * Publish the public keys used to sign access tokens (RFC 7517)
+ */
+export const getJwks = async (_req: Request, res: Response) => {
+  // Short cache so rotated keys are picked up quickly
+  res.set('Cache-Control', 'public, max-age=300');
+  res.status(200).json(keyStore.getJwks());
+};
\ No newline at end of file
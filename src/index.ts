@@ -3,9 +3,13 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { connectDatabase } from './utils/database';
+import { runMigrations } from './utils/migrations';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { setupRoutes } from './routes';
+import { startJobs } from './jobs';
+import { lastSeenTracker } from './services/lastSeenTracker';
+import { keyStore } from './services/keyStore';
 import * as Sentry from '@sentry/node';
 import { env } from './config/env';
 
@@ -86,6 +90,9 @@ const startServer = async () => {
     await connectDatabase();
     logger.info('✅ Database connected successfully');
 
+    await runMigrations();
+    startJobs();
+
     const PORT = env.PORT || 3000;
     app.listen(PORT, () => {
       logger.info(`🚀 MindSupport API server running on port ${PORT}`);
@@ -110,11 +117,19 @@ process.on('unhandledRejection', (reason, promise) => {
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logger.info('SIGTERM signal received: closing HTTP server');
+  // Write batched lastSeenAt values before exiting
+  await lastSeenTracker.stop().catch((error) => logger.error('Failed to flush lastSeenAt:', error));
   process.exit(0);
 });
 
+// Re-read JWT keys from JWT_KEYS_DIR after adding or retiring one
+process.on('SIGHUP', () => {
+  logger.info('SIGHUP signal received: reloading JWT keys');
+  keyStore.reload();
+});
+
 // Start the server
 if (require.main === module) {
   startServer();
@@ -0,0 +1,53 @@
+import cron from 'node-cron';
+import { accountDeletionService } from '../services/accountDeletionService';
+import { dataExportService } from '../services/dataExportService';
+import { matchingService } from '../services/matchingService';
+import { appointmentService } from '../services/appointmentService';
+import { anonymousIdentityService } from '../services/anonymousIdentityService';
+import { logger } from '../utils/logger';
+
+/**
+ * Wrap a job so failures are logged instead of crashing the process
+ */
+const runJob = (name: string, job: () => Promise<unknown>) => async () => {
+  try {
+    await job();
+  } catch (error) {
+    logger.error(`Job ${name} failed:`, error);
+  }
+};
+
+/**
+ * Schedule background jobs (long-running server only, not serverless)
+ */
+export const startJobs = () => {
+  // Erase accounts whose deletion grace period has ended
+  cron.schedule('0 * * * *', runJob('account-deletion', async () => {
+    const erased = await accountDeletionService.processDue();
+    if (erased > 0) {
+      logger.info(`Erased ${erased} account(s) scheduled for deletion`);
+    }
+  }));
+
+  // Build personal data exports that were not finished right away
+  cron.schedule('* * * * *', runJob('data-export', () => dataExportService.processPending()));
+
+  // Remove archives of expired data exports
+  cron.schedule('30 * * * *', runJob('data-export-purge', () => dataExportService.purgeExpired()));
+
+  // Expire matching requests nobody was paired with
+  cron.schedule('* * * * *', runJob('match-expiry', () => matchingService.expireStale()));
+
+  // Remind both sides of upcoming counseling sessions
+  cron.schedule('*/5 * * * *', runJob('appointment-reminders', () => appointmentService.sendDueReminders()));
+
+  // Retire anonymous handles that are no longer used
+  cron.schedule('*/5 * * * *', runJob('handle-retirement', async () => {
+    const retired = await anonymousIdentityService.retireExpired();
+    if (retired > 0) {
+      logger.info(`Retired ${retired} anonymous handle(s)`);
+    }
+  }));
+
+  logger.info('✅ Background jobs scheduled');
+};
\ No newline at end of file
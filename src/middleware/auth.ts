@@ -1,8 +1,71 @@
 import { Response, NextFunction } from 'express';
-import { AuthenticatedRequest, UserRole } from '../types';
+import { AuthenticatedRequest, Permission } from '../types';
 import { authService } from '../services/authService';
-import { User } from '../models/User';
+import { sessionService } from '../services/sessionService';
+import { apiKeyService } from '../services/apiKeyService';
+import { principalCache, Principal } from '../services/principalCache';
+import { lastSeenTracker } from '../services/lastSeenTracker';
+import { AuditLog } from '../models/AuditLog';
 import { logger } from '../utils/logger';
+import { config } from '../config/env';
+import { resolveScopePermissions } from '../config/permissions';
+
+/**
+ * Whether a cached principal is currently banned
+ */
+const isBanned = (principal: Principal) =>
+  principal.bannedUntil !== undefined && Date.now() < principal.bannedUntil;
+
+/**
+ * Request user from a principal and the token's session
+ */
+const toRequestUser = (principal: Principal, sessionId?: string): AuthenticatedRequest['user'] => ({
+  id: principal.id,
+  role: principal.role,
+  email: principal.email,
+  displayName: principal.displayName,
+  emailVerified: principal.emailVerified,
+  twoFactorEnabled: principal.twoFactorEnabled,
+  sessionId,
+  permissions: principal.permissions,
+  ageBand: principal.ageBand,
+  guardianConsentRequired: principal.guardianConsentRequired,
+});
+
+// Requests that cannot change anything
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Audit a request made under impersonation and refuse anything that could
+ * change data. Returns false when the request was refused.
+ */
+const checkImpersonation = async (req: AuthenticatedRequest, res: Response): Promise<boolean> => {
+  const allowed = SAFE_METHODS.has(req.method) || res.locals.allowWhileImpersonating === true;
+
+  await AuditLog.create({
+    action: 'impersonation_request',
+    actorUserId: req.user!.impersonatedBy,
+    target: `user:${req.user!.id}`,
+    timestamp: new Date(),
+    meta: {
+      method: req.method,
+      path: req.originalUrl,
+      sessionId: req.user!.sessionId,
+      blocked: !allowed,
+    },
+  });
+
+  if (!allowed) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'IMPERSONATION_READ_ONLY',
+        message: 'This action is not allowed while impersonating a user',
+      },
+    });
+  }
+  return allowed;
+};
 
 /**
  * Middleware to authenticate JWT token
@@ -30,10 +93,21 @@ export const authenticate = async (
     // Verify token
     const payload = authService.verifyAccessToken(token);
 
-    // Fetch user from database
-    const user = await User.findById(payload.userId);
+    // Refuse tokens whose session has been logged out or revoked
+    if (payload.sessionId && !(await sessionService.isSessionActive(payload.sessionId, payload.userId))) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'SESSION_REVOKED',
+          message: 'Session has been revoked or expired',
+        },
+      });
+    }
+
+    // Cached user (invalidated on ban, access change and deletion)
+    const principal = await principalCache.get(payload.userId);
 
-    if (!user) {
+    if (!principal) {
       return res.status(401).json({
         success: false,
         error: {
@@ -44,30 +118,33 @@ export const authenticate = async (
     }
 
     // Check if user is banned
-    if (user.isBanned()) {
+    if (isBanned(principal)) {
       return res.status(403).json({
         success: false,
         error: {
           code: 'USER_BANNED',
           message: 'User is banned',
           details: {
-            bannedUntil: user.bannedUntil,
+            bannedUntil: new Date(principal.bannedUntil!),
           },
         },
       });
     }
 
     // Attach user to request
-    req.user = {
-      id: String(user._id),
-      role: user.role,
-      email: user.email,
-      displayName: user.displayName,
-    };
+    req.user = toRequestUser(principal, payload.sessionId);
+
+    if (payload.impersonatedBy) {
+      req.user!.impersonatedBy = payload.impersonatedBy;
+      if (!(await checkImpersonation(req, res))) {
+        return;
+      }
+      // An admin looking around doesn't count as the user being active
+      return next();
+    }
 
-    // Update last seen
-    user.lastSeenAt = new Date();
-    await user.save();
+    // Update last seen (written in batches)
+    lastSeenTracker.touch(principal.id);
 
     return next();
   } catch (error: any) {
@@ -84,9 +161,11 @@ export const authenticate = async (
 };
 
 /**
- * Middleware to require specific role
+ * Middleware to require named permissions (all of them).
+ * Every permission is privileged, so the staff 2FA policy applies to any
+ * account using one - including users with per-user grants.
  */
-export const requireRole = (...roles: UserRole[]) => {
+export const requirePermission = (...permissions: Permission[]) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({
@@ -98,30 +177,157 @@ export const requireRole = (...roles: UserRole[]) => {
       });
     }
 
-    if (!roles.includes(req.user.role)) {
+    const missing = permissions.filter((permission) => !req.user!.permissions.includes(permission));
+    if (missing.length > 0) {
       return res.status(403).json({
         success: false,
         error: {
           code: 'FORBIDDEN',
           message: 'Insufficient permissions',
           details: {
-            required: roles,
-            current: req.user.role,
+            required: permissions,
+            missing,
           },
         },
       });
     }
 
+    if (config.twoFactor.requiredForStaff && !req.user.twoFactorEnabled) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'TWO_FACTOR_REQUIRED',
+          message: 'Two-factor authentication must be enabled for this account',
+        },
+      });
+    }
+
     return next();
   };
 };
 
+/**
+ * Middleware accepting either a service API key whose scopes grant the
+ * permission, or a user access token with that permission, in place of
+ * `authenticate` + `requirePermission`.
+ * Keys are read from `X-API-Key` or from a bearer value that is not a JWT.
+ */
+export const authenticateApiKey = (permission: Permission) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const headerKey = req.headers['x-api-key'];
+    const authHeader = req.headers.authorization;
+    const bearer = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+    const isJwt = !!bearer && bearer.split('.').length === 3;
+    const presented = typeof headerKey === 'string' ? headerKey : bearer && !isJwt ? bearer : undefined;
+
+    if (!presented) {
+      // Fall back to user authentication
+      return authenticate(req, res, () => requirePermission(permission)(req, res, next));
+    }
+
+    try {
+      const apiKey = await apiKeyService.verify(presented, req.ip);
+
+      if (!apiKey) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'INVALID_API_KEY',
+            message: 'Invalid, expired or revoked API key',
+          },
+        });
+      }
+
+      if (!resolveScopePermissions(apiKey.scopes).includes(permission)) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'INSUFFICIENT_SCOPE',
+            message: 'API key is missing the required scope',
+            details: {
+              required: permission,
+            },
+          },
+        });
+      }
+
+      req.apiKey = apiKey;
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+};
+
+/**
+ * Middleware to require a verified email (only enforced when
+ * REQUIRE_EMAIL_VERIFICATION is enabled). Anonymous accounts have no email
+ * and must upgrade first.
+ */
+export const requireVerifiedEmail = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!config.emailVerification.required) {
+    return next();
+  }
+
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+      },
+    });
+  }
+
+  if (!req.user.email) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'EMAIL_REQUIRED',
+        message: 'Add an email address to your account first',
+      },
+    });
+  }
+
+  if (!req.user.emailVerified) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'EMAIL_NOT_VERIFIED',
+        message: 'Please verify your email address first',
+      },
+    });
+  }
+
+  return next();
+};
+
+/**
+ * requireVerifiedEmail for routes open to guests: only signed-in users with an
+ * email address must have verified it (anonymous accounts have none)
+ */
+export const requireVerifiedEmailIfPresent = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user?.email) {
+    return next();
+  }
+
+  return requireVerifiedEmail(req, res, next);
+};
+
 /**
  * Optional authentication (doesn't fail if no token)
  */
 export const optionalAuth = async (
   req: AuthenticatedRequest,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ) => {
   try {
@@ -130,20 +336,69 @@ export const optionalAuth = async (
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
       const payload = authService.verifyAccessToken(token);
-      
-      const user = await User.findById(payload.userId);
-      if (user && !user.isBanned()) {
-        req.user = {
-          id: String(user._id),
-          role: user.role,
-          email: user.email,
-          displayName: user.displayName,
-        };
+      const sessionActive = !payload.sessionId ||
+        await sessionService.isSessionActive(payload.sessionId, payload.userId);
+
+      const principal = sessionActive ? await principalCache.get(payload.userId) : null;
+      if (principal && !isBanned(principal)) {
+        req.user = toRequestUser(principal, payload.sessionId);
+
+        if (payload.impersonatedBy) {
+          req.user!.impersonatedBy = payload.impersonatedBy;
+          if (!(await checkImpersonation(req, res))) {
+            return;
+          }
+        }
       }
     }
   } catch (error) {
     // Ignore errors for optional auth
     logger.debug('Optional auth failed:', error);
+    req.user = undefined;
+  }
+  return next();
+};
+
+/**
+ * Let a write route run under an impersonation token (place before authenticate)
+ */
+export const allowWhileImpersonating = (_req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  res.locals.allowWhileImpersonating = true;
+  return next();
+};
+
+/**
+ * Refuse a route under an impersonation token even for reads (place after authenticate)
+ */
+export const denyWhileImpersonating = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (req.user?.impersonatedBy) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'IMPERSONATION_READ_ONLY',
+        message: 'This action is not allowed while impersonating a user',
+      },
+    });
+  }
+  return next();
+};
+
+/**
+ * Middleware to block chat for minors until a parent/guardian has consented
+ */
+export const requireGuardianConsent = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.user?.guardianConsentRequired) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'GUARDIAN_CONSENT_REQUIRED',
+        message: 'A parent or guardian needs to approve this account first',
+      },
+    });
   }
   return next();
 };
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodError, ZodSchema } from 'zod';
 import { logger } from '../utils/logger';
+import { SLOT_STEP_MINUTES } from '../models/AvailabilitySlot';
+import { AgeBand, ApiKeyScope, MatchPartnerType, Permission, UserRole } from '../types';
 
 /**
  * Validation middleware factory
@@ -46,14 +48,61 @@ export const validate = (schema: {
   };
 };
 
+// MongoDB ObjectId string
+const objectId = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+
+// New passwords: strength rules live in services/passwordPolicy
+const newPassword = z.string().min(1, 'Password is required').max(128, 'Password must be at most 128 characters');
+
+// Calendar date (YYYY-MM-DD) in the past, as a UTC midnight Date
+const pastDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    // Rejects rolled-over dates such as 2000-02-30
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value) && date < new Date();
+  }, 'Date must be a valid date in the past')
+  .transform((value) => new Date(`${value}T00:00:00.000Z`));
+
+// Display name of an anonymous identity
+const anonymousHandle = z.string().trim().min(2, 'Handle must be at least 2 characters').max(50);
+
+// IANA timezone name, e.g. Europe/Berlin
+const timezone = z.string().min(1).max(64).refine((value) => {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid timezone');
+
+// ISO 8601 timestamp with an explicit offset, as a Date
+const instant = z.string().datetime({ offset: true }).transform((value) => new Date(value));
+
 // Common validation schemas
 export const schemas = {
   // Auth schemas
   register: {
     body: z.object({
       email: z.string().email('Invalid email address'),
-      password: z.string().min(8, 'Password must be at least 8 characters'),
+      password: newPassword,
       displayName: z.string().min(2, 'Display name must be at least 2 characters').max(100),
+      deviceName: z.string().max(100).optional(),
+      dateOfBirth: pastDate.optional(),
+      ageBand: z.nativeEnum(AgeBand).optional(),
+      guardianEmail: z.string().email('Invalid guardian email address').toLowerCase().optional(),
+    }).refine((data) => data.dateOfBirth || data.ageBand, {
+      message: 'Date of birth or age band is required',
+      path: ['dateOfBirth'],
+    }),
+  },
+
+  guardianConsent: {
+    body: z.object({
+      token: z.string().min(1, 'Consent token is required'),
+      decision: z.enum(['grant', 'deny']),
     }),
   },
 
@@ -61,19 +110,148 @@ export const schemas = {
     body: z.object({
       email: z.string().email('Invalid email address'),
       password: z.string().min(1, 'Password is required'),
+      deviceName: z.string().max(100).optional(),
     }),
   },
 
   refresh: {
     body: z.object({
       refreshToken: z.string().min(1, 'Refresh token is required'),
+      deviceId: z.string().max(200).optional(),
+    }),
+  },
+
+  forgotPassword: {
+    body: z.object({
+      email: z.string().email('Invalid email address').toLowerCase(),
+    }),
+  },
+
+  resetPassword: {
+    body: z.object({
+      token: z.string().min(1, 'Reset token is required'),
+      password: newPassword,
+    }),
+  },
+
+  verifyEmail: {
+    body: z.object({
+      token: z.string().min(1, 'Verification token is required'),
+    }),
+  },
+
+  anonymous: {
+    body: z.object({
+      deviceId: z.string().min(8, 'Device ID must be at least 8 characters').max(200),
+      displayName: z.string().min(2, 'Display name must be at least 2 characters').max(100).optional(),
+      deviceName: z.string().max(100).optional(),
+      dateOfBirth: pastDate.optional(),
+      ageBand: z.nativeEnum(AgeBand).optional(),
+      guardianEmail: z.string().email('Invalid guardian email address').toLowerCase().optional(),
+    }).refine((data) => data.dateOfBirth || data.ageBand, {
+      message: 'Date of birth or age band is required',
+      path: ['dateOfBirth'],
+    }),
+  },
+
+  recoverAnonymous: {
+    body: z.object({
+      recoveryCode: z.string().min(1, 'Recovery code is required').max(100),
+      deviceId: z.string().min(8, 'Device ID must be at least 8 characters').max(200),
+      deviceName: z.string().max(100).optional(),
+    }),
+  },
+
+  upgradeAccount: {
+    body: z.object({
+      email: z.string().email('Invalid email address').toLowerCase(),
+      password: newPassword,
+      displayName: z.string().min(2, 'Display name must be at least 2 characters').max(100).optional(),
+    }),
+  },
+
+  oidcLogin: {
+    params: z.object({
+      provider: z.string().min(1).max(50),
+    }),
+    body: z.object({
+      idToken: z.string().min(1, 'ID token is required'),
+      nonce: z.string().max(200).optional(),
+      displayName: z.string().min(2, 'Display name must be at least 2 characters').max(100).optional(),
+      deviceName: z.string().max(100).optional(),
+      // Required when the sign-in creates an account
+      dateOfBirth: pastDate.optional(),
+      ageBand: z.nativeEnum(AgeBand).optional(),
+      guardianEmail: z.string().email('Invalid guardian email address').toLowerCase().optional(),
+    }),
+  },
+
+  oidcLink: {
+    params: z.object({
+      provider: z.string().min(1).max(50),
+    }),
+    body: z.object({
+      idToken: z.string().min(1, 'ID token is required'),
+      nonce: z.string().max(200).optional(),
+    }),
+  },
+
+  twoFactorVerify: {
+    body: z.object({
+      challengeToken: z.string().min(1, 'Challenge token is required'),
+      code: z.string().max(10).optional(),
+      backupCode: z.string().max(20).optional(),
+      deviceName: z.string().max(100).optional(),
+    }).refine((data) => data.code || data.backupCode, {
+      message: 'Either code or backupCode is required',
+      path: ['code'],
+    }),
+  },
+
+  twoFactorCode: {
+    body: z.object({
+      code: z.string().min(6, 'Verification code is required').max(10),
+    }),
+  },
+
+  twoFactorDisable: {
+    body: z.object({
+      password: z.string().optional(),
+      code: z.string().max(10).optional(),
+      backupCode: z.string().max(20).optional(),
+    }).refine((data) => data.code || data.backupCode, {
+      message: 'Either code or backupCode is required',
+      path: ['code'],
+    }),
+  },
+
+  logout: {
+    body: z.object({
+      allDevices: z.boolean().optional(),
+    }),
+  },
+
+  revokeSession: {
+    params: z.object({
+      id: objectId,
     }),
   },
 
   // Stream schemas
   streamToken: {
     body: z.object({
-      anonymousHandle: z.string().optional(),
+      anonymousHandle: anonymousHandle.optional(),
+      // Token for the handle already bound to this channel
+      streamChannelId: z.string().min(1).optional(),
+    }).refine((data) => !data.streamChannelId || data.anonymousHandle, {
+      message: 'streamChannelId requires anonymousHandle',
+      path: ['streamChannelId'],
+    }),
+  },
+
+  retireHandle: {
+    params: z.object({
+      ephemeralId: z.string().regex(/^anon_[0-9a-fA-F]{24}_[\w-]{8}$/, 'Invalid handle ID'),
     }),
   },
 
@@ -93,7 +271,150 @@ export const schemas = {
   joinChannel: {
     body: z.object({
       streamChannelId: z.string().min(1, 'Channel ID is required'),
-      asAnonymousHandle: z.string().optional(),
+      asAnonymousHandle: anonymousHandle.optional(),
+      // Required for private channels the caller isn't in yet
+      inviteToken: z.string().max(100).optional(),
+    }),
+  },
+
+  createInvite: {
+    params: z.object({
+      id: z.string().min(1, 'Channel ID is required'),
+    }),
+    body: z.object({
+      maxUses: z.number().int().positive().max(100).default(1),
+      // Up to a week
+      expiresInHours: z.number().int().positive().max(7 * 24).default(24),
+    }),
+  },
+
+  acceptInvite: {
+    params: z.object({
+      token: z.string().min(1).max(100),
+    }),
+    body: z.object({
+      asAnonymousHandle: anonymousHandle.optional(),
+    }),
+  },
+
+  listChannels: {
+    query: z.object({
+      // Comma-separated; rooms must have all of them
+      tags: z
+        .string()
+        .transform((value) => value.split(',').map((tag) => tag.trim()).filter(Boolean))
+        .pipe(z.array(z.string().max(50)).max(10))
+        .optional(),
+      q: z.string().trim().min(1).max(100).optional(),
+      sort: z.enum(['recent', 'members']).default('recent'),
+      limit: z.string().transform(Number).pipe(z.number().int().positive().max(50)).default('20'),
+      cursor: z.string().max(200).optional(),
+    }),
+  },
+
+  leaveChannel: {
+    body: z.object({
+      streamChannelId: z.string().min(1, 'Channel ID is required'),
+    }),
+  },
+
+  removeMember: {
+    body: z.object({
+      streamChannelId: z.string().min(1, 'Channel ID is required'),
+      memberId: z.string().min(1, 'Member ID is required'),
+      reason: z.string().max(500).optional(),
+    }),
+  },
+
+  // Promote, demote, transfer ownership, unmute
+  channelMember: {
+    body: z.object({
+      streamChannelId: z.string().min(1, 'Channel ID is required'),
+      memberId: z.string().min(1, 'Member ID is required'),
+    }),
+  },
+
+  muteMember: {
+    body: z.object({
+      streamChannelId: z.string().min(1, 'Channel ID is required'),
+      memberId: z.string().min(1, 'Member ID is required'),
+      // Up to a week
+      durationMinutes: z.number().int().positive().max(7 * 24 * 60).default(60),
+      reason: z.string().max(500).optional(),
+    }),
+  },
+
+  deleteChannelMessage: {
+    body: z.object({
+      streamChannelId: z.string().min(1, 'Channel ID is required'),
+      messageId: z.string().min(1, 'Message ID is required'),
+    }),
+  },
+
+  // Matching schemas
+  requestMatch: {
+    body: z.object({
+      tags: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(5).default([]),
+      // ISO 639-1 code
+      language: z.string().trim().toLowerCase().regex(/^[a-z]{2}$/, 'Language must be a 2-letter code').default('en'),
+      partnerType: z.nativeEnum(MatchPartnerType).default(MatchPartnerType.ANY),
+      anonymousHandle: anonymousHandle.optional(),
+    }),
+  },
+
+  // Appointment schemas
+  createSlots: {
+    body: z.object({
+      timezone,
+      slots: z.array(z.object({
+        startsAt: instant
+          .refine((date) => date > new Date(), 'Slot must start in the future')
+          .refine(
+            (date) => date.getTime() % (SLOT_STEP_MINUTES * 60 * 1000) === 0,
+            `Slot must start on a multiple of ${SLOT_STEP_MINUTES} minutes`
+          ),
+        durationMinutes: z.number().int().min(15).max(240).multipleOf(SLOT_STEP_MINUTES).default(50),
+      })).min(1).max(50),
+    }),
+  },
+
+  listSlots: {
+    query: z.object({
+      counselorId: objectId.optional(),
+      from: instant.optional(),
+      to: instant.optional(),
+    }),
+  },
+
+  slotId: {
+    params: z.object({
+      id: objectId,
+    }),
+  },
+
+  bookAppointment: {
+    body: z.object({
+      slotId: objectId,
+      // Reminders are written in this timezone
+      timezone,
+    }),
+  },
+
+  rescheduleAppointment: {
+    params: z.object({
+      id: objectId,
+    }),
+    body: z.object({
+      slotId: objectId,
+    }),
+  },
+
+  cancelAppointment: {
+    params: z.object({
+      id: objectId,
+    }),
+    body: z.object({
+      reason: z.string().trim().max(500).optional(),
     }),
   },
 
@@ -124,6 +445,79 @@ export const schemas = {
     }),
   },
 
+  // Admin schemas
+  createApiKey: {
+    body: z.object({
+      name: z.string().min(2, 'Name must be at least 2 characters').max(100),
+      scopes: z.array(z.nativeEnum(ApiKeyScope)).min(1, 'At least one scope is required'),
+      expiresInDays: z.number().int().positive().max(3650).optional(),
+    }),
+  },
+
+  apiKeyId: {
+    params: z.object({
+      id: objectId,
+    }),
+  },
+
+  updateUserAccess: {
+    params: z.object({
+      id: objectId,
+    }),
+    body: z.object({
+      role: z.nativeEnum(UserRole).optional(),
+      isCounselor: z.boolean().optional(),
+      isVolunteer: z.boolean().optional(),
+      permissions: z.array(z.nativeEnum(Permission)).optional(),
+    }).refine((data) => Object.keys(data).length > 0, {
+      message: 'Nothing to update',
+    }),
+  },
+
+  updateProfile: {
+    body: z.object({
+      displayName: z.string().trim().min(2, 'Display name must be at least 2 characters').max(100).optional(),
+      // null clears the avatar
+      avatarUrl: z.string().url('Invalid avatar URL').max(500)
+        .refine((url) => url.startsWith('https://'), 'Avatar URL must use https')
+        .nullable()
+        .optional(),
+      tags: z.array(z.string().trim().toLowerCase().min(1).max(30)).max(10, 'At most 10 tags').optional(),
+    }).refine((data) => Object.keys(data).length > 0, {
+      message: 'Nothing to update',
+    }),
+  },
+
+  changePassword: {
+    body: z.object({
+      currentPassword: z.string().min(1, 'Current password is required').max(128),
+      newPassword,
+    }),
+  },
+
+  startImpersonation: {
+    params: z.object({
+      id: objectId,
+    }),
+    body: z.object({
+      // Recorded in the audit log
+      reason: z.string().trim().min(10, 'Please describe why you need to impersonate this user').max(500),
+    }),
+  },
+
+  deleteAccount: {
+    body: z.object({
+      // Required when the account has a password
+      password: z.string().max(128).optional(),
+    }),
+  },
+
+  dataExportId: {
+    params: z.object({
+      id: objectId,
+    }),
+  },
+
   // Pagination schema
   pagination: {
     query: z.object({
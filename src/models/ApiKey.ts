@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { ApiKeyScope } from '../types';
+
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdBy?: Types.ObjectId;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  revokedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive(): boolean;
+}
+
+const apiKeySchema = new Schema<IApiKey>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  // Public part of the key, used for lookup
+  prefix: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  keyHash: {
+    type: String,
+    required: true,
+  },
+  scopes: {
+    type: [String],
+    enum: Object.values(ApiKeyScope),
+    default: [],
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  expiresAt: { type: Date },
+  lastUsedAt: { type: Date },
+  lastUsedIp: { type: String },
+  revokedAt: { type: Date },
+  revokedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: (_doc, ret) => {
+      if (ret) {
+        delete (ret as any).keyHash;
+      }
+      return ret;
+    },
+  },
+});
+
+// Indexes
+apiKeySchema.index({ revokedAt: 1, createdAt: -1 });
+
+// Methods
+apiKeySchema.methods.isActive = function(): boolean {
+  if (this.revokedAt) return false;
+  return !this.expiresAt || this.expiresAt > new Date();
+};
+
+export const ApiKey: Model<IApiKey> = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
\ No newline at end of file
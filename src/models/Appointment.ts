@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { AppointmentStatus } from '../types';
+
+export interface IAppointment extends Document {
+  userId: Types.ObjectId;
+  counselorId: Types.ObjectId;
+  slotId: Types.ObjectId;
+  startsAt: Date;
+  endsAt: Date;
+  // IANA timezones reminders are written in
+  timezone: string;
+  counselorTimezone: string;
+  status: AppointmentStatus;
+  streamChannelId: string;
+  reminderSentAt?: Date;
+  cancelledAt?: Date;
+  cancelledBy?: Types.ObjectId;
+  cancelReason?: string;
+  // Time buckets the session covers while booked (see appointmentService)
+  timeBuckets?: number[];
+  createdAt: Date;
+}
+
+const appointmentSchema = new Schema<IAppointment>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  counselorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  slotId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AvailabilitySlot',
+    required: true,
+  },
+  startsAt: {
+    type: Date,
+    required: true,
+  },
+  endsAt: {
+    type: Date,
+    required: true,
+  },
+  timezone: {
+    type: String,
+    required: true,
+  },
+  counselorTimezone: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: Object.values(AppointmentStatus),
+    default: AppointmentStatus.BOOKED,
+  },
+  streamChannelId: {
+    type: String,
+    required: true,
+  },
+  reminderSentAt: { type: Date },
+  cancelledAt: { type: Date },
+  cancelledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  cancelReason: {
+    type: String,
+    maxlength: 500,
+  },
+  timeBuckets: {
+    type: [Number],
+    default: undefined,
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+appointmentSchema.index({ userId: 1, startsAt: 1 });
+appointmentSchema.index({ counselorId: 1, startsAt: 1 });
+appointmentSchema.index({ status: 1, startsAt: 1 });
+// A client's booked sessions never overlap
+appointmentSchema.index(
+  { userId: 1, timeBuckets: 1 },
+  { unique: true, partialFilterExpression: { timeBuckets: { $exists: true } } }
+);
+
+export const Appointment: Model<IAppointment> = mongoose.model<IAppointment>('Appointment', appointmentSchema);
\ No newline at end of file
@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// Slot times and lengths are multiples of this, the size of a time bucket
+export const SLOT_STEP_MINUTES = 5;
+
+export interface IAvailabilitySlot extends Document {
+  counselorId: Types.ObjectId;
+  startsAt: Date;
+  endsAt: Date;
+  // IANA timezone the counselor published the slot in
+  timezone: string;
+  // Set while an appointment holds the slot
+  appointmentId?: Types.ObjectId;
+  withdrawnAt?: Date;
+  // Time buckets the slot covers (see appointmentService); unset once withdrawn
+  timeBuckets?: number[];
+  createdAt: Date;
+}
+
+const availabilitySlotSchema = new Schema<IAvailabilitySlot>({
+  counselorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  startsAt: {
+    type: Date,
+    required: true,
+  },
+  endsAt: {
+    type: Date,
+    required: true,
+  },
+  timezone: {
+    type: String,
+    required: true,
+  },
+  appointmentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+  },
+  withdrawnAt: { type: Date },
+  timeBuckets: {
+    type: [Number],
+    default: undefined,
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+availabilitySlotSchema.index({ counselorId: 1, startsAt: 1 });
+availabilitySlotSchema.index({ startsAt: 1 });
+// A counselor's slots never overlap
+availabilitySlotSchema.index(
+  { counselorId: 1, timeBuckets: 1 },
+  { unique: true, partialFilterExpression: { timeBuckets: { $exists: true } } }
+);
+
+export const AvailabilitySlot: Model<IAvailabilitySlot> = mongoose.model<IAvailabilitySlot>('AvailabilitySlot', availabilitySlotSchema);
\ No newline at end of file
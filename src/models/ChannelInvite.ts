@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export interface IChannelInvite extends Document {
+  streamChannelId: string;
+  tokenHash: string;
+  createdBy: Types.ObjectId;
+  maxUses: number;
+  uses: number;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const channelInviteSchema = new Schema<IChannelInvite>({
+  streamChannelId: {
+    type: String,
+    required: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  maxUses: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  uses: {
+    type: Number,
+    default: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+channelInviteSchema.index({ streamChannelId: 1 });
+channelInviteSchema.index({ createdBy: 1 });
+channelInviteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+
+export const ChannelInvite: Model<IChannelInvite> = mongoose.model<IChannelInvite>('ChannelInvite', channelInviteSchema);
\ No newline at end of file
@@ -1,5 +1,10 @@
 import mongoose, { Schema, Document, Model, Types } from 'mongoose';
 
+// Suspending a room adds this to its flaggedCount
+export const SUSPENDED_FLAG_COUNT = 100;
+
+export type ChatRoomRole = 'member' | 'moderator' | 'owner';
+
 export interface IChatRoom extends Document {
   streamChannelId: string;
   title: string;
@@ -8,7 +13,7 @@ export interface IChatRoom extends Document {
   tags: string[];
   createdBy: Types.ObjectId;
   members: Map<string, {
-    role: 'member' | 'moderator' | 'owner';
+    role: ChatRoomRole;
     joinedAt: Date;
   }>;
   lastMessageAt?: Date;
@@ -74,5 +79,6 @@ const chatRoomSchema = new Schema<IChatRoom>({
 chatRoomSchema.index({ streamChannelId: 1 });
 chatRoomSchema.index({ createdBy: 1 });
 chatRoomSchema.index({ tags: 1 });
+chatRoomSchema.index({ isPrivate: 1, lastMessageAt: -1 });
 
 export const ChatRoom: Model<IChatRoom> = mongoose.model<IChatRoom>('ChatRoom', chatRoomSchema);
\ No newline at end of file
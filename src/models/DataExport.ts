@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { DataExportStatus } from '../types';
+
+export interface IDataExport extends Document {
+  userId: Types.ObjectId;
+  status: DataExportStatus;
+  archiveFileId?: Types.ObjectId;
+  sizeBytes?: number;
+  attempts: number;
+  error?: string;
+  completedAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dataExportSchema = new Schema<IDataExport>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: Object.values(DataExportStatus),
+    default: DataExportStatus.PENDING,
+  },
+  // GridFS file holding the serialized JSON archive
+  archiveFileId: { type: Schema.Types.ObjectId },
+  sizeBytes: { type: Number },
+  // Builds started; exports that keep failing are given up on
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  error: { type: String },
+  completedAt: { type: Date },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: (_doc, ret) => {
+      if (ret) {
+        delete (ret as any).archiveFileId;
+        if ('__v' in ret) delete (ret as any)['__v'];
+      }
+      return ret;
+    },
+  },
+});
+
+// Indexes
+dataExportSchema.index({ userId: 1, createdAt: -1 });
+dataExportSchema.index({ status: 1, updatedAt: 1 });
+dataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+
+export const DataExport: Model<IDataExport> = mongoose.model<IDataExport>('DataExport', dataExportSchema);
\ No newline at end of file
@@ -4,7 +4,12 @@ export interface IEphemeralMapping extends Document {
   ephemeralId: string;
   realUserId: Types.ObjectId;
   channelId: string;
+  handle: string;
+  // Lowercased handle, set while the identity is bound to a channel and active
+  handleKey?: string;
+  // Renewed while the identity is in use
   expiresAt: Date;
+  retiredAt?: Date;
   createdAt: Date;
 }
 
@@ -23,10 +28,16 @@ const ephemeralMappingSchema = new Schema<IEphemeralMapping>({
     type: String,
     required: true,
   },
+  handle: {
+    type: String,
+    required: true,
+  },
+  handleKey: { type: String },
   expiresAt: {
     type: Date,
     required: true,
   },
+  retiredAt: { type: Date },
 }, {
   timestamps: true,
 });
@@ -34,6 +45,13 @@ const ephemeralMappingSchema = new Schema<IEphemeralMapping>({
 // Indexes
 ephemeralMappingSchema.index({ ephemeralId: 1 });
 ephemeralMappingSchema.index({ realUserId: 1, channelId: 1 });
-ephemeralMappingSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+// Handles are unique within a channel
+ephemeralMappingSchema.index(
+  { channelId: 1, handleKey: 1 },
+  { unique: true, partialFilterExpression: { handleKey: { $exists: true } } }
+);
+ephemeralMappingSchema.index({ retiredAt: 1, expiresAt: 1 });
+// Retired mappings are kept a month so reports can still be traced to the user
+ephemeralMappingSchema.index({ retiredAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 }); // TTL index
 
 export const EphemeralMapping: Model<IEphemeralMapping> = mongoose.model<IEphemeralMapping>('EphemeralMapping', ephemeralMappingSchema);
\ No newline at end of file
@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { MatchPartnerType, MatchStatus } from '../types';
+
+export interface IMatchRequest extends Document {
+  userId: Types.ObjectId;
+  tags: string[];
+  language: string;
+  partnerType: MatchPartnerType;
+  anonymousHandle?: string;
+  // Snapshot of the requester, used to check compatibility in queries
+  isMinor: boolean;
+  isVolunteer: boolean;
+  isCounselor: boolean;
+  status: MatchStatus;
+  matchedWith?: Types.ObjectId;
+  streamChannelId?: string;
+  // Identity (real or anonymous) the requester has in the channel
+  memberId?: string;
+  matchedAt?: Date;
+  cancelledAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const matchRequestSchema = new Schema<IMatchRequest>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  tags: [{
+    type: String,
+    trim: true,
+  }],
+  language: {
+    type: String,
+    required: true,
+  },
+  partnerType: {
+    type: String,
+    enum: Object.values(MatchPartnerType),
+    default: MatchPartnerType.ANY,
+  },
+  anonymousHandle: { type: String },
+  isMinor: {
+    type: Boolean,
+    default: false,
+  },
+  isVolunteer: {
+    type: Boolean,
+    default: false,
+  },
+  isCounselor: {
+    type: Boolean,
+    default: false,
+  },
+  status: {
+    type: String,
+    enum: Object.values(MatchStatus),
+    default: MatchStatus.WAITING,
+  },
+  matchedWith: {
+    type: Schema.Types.ObjectId,
+    ref: 'MatchRequest',
+  },
+  streamChannelId: { type: String },
+  memberId: { type: String },
+  matchedAt: { type: Date },
+  cancelledAt: { type: Date },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+matchRequestSchema.index({ status: 1, language: 1, createdAt: 1 });
+matchRequestSchema.index({ userId: 1, createdAt: -1 });
+// One waiting request per user
+matchRequestSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { status: MatchStatus.WAITING } }
+);
+
+export const MatchRequest: Model<IMatchRequest> = mongoose.model<IMatchRequest>('MatchRequest', matchRequestSchema);
\ No newline at end of file
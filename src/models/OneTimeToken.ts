@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { TokenPurpose } from '../types';
+
+export interface IOneTimeToken extends Document {
+  userId: Types.ObjectId;
+  purpose: TokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+const oneTimeTokenSchema = new Schema<IOneTimeToken>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  purpose: {
+    type: String,
+    enum: Object.values(TokenPurpose),
+    required: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  usedAt: { type: Date },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+oneTimeTokenSchema.index({ userId: 1, purpose: 1 });
+oneTimeTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+
+export const OneTimeToken: Model<IOneTimeToken> = mongoose.model<IOneTimeToken>('OneTimeToken', oneTimeTokenSchema);
\ No newline at end of file
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export interface ISession extends Document {
+  userId: Types.ObjectId;
+  currentTokenHash: string;
+  deviceName?: string;
+  deviceIdHash?: string;
+  ip?: string;
+  userAgent?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  impersonatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Virtual methods
+  isActive(): boolean;
+}
+
+const sessionSchema = new Schema<ISession>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  // SHA-256 of the only refresh token in this family that may still be used
+  currentTokenHash: {
+    type: String,
+    required: true,
+  },
+  deviceName: {
+    type: String,
+    trim: true,
+    maxlength: 100,
+  },
+  // Device-bound sessions (anonymous accounts) only refresh with the same device id
+  deviceIdHash: { type: String },
+  ip: { type: String },
+  userAgent: {
+    type: String,
+    maxlength: 500,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  revokedAt: { type: Date },
+  revokedReason: { type: String },
+  // Admin acting as the user; these sessions have no usable refresh token
+  impersonatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
+
+// Instance methods
+sessionSchema.methods.isActive = function(): boolean {
+  return !this.revokedAt && new Date() < this.expiresAt;
+};
+
+export const Session: Model<ISession> = mongoose.model<ISession>('Session', sessionSchema);
\ No newline at end of file
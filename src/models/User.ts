@@ -1,16 +1,38 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import { UserRole, AnonymousHandle } from '../types';
+import {
+  UserRole,
+  Permission,
+  AnonymousHandle,
+  TwoFactorState,
+  LinkedIdentity,
+  AgeBand,
+  GuardianConsent,
+  GuardianConsentStatus,
+} from '../types';
 
 export interface IUser extends Document {
   email?: string;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
   passwordHash?: string;
+  isAnonymous: boolean;
+  recoveryCodeHash?: string;
+  twoFactor: TwoFactorState;
+  identities: LinkedIdentity[];
   displayName: string;
   avatarUrl?: string;
   role: UserRole;
   isCounselor: boolean;
+  isVolunteer: boolean;
+  permissions: Permission[];
   tags: string[];
+  dateOfBirth?: Date;
+  ageBand?: AgeBand;
+  guardianConsent: GuardianConsent;
   anonymousHandles: AnonymousHandle[];
   bannedUntil?: Date;
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date;
   createdAt: Date;
   lastSeenAt: Date;
   
@@ -23,6 +45,38 @@ const anonymousHandleSchema = new Schema<AnonymousHandle>({
   handle: { type: String, required: true },
   ephemeralId: { type: String, required: true },
   createdAt: { type: Date, default: Date.now },
+  retiredAt: { type: Date },
+}, { _id: false });
+
+const twoFactorSchema = new Schema<TwoFactorState>({
+  enabled: { type: Boolean, default: false },
+  secretEncrypted: { type: String },
+  pendingSecretEncrypted: { type: String },
+  backupCodeHashes: [{ type: String }],
+  lastUsedStep: { type: Number },
+  enabledAt: { type: Date },
+}, { _id: false });
+
+const linkedIdentitySchema = new Schema<LinkedIdentity>({
+  provider: { type: String, required: true },
+  subject: { type: String, required: true },
+  email: { type: String },
+  linkedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+const guardianConsentSchema = new Schema<GuardianConsent>({
+  status: {
+    type: String,
+    enum: Object.values(GuardianConsentStatus),
+    default: GuardianConsentStatus.NOT_REQUIRED,
+  },
+  guardianEmail: {
+    type: String,
+    lowercase: true,
+    trim: true,
+  },
+  requestedAt: { type: Date },
+  decidedAt: { type: Date },
 }, { _id: false });
 
 const userSchema = new Schema<IUser>({
@@ -33,7 +87,26 @@ const userSchema = new Schema<IUser>({
     lowercase: true,
     trim: true,
   },
+  emailVerified: {
+    type: Boolean,
+    default: false,
+  },
+  emailVerifiedAt: { type: Date },
   passwordHash: { type: String },
+  isAnonymous: {
+    type: Boolean,
+    default: false,
+  },
+  recoveryCodeHash: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  twoFactor: {
+    type: twoFactorSchema,
+    default: () => ({}),
+  },
+  identities: [linkedIdentitySchema],
   displayName: {
     type: String,
     required: true,
@@ -50,12 +123,35 @@ const userSchema = new Schema<IUser>({
     type: Boolean,
     default: false,
   },
+  // Trained peer supporter; can be requested in matching
+  isVolunteer: {
+    type: Boolean,
+    default: false,
+  },
+  // Extra permissions granted to this user on top of their role
+  permissions: [{
+    type: String,
+    enum: Object.values(Permission),
+  }],
   tags: [{
     type: String,
     trim: true,
   }],
+  // Age band is always set at registration; date of birth only when given
+  dateOfBirth: { type: Date },
+  ageBand: {
+    type: String,
+    enum: Object.values(AgeBand),
+  },
+  guardianConsent: {
+    type: guardianConsentSchema,
+    default: () => ({}),
+  },
   anonymousHandles: [anonymousHandleSchema],
   bannedUntil: { type: Date },
+  // Pending erasure (cancelled by clearing both fields)
+  deletionRequestedAt: { type: Date },
+  deletionScheduledFor: { type: Date },
   lastSeenAt: {
     type: Date,
     default: Date.now,
@@ -67,6 +163,8 @@ const userSchema = new Schema<IUser>({
     transform: (_doc, ret) => {
       if (ret) {
         delete ret.passwordHash;
+        delete ret.recoveryCodeHash;
+        if (ret.twoFactor) ret.twoFactor = { enabled: ret.twoFactor.enabled } as any;
         if ('__v' in ret) delete (ret as any)['__v'];
       }
       return ret;
@@ -78,6 +176,11 @@ const userSchema = new Schema<IUser>({
 userSchema.index({ email: 1 });
 userSchema.index({ role: 1 });
 userSchema.index({ bannedUntil: 1 });
+userSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+userSchema.index({ 'identities.provider': 1, 'identities.subject': 1 }, {
+  unique: true,
+  partialFilterExpression: { 'identities.subject': { $exists: true } },
+});
 
 // Instance methods
 userSchema.methods.isBanned = function(): boolean {
@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  allowWhileImpersonating,
+  authenticate,
+  authenticateApiKey,
+  requirePermission,
+} from '../middleware/auth';
+import { apiLimiter, strictLimiter } from '../middleware/rateLimiter';
+import { validate, schemas } from '../middleware/validation';
+import { Permission } from '../types';
+import * as adminController from '../controllers/adminController';
+
+const router = Router();
+
+/**
+ * @route   POST /api/admin/api-keys
+ * @desc    Create a scoped API key
+ * @access  Private (apikeys.manage)
+ */
+router.post(
+  '/api-keys',
+  authenticate,
+  requirePermission(Permission.API_KEYS_MANAGE),
+  strictLimiter,
+  validate(schemas.createApiKey),
+  asyncHandler(adminController.createApiKey)
+);
+
+/**
+ * @route   GET /api/admin/api-keys
+ * @desc    List API keys
+ * @access  Private (apikeys.manage)
+ */
+router.get(
+  '/api-keys',
+  authenticate,
+  requirePermission(Permission.API_KEYS_MANAGE),
+  apiLimiter,
+  asyncHandler(adminController.listApiKeys)
+);
+
+/**
+ * @route   DELETE /api/admin/api-keys/:id
+ * @desc    Revoke an API key
+ * @access  Private (apikeys.manage)
+ */
+router.delete(
+  '/api-keys/:id',
+  authenticate,
+  requirePermission(Permission.API_KEYS_MANAGE),
+  apiLimiter,
+  validate(schemas.apiKeyId),
+  asyncHandler(adminController.revokeApiKey)
+);
+
+/**
+ * @route   PATCH /api/admin/users/:id/access
+ * @desc    Change a user's role, counselor flag or permission grants
+ * @access  Private (users.manage)
+ */
+router.patch(
+  '/users/:id/access',
+  authenticate,
+  requirePermission(Permission.USERS_MANAGE),
+  strictLimiter,
+  validate(schemas.updateUserAccess),
+  asyncHandler(adminController.updateUserAccess)
+);
+
+/**
+ * @route   POST /api/admin/users/:id/impersonate
+ * @desc    Get a short-lived, read-only token acting as a user
+ * @access  Private (users.impersonate)
+ */
+router.post(
+  '/users/:id/impersonate',
+  authenticate,
+  requirePermission(Permission.USERS_IMPERSONATE),
+  strictLimiter,
+  validate(schemas.startImpersonation),
+  asyncHandler(adminController.startImpersonation)
+);
+
+/**
+ * @route   POST /api/admin/impersonation/end
+ * @desc    End the current impersonation session
+ * @access  Private (impersonation token)
+ */
+router.post(
+  '/impersonation/end',
+  allowWhileImpersonating,
+  authenticate,
+  apiLimiter,
+  asyncHandler(adminController.endImpersonation)
+);
+
+/**
+ * @route   GET /api/admin/metrics
+ * @desc    Platform metrics
+ * @access  Private (metrics.read, or API key with metrics:read)
+ */
+router.get(
+  '/metrics',
+  authenticateApiKey(Permission.METRICS_READ),
+  apiLimiter,
+  asyncHandler(adminController.getMetrics)
+);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, requireGuardianConsent, requirePermission } from '../middleware/auth';
+import { apiLimiter } from '../middleware/rateLimiter';
+import { validate, schemas } from '../middleware/validation';
+import { Permission } from '../types';
+import * as appointmentController from '../controllers/appointmentController';
+
+const router = Router();
+
+/**
+ * @route   POST /api/appointments/slots
+ * @desc    Publish availability slots
+ * @access  Private (appointments.host)
+ */
+router.post(
+  '/slots',
+  authenticate,
+  requirePermission(Permission.APPOINTMENTS_HOST),
+  apiLimiter,
+  validate(schemas.createSlots),
+  asyncHandler(appointmentController.createSlots)
+);
+
+/**
+ * @route   GET /api/appointments/slots
+ * @desc    List open slots, optionally for one counselor and time range
+ * @access  Private
+ */
+router.get(
+  '/slots',
+  authenticate,
+  apiLimiter,
+  validate(schemas.listSlots),
+  asyncHandler(appointmentController.listSlots)
+);
+
+/**
+ * @route   DELETE /api/appointments/slots/:id
+ * @desc    Withdraw an unbooked slot
+ * @access  Private (appointments.host)
+ */
+router.delete(
+  '/slots/:id',
+  authenticate,
+  requirePermission(Permission.APPOINTMENTS_HOST),
+  apiLimiter,
+  validate(schemas.slotId),
+  asyncHandler(appointmentController.withdrawSlot)
+);
+
+/**
+ * @route   POST /api/appointments
+ * @desc    Book a slot (opens a private channel with the counselor)
+ * @access  Private (guardian consent for under-16s)
+ */
+router.post(
+  '/',
+  authenticate,
+  requireGuardianConsent,
+  apiLimiter,
+  validate(schemas.bookAppointment),
+  asyncHandler(appointmentController.bookAppointment)
+);
+
+/**
+ * @route   GET /api/appointments
+ * @desc    List upcoming appointments, as client or counselor
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticate,
+  apiLimiter,
+  asyncHandler(appointmentController.listAppointments)
+);
+
+/**
+ * @route   POST /api/appointments/:id/reschedule
+ * @desc    Move an appointment to another slot of the same counselor
+ * @access  Private (client)
+ */
+router.post(
+  '/:id/reschedule',
+  authenticate,
+  apiLimiter,
+  validate(schemas.rescheduleAppointment),
+  asyncHandler(appointmentController.rescheduleAppointment)
+);
+
+/**
+ * @route   POST /api/appointments/:id/cancel
+ * @desc    Cancel an appointment
+ * @access  Private (client or counselor)
+ */
+router.post(
+  '/:id/cancel',
+  authenticate,
+  apiLimiter,
+  validate(schemas.cancelAppointment),
+  asyncHandler(appointmentController.cancelAppointment)
+);
+
+export default router;
\ No newline at end of file
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
-import { authLimiter } from '../middleware/rateLimiter';
+import { authLimiter, apiLimiter } from '../middleware/rateLimiter';
+import { authenticate } from '../middleware/auth';
 import { validate, schemas } from '../middleware/validation';
 import * as authController from '../controllers/authController';
+import * as twoFactorController from '../controllers/twoFactorController';
 
 const router = Router();
 
@@ -32,7 +34,7 @@ router.post(
 
 /**
  * @route   POST /api/auth/refresh
- * @desc    Refresh access token
+ * @desc    Rotate refresh token and issue a new access token
  * @access  Public
  */
 router.post(
@@ -42,4 +44,250 @@ router.post(
   asyncHandler(authController.refresh)
 );
 
+/**
+ * @route   POST /api/auth/2fa/verify
+ * @desc    Complete a login that requires a second factor
+ * @access  Public (challenge token from /login)
+ */
+router.post(
+  '/2fa/verify',
+  authLimiter,
+  validate(schemas.twoFactorVerify),
+  asyncHandler(authController.verifyTwoFactorLogin)
+);
+
+/**
+ * @route   GET /api/auth/oidc/providers
+ * @desc    List configured OpenID Connect providers
+ * @access  Public
+ */
+router.get(
+  '/oidc/providers',
+  apiLimiter,
+  asyncHandler(authController.getOidcProviders)
+);
+
+/**
+ * @route   POST /api/auth/oidc/:provider
+ * @desc    Sign in with a provider ID token (Google, Apple, ...)
+ * @access  Public
+ */
+router.post(
+  '/oidc/:provider',
+  authLimiter,
+  validate(schemas.oidcLogin),
+  asyncHandler(authController.oidcLogin)
+);
+
+/**
+ * @route   POST /api/auth/oidc/:provider/link
+ * @desc    Link a provider identity to the current account
+ * @access  Private
+ */
+router.post(
+  '/oidc/:provider/link',
+  authenticate,
+  authLimiter,
+  validate(schemas.oidcLink),
+  asyncHandler(authController.linkIdentity)
+);
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Start TOTP enrollment (returns provisioning URI for a QR code)
+ * @access  Private
+ */
+router.post(
+  '/2fa/setup',
+  authenticate,
+  authLimiter,
+  asyncHandler(twoFactorController.setupTwoFactor)
+);
+
+/**
+ * @route   POST /api/auth/2fa/enable
+ * @desc    Confirm TOTP enrollment and receive backup codes
+ * @access  Private
+ */
+router.post(
+  '/2fa/enable',
+  authenticate,
+  authLimiter,
+  validate(schemas.twoFactorCode),
+  asyncHandler(twoFactorController.enableTwoFactor)
+);
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Disable two-factor authentication
+ * @access  Private
+ */
+router.post(
+  '/2fa/disable',
+  authenticate,
+  authLimiter,
+  validate(schemas.twoFactorDisable),
+  asyncHandler(twoFactorController.disableTwoFactor)
+);
+
+/**
+ * @route   POST /api/auth/2fa/backup-codes
+ * @desc    Regenerate backup codes
+ * @access  Private
+ */
+router.post(
+  '/2fa/backup-codes',
+  authenticate,
+  authLimiter,
+  validate(schemas.twoFactorCode),
+  asyncHandler(twoFactorController.regenerateBackupCodes)
+);
+
+/**
+ * @route   POST /api/auth/anonymous
+ * @desc    Create an anonymous device-bound account (returns a recovery code)
+ * @access  Public
+ */
+router.post(
+  '/anonymous',
+  authLimiter,
+  validate(schemas.anonymous),
+  asyncHandler(authController.createAnonymousAccount)
+);
+
+/**
+ * @route   POST /api/auth/anonymous/recover
+ * @desc    Recover an anonymous account on a new device
+ * @access  Public
+ */
+router.post(
+  '/anonymous/recover',
+  authLimiter,
+  validate(schemas.recoverAnonymous),
+  asyncHandler(authController.recoverAnonymousAccount)
+);
+
+/**
+ * @route   POST /api/auth/upgrade
+ * @desc    Attach email/password login to an anonymous account
+ * @access  Private
+ */
+router.post(
+  '/upgrade',
+  authenticate,
+  authLimiter,
+  validate(schemas.upgradeAccount),
+  asyncHandler(authController.upgradeAccount)
+);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a password reset link (same response for unknown emails)
+ * @access  Public
+ */
+router.post(
+  '/forgot-password',
+  authLimiter,
+  validate(schemas.forgotPassword),
+  asyncHandler(authController.forgotPassword)
+);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password with a one-time reset token
+ * @access  Public
+ */
+router.post(
+  '/reset-password',
+  authLimiter,
+  validate(schemas.resetPassword),
+  asyncHandler(authController.resetPassword)
+);
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Verify email address with a one-time token
+ * @access  Public
+ */
+router.post(
+  '/verify-email',
+  authLimiter,
+  validate(schemas.verifyEmail),
+  asyncHandler(authController.verifyEmail)
+);
+
+/**
+ * @route   POST /api/auth/resend-verification
+ * @desc    Resend the email verification link
+ * @access  Private
+ */
+router.post(
+  '/resend-verification',
+  authenticate,
+  authLimiter,
+  asyncHandler(authController.resendVerification)
+);
+
+/**
+ * @route   POST /api/auth/guardian-consent
+ * @desc    Grant or deny guardian consent with the emailed one-time token
+ * @access  Public
+ */
+router.post(
+  '/guardian-consent',
+  authLimiter,
+  validate(schemas.guardianConsent),
+  asyncHandler(authController.respondToGuardianConsent)
+);
+
+/**
+ * @route   POST /api/auth/guardian-consent/resend
+ * @desc    Resend the guardian consent request
+ * @access  Private
+ */
+router.post(
+  '/guardian-consent/resend',
+  authenticate,
+  authLimiter,
+  asyncHandler(authController.resendGuardianConsent)
+);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Revoke the current session, or all sessions with allDevices
+ * @access  Private
+ */
+router.post(
+  '/logout',
+  authenticate,
+  apiLimiter,
+  validate(schemas.logout),
+  asyncHandler(authController.logout)
+);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List active sessions (devices)
+ * @access  Private
+ */
+router.get(
+  '/sessions',
+  authenticate,
+  apiLimiter,
+  asyncHandler(authController.getSessions)
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke a session (sign out a device)
+ * @access  Private
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  apiLimiter,
+  validate(schemas.revokeSession),
+  asyncHandler(authController.revokeSession)
+);
+
 export default router;
\ No newline at end of file
@@ -5,6 +5,11 @@ import webhookRoutes from './webhook';
 import reportRoutes from './report';
 import moderationRoutes from './moderation';
 import tipsRoutes from './tips';
+import adminRoutes from './admin';
+import userRoutes from './users';
+import matchingRoutes from './matching';
+import appointmentRoutes from './appointments';
+import wellKnownRoutes from './wellKnown';
 import { logger } from '../utils/logger';
 
 /**
@@ -21,6 +26,13 @@ export const setupRoutes = (app: Express) => {
   app.use(`${API_PREFIX}/report`, reportRoutes);
   app.use(`${API_PREFIX}/moderation`, moderationRoutes);
   app.use(`${API_PREFIX}/tips`, tipsRoutes);
+  app.use(`${API_PREFIX}/admin`, adminRoutes);
+  app.use(`${API_PREFIX}/users`, userRoutes);
+  app.use(`${API_PREFIX}/matching`, matchingRoutes);
+  app.use(`${API_PREFIX}/appointments`, appointmentRoutes);
+
+  // Standard discovery documents (outside the API prefix)
+  app.use('/.well-known', wellKnownRoutes);
 
   logger.info('✅ API routes configured');
 };
\ No newline at end of file
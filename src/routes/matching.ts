@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, requireGuardianConsent } from '../middleware/auth';
+import { apiLimiter } from '../middleware/rateLimiter';
+import { validate, schemas } from '../middleware/validation';
+import * as matchingController from '../controllers/matchingController';
+
+const router = Router();
+
+/**
+ * @route   POST /api/matching
+ * @desc    Join the peer-support queue (pairs immediately when someone compatible is waiting)
+ * @access  Private (guardian consent for under-16s)
+ */
+router.post(
+  '/',
+  authenticate,
+  requireGuardianConsent,
+  apiLimiter,
+  validate(schemas.requestMatch),
+  asyncHandler(matchingController.requestMatch)
+);
+
+/**
+ * @route   GET /api/matching/current
+ * @desc    Get the latest matching request and its channel once matched
+ * @access  Private
+ */
+router.get(
+  '/current',
+  authenticate,
+  apiLimiter,
+  asyncHandler(matchingController.getCurrentMatch)
+);
+
+/**
+ * @route   DELETE /api/matching/current
+ * @desc    Leave the queue
+ * @access  Private
+ */
+router.delete(
+  '/current',
+  authenticate,
+  apiLimiter,
+  asyncHandler(matchingController.cancelMatch)
+);
+
+export default router;
\ No newline at end of file
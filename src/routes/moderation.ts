@@ -1,9 +1,9 @@
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, authenticateApiKey, requirePermission } from '../middleware/auth';
 import { apiLimiter } from '../middleware/rateLimiter';
 import { validate, schemas } from '../middleware/validation';
-import { UserRole } from '../types';
+import { Permission } from '../types';
 import * as moderationController from '../controllers/moderationController';
 
 const router = Router();
@@ -11,12 +11,12 @@ const router = Router();
 /**
  * @route   POST /api/moderation/resolve
  * @desc    Resolve a moderation action
- * @access  Private (moderator/admin only)
+ * @access  Private (reports.resolve; banUser/suspendChannel also need users.ban/channels.suspend)
  */
 router.post(
   '/resolve',
   authenticate,
-  requireRole(UserRole.MODERATOR, UserRole.ADMIN),
+  requirePermission(Permission.REPORTS_RESOLVE),
   apiLimiter,
   validate(schemas.resolveModeration),
   asyncHandler(moderationController.resolveModerationAction)
@@ -25,12 +25,11 @@ router.post(
 /**
  * @route   GET /api/moderation/queue
  * @desc    Get moderation queue
- * @access  Private (moderator/admin only)
+ * @access  Private (moderation.queue.read, or API key with moderation:read)
  */
 router.get(
   '/queue',
-  authenticate,
-  requireRole(UserRole.MODERATOR, UserRole.ADMIN),
+  authenticateApiKey(Permission.MODERATION_QUEUE_READ),
   apiLimiter,
   asyncHandler(moderationController.getModerationQueue)
 );
@@ -38,12 +37,12 @@ router.get(
 /**
  * @route   POST /api/moderation/queue/:id/process
  * @desc    Process a queue item
- * @access  Private (moderator/admin only)
+ * @access  Private (moderation.queue.process)
  */
 router.post(
   '/queue/:id/process',
   authenticate,
-  requireRole(UserRole.MODERATOR, UserRole.ADMIN),
+  requirePermission(Permission.MODERATION_QUEUE_PROCESS),
   apiLimiter,
   asyncHandler(moderationController.processQueueItem)
 );
@@ -1,9 +1,9 @@
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
-import { authenticate, optionalAuth, requireRole } from '../middleware/auth';
+import { authenticateApiKey, optionalAuth, requireVerifiedEmailIfPresent } from '../middleware/auth';
 import { strictLimiter, apiLimiter } from '../middleware/rateLimiter';
 import { validate, schemas } from '../middleware/validation';
-import { UserRole } from '../types';
+import { Permission } from '../types';
 import * as reportController from '../controllers/reportController';
 
 const router = Router();
@@ -11,11 +11,12 @@ const router = Router();
 /**
  * @route   POST /api/report
  * @desc    Create a report
- * @access  Public (optional auth)
+ * @access  Public (optional auth; signed-in users with an email must verify it when REQUIRE_EMAIL_VERIFICATION is on)
  */
 router.post(
   '/',
   optionalAuth,
+  requireVerifiedEmailIfPresent,
   strictLimiter,
   validate(schemas.createReport),
   asyncHandler(reportController.createReport)
@@ -24,12 +25,11 @@ router.post(
 /**
  * @route   GET /api/report
  * @desc    Get reports
- * @access  Private (moderator/admin only)
+ * @access  Private (reports.read, or API key with moderation:read)
  */
 router.get(
   '/',
-  authenticate,
-  requireRole(UserRole.MODERATOR, UserRole.ADMIN),
+  authenticateApiKey(Permission.REPORTS_READ),
   apiLimiter,
   asyncHandler(reportController.getReports)
 );
@@ -1,6 +1,11 @@
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
-import { authenticate } from '../middleware/auth';
+import {
+  allowWhileImpersonating,
+  authenticate,
+  requireGuardianConsent,
+  requireVerifiedEmail,
+} from '../middleware/auth';
 import { apiLimiter } from '../middleware/rateLimiter';
 import { validate, schemas } from '../middleware/validation';
 import * as streamController from '../controllers/streamController';
@@ -10,24 +15,66 @@ const router = Router();
 /**
  * @route   POST /api/stream/token
  * @desc    Get Stream token for authenticated user
- * @access  Private
+ * @access  Private (guardian consent for under-16s)
  */
 router.post(
   '/token',
+  allowWhileImpersonating,
   authenticate,
+  requireGuardianConsent,
   apiLimiter,
   validate(schemas.streamToken),
   asyncHandler(streamController.getStreamToken)
 );
 
+/**
+ * @route   GET /api/stream/handles
+ * @desc    List the caller's active anonymous handles
+ * @access  Private
+ */
+router.get(
+  '/handles',
+  authenticate,
+  apiLimiter,
+  asyncHandler(streamController.listHandles)
+);
+
+/**
+ * @route   DELETE /api/stream/handles/:ephemeralId
+ * @desc    Retire an anonymous handle (removes it from its channel and from Stream)
+ * @access  Private
+ */
+router.delete(
+  '/handles/:ephemeralId',
+  authenticate,
+  apiLimiter,
+  validate(schemas.retireHandle),
+  asyncHandler(streamController.retireHandle)
+);
+
+/**
+ * @route   GET /api/stream/channels
+ * @desc    Discover public channels (filter by tags, search titles, cursor pagination)
+ * @access  Private
+ */
+router.get(
+  '/channels',
+  authenticate,
+  apiLimiter,
+  validate(schemas.listChannels),
+  asyncHandler(streamController.listChannels)
+);
+
 /**
  * @route   POST /api/stream/createChannel
  * @desc    Create a new Stream channel
- * @access  Private
+ * @access  Private (verified email when REQUIRE_EMAIL_VERIFICATION is on; guardian consent for under-16s)
  */
 router.post(
   '/createChannel',
   authenticate,
+  requireGuardianConsent,
+  requireVerifiedEmail,
   apiLimiter,
   validate(schemas.createChannel),
   asyncHandler(streamController.createChannel)
@@ -35,15 +82,147 @@ router.post(
 
 /**
  * @route   POST /api/stream/joinChannel
- * @desc    Join an existing channel
- * @access  Private
+ * @desc    Join an existing channel (private channels need inviteToken)
+ * @access  Private (guardian consent for under-16s)
  */
 router.post(
   '/joinChannel',
   authenticate,
+  requireGuardianConsent,
   apiLimiter,
   validate(schemas.joinChannel),
   asyncHandler(streamController.joinChannel)
 );
 
+/**
+ * @route   POST /api/stream/channels/:id/invites
+ * @desc    Create an expiring, limited-use invite to a private channel
+ * @access  Private (room owner/moderator)
+ */
+router.post(
+  '/channels/:id/invites',
+  authenticate,
+  apiLimiter,
+  validate(schemas.createInvite),
+  asyncHandler(streamController.createInvite)
+);
+
+/**
+ * @route   POST /api/stream/invites/:token/accept
+ * @desc    Join a private channel with an invite
+ * @access  Private (guardian consent for under-16s)
+ */
+router.post(
+  '/invites/:token/accept',
+  authenticate,
+  requireGuardianConsent,
+  apiLimiter,
+  validate(schemas.acceptInvite),
+  asyncHandler(streamController.acceptInvite)
+);
+
+/**
+ * @route   POST /api/stream/leaveChannel
+ * @desc    Leave a channel (all of the caller's identities in it)
+ * @access  Private (not the owner)
+ */
+router.post(
+  '/leaveChannel',
+  authenticate,
+  apiLimiter,
+  validate(schemas.leaveChannel),
+  asyncHandler(streamController.leaveChannel)
+);
+
+/**
+ * @route   POST /api/stream/removeMember
+ * @desc    Remove a member from a channel
+ * @access  Private (room owner/moderator, or channels.suspend)
+ */
+router.post(
+  '/removeMember',
+  authenticate,
+  apiLimiter,
+  validate(schemas.removeMember),
+  asyncHandler(streamController.removeMember)
+);
+
+/**
+ * @route   POST /api/stream/promoteModerator
+ * @desc    Promote a member to room moderator
+ * @access  Private (room owner)
+ */
+router.post(
+  '/promoteModerator',
+  authenticate,
+  apiLimiter,
+  validate(schemas.channelMember),
+  asyncHandler(streamController.promoteModerator)
+);
+
+/**
+ * @route   POST /api/stream/demoteModerator
+ * @desc    Demote a room moderator to member
+ * @access  Private (room owner)
+ */
+router.post(
+  '/demoteModerator',
+  authenticate,
+  apiLimiter,
+  validate(schemas.channelMember),
+  asyncHandler(streamController.demoteModerator)
+);
+
+/**
+ * @route   POST /api/stream/transferOwnership
+ * @desc    Transfer room ownership to another member
+ * @access  Private (room owner)
+ */
+router.post(
+  '/transferOwnership',
+  authenticate,
+  apiLimiter,
+  validate(schemas.channelMember),
+  asyncHandler(streamController.transferOwnership)
+);
+
+/**
+ * @route   POST /api/stream/muteMember
+ * @desc    Mute a member in this channel for a while
+ * @access  Private (room owner/moderator, or channels.suspend)
+ */
+router.post(
+  '/muteMember',
+  authenticate,
+  apiLimiter,
+  validate(schemas.muteMember),
+  asyncHandler(streamController.muteMember)
+);
+
+/**
+ * @route   POST /api/stream/unmuteMember
+ * @desc    Lift a channel mute
+ * @access  Private (room owner/moderator, or channels.suspend)
+ */
+router.post(
+  '/unmuteMember',
+  authenticate,
+  apiLimiter,
+  validate(schemas.channelMember),
+  asyncHandler(streamController.unmuteMember)
+);
+
+/**
+ * @route   POST /api/stream/deleteMessage
+ * @desc    Delete a message in a channel
+ * @access  Private (room owner/moderator, or channels.suspend)
+ */
+router.post(
+  '/deleteMessage',
+  authenticate,
+  apiLimiter,
+  validate(schemas.deleteChannelMessage),
+  asyncHandler(streamController.deleteChannelMessage)
+);
+
 export default router;
\ No newline at end of file
@@ -1,9 +1,9 @@
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
-import { optionalAuth } from '../middleware/auth';
+import { authenticateApiKey } from '../middleware/auth';
 import { strictLimiter, apiLimiter } from '../middleware/rateLimiter';
 import { validate, schemas } from '../middleware/validation';
-// ...existing code...
+import { Permission } from '../types';
 import * as tipsController from '../controllers/tipsController';
 
 const router = Router();
@@ -11,11 +11,11 @@ const router = Router();
 /**
  * @route   POST /api/tips/publish
  * @desc    Publish daily tip
- * @access  Private (admin only or scheduled job with secret)
+ * @access  Private (tips.publish, or API key with tips:publish; PUBLISH_SECRET still accepted)
  */
 router.post(
   '/publish',
-  optionalAuth,
+  authenticateApiKey(Permission.TIPS_PUBLISH),
   strictLimiter,
   validate(schemas.publishTip),
   asyncHandler(tipsController.publishDailyTip)
@@ -0,0 +1,100 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, denyWhileImpersonating } from '../middleware/auth';
+import { apiLimiter, authLimiter, strictLimiter } from '../middleware/rateLimiter';
+import { validate, schemas } from '../middleware/validation';
+import * as userController from '../controllers/userController';
+
+const router = Router();
+
+/**
+ * @route   GET /api/users/me
+ * @desc    Get the current user's profile
+ * @access  Private
+ */
+router.get(
+  '/me',
+  authenticate,
+  apiLimiter,
+  asyncHandler(userController.getProfile)
+);
+
+/**
+ * @route   PATCH /api/users/me
+ * @desc    Update display name, avatar or tags
+ * @access  Private
+ */
+router.patch(
+  '/me',
+  authenticate,
+  apiLimiter,
+  validate(schemas.updateProfile),
+  asyncHandler(userController.updateProfile)
+);
+
+/**
+ * @route   POST /api/users/me/password
+ * @desc    Change password (signs out other sessions)
+ * @access  Private
+ */
+router.post(
+  '/me/password',
+  authenticate,
+  authLimiter,
+  validate(schemas.changePassword),
+  asyncHandler(userController.changePassword)
+);
+
+/**
+ * @route   GET /api/users/me/export
+ * @desc    Get (or start) an export of all personal data
+ * @access  Private
+ */
+router.get(
+  '/me/export',
+  authenticate,
+  denyWhileImpersonating,
+  strictLimiter,
+  asyncHandler(userController.requestDataExport)
+);
+
+/**
+ * @route   GET /api/users/me/export/:id/download
+ * @desc    Download a finished personal data export
+ * @access  Private
+ */
+router.get(
+  '/me/export/:id/download',
+  authenticate,
+  denyWhileImpersonating,
+  strictLimiter,
+  validate(schemas.dataExportId),
+  asyncHandler(userController.downloadDataExport)
+);
+
+/**
+ * @route   DELETE /api/users/me
+ * @desc    Schedule deletion of the current account
+ * @access  Private
+ */
+router.delete(
+  '/me',
+  authenticate,
+  strictLimiter,
+  validate(schemas.deleteAccount),
+  asyncHandler(userController.deleteAccount)
+);
+
+/**
+ * @route   POST /api/users/me/cancel-deletion
+ * @desc    Cancel a pending account deletion
+ * @access  Private
+ */
+router.post(
+  '/me/cancel-deletion',
+  authenticate,
+  strictLimiter,
+  asyncHandler(userController.cancelAccountDeletion)
+);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { apiLimiter } from '../middleware/rateLimiter';
+import * as wellKnownController from '../controllers/wellKnownController';
+
+const router = Router();
+
+/**
+ * @route   GET /.well-known/jwks.json
+ * @desc    Public keys for verifying access tokens (kid per key)
+ * @access  Public
+ */
+router.get(
+  '/jwks.json',
+  apiLimiter,
+  asyncHandler(wellKnownController.getJwks)
+);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { IUser, User } from '../models/User';
+import { EphemeralMapping } from '../models/EphemeralMapping';
+import { Report } from '../models/Report';
+import { AuditLog } from '../models/AuditLog';
+import { ChatRoom } from '../models/ChatRoom';
+import { ModerationQueue } from '../models/ModerationQueue';
+import { Session } from '../models/Session';
+import { OneTimeToken } from '../models/OneTimeToken';
+import { ApiKey } from '../models/ApiKey';
+import { DataExport } from '../models/DataExport';
+import { ChannelInvite } from '../models/ChannelInvite';
+import { MatchRequest } from '../models/MatchRequest';
+import { Appointment } from '../models/Appointment';
+import { AvailabilitySlot } from '../models/AvailabilitySlot';
+import { AppointmentStatus, ReportTargetType } from '../types';
+import { streamClient } from './streamClient';
+import { mailService } from './mailService';
+import { appointmentService } from './appointmentService';
+import { exportArchiveStore } from './exportArchiveStore';
+import { principalCache } from './principalCache';
+import { logger } from '../utils/logger';
+
+// Audit metadata that identifies a person rather than describing the event
+const PERSONAL_META_FIELDS = ['ip', 'email', 'userAgent'];
+
+/**
+ * Account Deletion Service
+ * Schedules account deletion after a grace period and erases the account:
+ * personal documents are removed, and records we must keep (reports, audit
+ * logs, moderation history) point at a stable pseudonym instead of the user.
+ */
+class AccountDeletionService {
+  /**
+   * Stable, non-reversible stand-in for a user id. The same user always maps
+   * to the same pseudonym so erased records can still be correlated.
+   */
+  pseudonymFor(userId: string): Types.ObjectId {
+    const digest = crypto
+      .createHmac('sha256', config.accountDeletion.pseudonymSecret)
+      .update(userId)
+      .digest('hex');
+    return new Types.ObjectId(digest.slice(0, 24));
+  }
+
+  /**
+   * Schedule an account for deletion
+   */
+  async schedule(user: IUser, ip?: string): Promise<Date> {
+    const scheduledFor = new Date();
+    scheduledFor.setDate(scheduledFor.getDate() + config.accountDeletion.graceDays);
+
+    user.deletionRequestedAt = new Date();
+    user.deletionScheduledFor = scheduledFor;
+    await user.save();
+
+    await AuditLog.create({
+      action: 'account_deletion_requested',
+      actorUserId: user._id,
+      target: `user:${user._id}`,
+      timestamp: new Date(),
+      meta: { scheduledFor, ip },
+    });
+
+    if (user.email) {
+      mailService
+        .sendAccountDeletionScheduledEmail(user.email, user.displayName, scheduledFor)
+        .catch((error) => logger.error('Failed to send deletion confirmation:', error));
+    }
+
+    logger.info(`Account deletion scheduled for user ${user._id} at ${scheduledFor.toISOString()}`);
+    return scheduledFor;
+  }
+
+  /**
+   * Cancel a pending deletion. Returns false if none was scheduled.
+   */
+  async cancel(user: IUser): Promise<boolean> {
+    if (!user.deletionScheduledFor) {
+      return false;
+    }
+
+    user.deletionRequestedAt = undefined;
+    user.deletionScheduledFor = undefined;
+    await user.save();
+
+    await AuditLog.create({
+      action: 'account_deletion_cancelled',
+      actorUserId: user._id,
+      target: `user:${user._id}`,
+      timestamp: new Date(),
+      meta: {},
+    });
+
+    logger.info(`Account deletion cancelled for user ${user._id}`);
+    return true;
+  }
+
+  /**
+   * Erase an account from every collection and from Stream
+   */
+  async erase(userId: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) {
+      return;
+    }
+
+    const id = String(user._id);
+    const pseudonym = this.pseudonymFor(id);
+    const pseudonymTarget = `user:${pseudonym}`;
+    const stripPersonalMeta = Object.fromEntries(PERSONAL_META_FIELDS.map((field) => [`meta.${field}`, '']));
+
+    // Collect every Stream identity the user ever had
+    const mappings = await EphemeralMapping.find({ realUserId: user._id }).select('ephemeralId');
+    const ephemeralIds = [
+      ...new Set([
+        ...mappings.map((m) => m.ephemeralId),
+        ...user.anonymousHandles.map((h) => h.ephemeralId),
+      ]),
+    ];
+    // Ids are stored as strings in free-form payloads and as ObjectIds elsewhere
+    const userIdValues = [id, user._id];
+    const memberIds = [id, ...ephemeralIds];
+
+    // Remove messages first so a Stream outage leaves the account intact for a retry
+    for (const streamUserId of memberIds) {
+      try {
+        await streamClient.deactivateUser(streamUserId, { mark_messages_deleted: true });
+      } catch (error: any) {
+        // Identities that never connected to Stream don't exist there
+        if (!/not found|does(n't| not) exist/i.test(error?.message || '')) {
+          throw error;
+        }
+      }
+    }
+
+    // Cancel upcoming sessions on either side so slots are freed and the other party is told
+    const upcoming = await Appointment.find({
+      $or: [{ userId: user._id }, { counselorId: user._id }],
+      status: AppointmentStatus.BOOKED,
+      startsAt: { $gt: new Date() },
+    });
+    for (const appointment of upcoming) {
+      await appointmentService.cancel(appointment, id, 'Account deleted');
+    }
+
+    await Promise.all([
+      Report.updateMany({ reporterUserId: user._id }, { reporterUserId: pseudonym }),
+      Report.updateMany({ moderatorId: user._id }, { moderatorId: pseudonym }),
+      Report.updateMany(
+        { targetType: ReportTargetType.USER, targetId: id },
+        { targetId: String(pseudonym) }
+      ),
+      AuditLog.updateMany(
+        { actorUserId: user._id },
+        { actorUserId: pseudonym, $unset: stripPersonalMeta }
+      ),
+      AuditLog.updateMany(
+        { target: `user:${id}` },
+        { target: pseudonymTarget, $unset: stripPersonalMeta }
+      ),
+      ModerationQueue.updateMany(
+        { 'payload.userId': { $in: [...userIdValues, ...ephemeralIds] } },
+        { 'payload.userId': String(pseudonym), 'payload.text': '[deleted]' }
+      ),
+      ModerationQueue.updateMany(
+        { 'payload.reportedBy': { $in: userIdValues } },
+        { 'payload.reportedBy': String(pseudonym) }
+      ),
+      ChatRoom.updateMany({ createdBy: user._id }, { createdBy: pseudonym }),
+      // Only rooms the user was in
+      ChatRoom.updateMany(
+        { $or: memberIds.map((memberId) => ({ [`members.${memberId}`]: { $exists: true } })) },
+        { $unset: Object.fromEntries(memberIds.map((memberId) => [`members.${memberId}`, ''])) }
+      ),
+      ApiKey.updateMany({ createdBy: user._id }, { createdBy: pseudonym }),
+      ApiKey.updateMany({ revokedBy: user._id }, { revokedBy: pseudonym }),
+      ChannelInvite.updateMany({ createdBy: user._id }, { createdBy: pseudonym }),
+      EphemeralMapping.deleteMany({ realUserId: user._id }),
+      Session.deleteMany({ userId: user._id }),
+      OneTimeToken.deleteMany({ userId: user._id }),
+      DataExport.deleteMany({ userId: user._id }),
+      exportArchiveStore.deleteForUser(id),
+      MatchRequest.deleteMany({ userId: user._id }),
+      Appointment.deleteMany({ userId: user._id }),
+      Appointment.updateMany({ counselorId: user._id }, { counselorId: pseudonym }),
+      Appointment.updateMany({ cancelledBy: user._id }, { cancelledBy: pseudonym }),
+      AvailabilitySlot.deleteMany({ counselorId: user._id }),
+    ]);
+
+    await User.deleteOne({ _id: user._id });
+    await principalCache.invalidate(id);
+
+    await AuditLog.create({
+      action: 'account_erased',
+      actorUserId: pseudonym,
+      target: pseudonymTarget,
+      timestamp: new Date(),
+      meta: {
+        requestedAt: user.deletionRequestedAt,
+        streamIdentities: ephemeralIds.length + 1,
+      },
+    });
+
+    logger.info(`Account erased: ${pseudonymTarget}`);
+  }
+
+  /**
+   * Erase all accounts whose grace period has ended
+   */
+  async processDue(now: Date = new Date()): Promise<number> {
+    const due = await User.find({ deletionScheduledFor: { $lte: now } }).select('_id');
+    let erased = 0;
+
+    for (const user of due) {
+      try {
+        await this.erase(String(user._id));
+        erased++;
+      } catch (error) {
+        // Leave it scheduled; the next run retries
+        logger.error(`Failed to erase account ${user._id}:`, error);
+      }
+    }
+
+    return erased;
+  }
+}
+
+// Export singleton instance
+export const accountDeletionService = new AccountDeletionService();
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { config } from '../config/env';
+import { AgeBand, GuardianConsent, GuardianConsentStatus } from '../types';
+import { AppError } from '../middleware/errorHandler';
+
+// Youngest age in each band; a band alone is always read as its youngest age
+const BAND_LOWER_BOUNDS: [AgeBand, number][] = [
+  [AgeBand.ADULT, 18],
+  [AgeBand.AGE_16_17, 16],
+  [AgeBand.AGE_13_15, 13],
+  [AgeBand.UNDER_13, 0],
+];
+
+export interface AgeAssessment {
+  ageBand: AgeBand;
+  // Exact age from a date of birth, or the youngest age in the given band
+  age: number;
+  guardianConsentRequired: boolean;
+}
+
+/**
+ * Age Gate Service
+ * Works out age bands from a date of birth or a self-declared band and
+ * applies the minimum age and guardian consent thresholds
+ */
+class AgeGateService {
+  /**
+   * Age in whole years on a given day
+   */
+  ageOn(dateOfBirth: Date, now: Date = new Date()): number {
+    let age = now.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+    const hadBirthday =
+      now.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+      (now.getUTCMonth() === dateOfBirth.getUTCMonth() && now.getUTCDate() >= dateOfBirth.getUTCDate());
+    if (!hadBirthday) {
+      age--;
+    }
+    return age;
+  }
+
+  /**
+   * Band an age falls into
+   */
+  bandForAge(age: number): AgeBand {
+    return BAND_LOWER_BOUNDS.find(([, lowerBound]) => age >= lowerBound)![0];
+  }
+
+  /**
+   * Youngest age in a band
+   */
+  youngestAgeInBand(band: AgeBand): number {
+    return BAND_LOWER_BOUNDS.find(([b]) => b === band)![1];
+  }
+
+  /**
+   * Current band of a user; people with a date of birth move up as they age
+   */
+  currentBand(user: { dateOfBirth?: Date; ageBand?: AgeBand }): AgeBand | undefined {
+    return user.dateOfBirth ? this.bandForAge(this.ageOn(user.dateOfBirth)) : user.ageBand;
+  }
+
+  /**
+   * Whether the user is known to be under 18
+   */
+  isMinor(user: { dateOfBirth?: Date; ageBand?: AgeBand }): boolean {
+    const band = this.currentBand(user);
+    return !!band && band !== AgeBand.ADULT;
+  }
+
+  /**
+   * Whether a user is still waiting for (or was refused) guardian consent
+   */
+  isConsentOutstanding(consent?: GuardianConsent): boolean {
+    return consent?.status === GuardianConsentStatus.PENDING || consent?.status === GuardianConsentStatus.DENIED;
+  }
+
+  /**
+   * Assess registration input. A date of birth takes precedence over a band.
+   * Throws when the user is below the minimum age.
+   */
+  assess(input: { dateOfBirth?: Date; ageBand?: AgeBand }, now: Date = new Date()): AgeAssessment {
+    const age = input.dateOfBirth
+      ? this.ageOn(input.dateOfBirth, now)
+      : this.youngestAgeInBand(input.ageBand!);
+
+    if (age < config.ageGate.minimumAge) {
+      throw new AppError(
+        `You must be at least ${config.ageGate.minimumAge} to use MindSupport`,
+        403,
+        'AGE_REQUIREMENT_NOT_MET',
+        { minimumAge: config.ageGate.minimumAge }
+      );
+    }
+
+    return {
+      ageBand: this.bandForAge(age),
+      age,
+      guardianConsentRequired: age < config.ageGate.guardianConsentAge,
+    };
+  }
+}
+
+// Export singleton instance
+export const ageGate = new AgeGateService();
\ No newline at end of file
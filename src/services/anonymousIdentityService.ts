@@ -0,0 +1,302 @@
+import { nanoid } from 'nanoid';
+import { config } from '../config/env';
+import { IUser, User } from '../models/User';
+import { EphemeralMapping, IEphemeralMapping } from '../models/EphemeralMapping';
+import { ChatRoom } from '../models/ChatRoom';
+import { AuditLog } from '../models/AuditLog';
+import { AppError } from '../middleware/errorHandler';
+import { streamClient } from './streamClient';
+import { logger } from '../utils/logger';
+
+// Channel id of identities issued with a token but not yet used to join
+export const PENDING_CHANNEL = 'pending';
+
+// Expired identities retired per job run
+const RETIRE_BATCH = 100;
+
+const handleKeyOf = (handle: string) => handle.trim().toLowerCase();
+
+/**
+ * Run a Stream cleanup call, ignoring users or channels that are already gone
+ */
+const ignoreMissing = async (action: Promise<unknown>) => {
+  try {
+    await action;
+  } catch (error: any) {
+    if (!/not found|does(n't| not) exist/i.test(error?.message || '')) {
+      throw error;
+    }
+  }
+};
+
+const handleTaken = (handle: string) =>
+  new AppError('That handle is already used in this channel', 409, 'HANDLE_TAKEN', { handle });
+
+/**
+ * Anonymous Identity Service
+ * Creates ephemeral Stream identities (`anon_*`) that let a user chat under a
+ * handle. The mapping back to the real user is kept for moderation.
+ *
+ * An identity starts 'pending' (token only) or bound to one channel, where its
+ * handle is unique. Use renews it; once idle for ANONYMOUS_HANDLE_TTL_HOURS it
+ * is retired and removed from Stream.
+ */
+class AnonymousIdentityService {
+  private expiry(): Date {
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + config.anonymousHandles.ttlHours);
+    return expiresAt;
+  }
+
+  /**
+   * Refuse a handle another active identity already uses in the channel
+   */
+  private async assertAvailable(handle: string, streamChannelId: string): Promise<void> {
+    const taken = await EphemeralMapping.exists({
+      channelId: streamChannelId,
+      handleKey: handleKeyOf(handle),
+    });
+    if (taken) {
+      throw handleTaken(handle);
+    }
+  }
+
+  /**
+   * Create an anonymous identity for a user, bound to a channel (or PENDING_CHANNEL)
+   */
+  async create(user: IUser, handle: string, channelId: string): Promise<{ ephemeralId: string; expiresAt: Date }> {
+    const bound = channelId !== PENDING_CHANNEL;
+    if (bound) {
+      await this.assertAvailable(handle, channelId);
+    }
+
+    const ephemeralId = `anon_${user._id}_${nanoid(8)}`;
+    const expiresAt = this.expiry();
+
+    try {
+      await EphemeralMapping.create({
+        ephemeralId,
+        realUserId: user._id,
+        channelId,
+        handle,
+        ...(bound && { handleKey: handleKeyOf(handle) }),
+        expiresAt,
+      });
+    } catch (error: any) {
+      // Lost a race for the handle
+      throw error?.code === 11000 ? handleTaken(handle) : error;
+    }
+
+    await streamClient.upsertUser(ephemeralId, {
+      name: handle,
+      role: 'anonymous',
+      isAnonymous: true,
+    });
+
+    user.anonymousHandles.push({
+      channelId,
+      handle,
+      ephemeralId,
+      createdAt: new Date(),
+    });
+    await user.save();
+
+    logger.info(`Ephemeral identity created for user ${user._id}: ${ephemeralId}`);
+    return { ephemeralId, expiresAt };
+  }
+
+  /**
+   * Identity to issue a token for: the one bound to a channel under this
+   * handle, or a pending one (reused while active)
+   */
+  async issue(
+    user: IUser,
+    handle: string,
+    streamChannelId?: string
+  ): Promise<{ ephemeralId: string; expiresAt: Date }> {
+    const mapping = await EphemeralMapping.findOne({
+      realUserId: user._id,
+      retiredAt: { $exists: false },
+      ...(streamChannelId
+        ? { channelId: streamChannelId, handleKey: handleKeyOf(handle) }
+        : { channelId: PENDING_CHANNEL, handle }),
+    });
+
+    if (!mapping) {
+      if (streamChannelId) {
+        throw new AppError('You have no active handle with that name in this channel', 404, 'HANDLE_NOT_FOUND');
+      }
+      return this.create(user, handle, PENDING_CHANNEL);
+    }
+
+    mapping.expiresAt = this.expiry();
+    await mapping.save();
+    return { ephemeralId: mapping.ephemeralId, expiresAt: mapping.expiresAt };
+  }
+
+  /**
+   * Identity to join a channel with: the user's identity already bound there
+   * under this handle, their pending identity with this handle, or a new one
+   */
+  async bind(user: IUser, handle: string, streamChannelId: string): Promise<string> {
+    const handleKey = handleKeyOf(handle);
+    const active = { realUserId: user._id, retiredAt: { $exists: false } };
+
+    const bound = await EphemeralMapping.findOne({ ...active, channelId: streamChannelId, handleKey });
+    if (bound) {
+      await this.renew(bound.ephemeralId);
+      return bound.ephemeralId;
+    }
+
+    const pending = await EphemeralMapping.findOne({ ...active, channelId: PENDING_CHANNEL, handle });
+    if (!pending) {
+      return (await this.create(user, handle, streamChannelId)).ephemeralId;
+    }
+
+    await this.assertAvailable(handle, streamChannelId);
+    try {
+      // A pending identity binds once; a concurrent bind elsewhere wins
+      const claimed = await EphemeralMapping.updateOne(
+        { _id: pending._id, channelId: PENDING_CHANNEL },
+        { channelId: streamChannelId, handleKey, expiresAt: this.expiry() }
+      );
+      if (claimed.modifiedCount === 0) {
+        return (await this.create(user, handle, streamChannelId)).ephemeralId;
+      }
+    } catch (error: any) {
+      throw error?.code === 11000 ? handleTaken(handle) : error;
+    }
+
+    const entry = user.anonymousHandles.find((h) => h.ephemeralId === pending.ephemeralId);
+    if (entry) {
+      entry.channelId = streamChannelId;
+      await user.save();
+    }
+
+    return pending.ephemeralId;
+  }
+
+  /**
+   * Push back the expiry of an identity in use. Skips the write while more
+   * than half of its lifetime is left.
+   */
+  async renew(ephemeralId: string): Promise<void> {
+    const halfway = new Date(Date.now() + (config.anonymousHandles.ttlHours * 60 * 60 * 1000) / 2);
+
+    await EphemeralMapping.updateOne(
+      { ephemeralId, retiredAt: { $exists: false }, expiresAt: { $lt: halfway } },
+      { expiresAt: this.expiry() }
+    );
+  }
+
+  /**
+   * The user's active identities
+   */
+  async listActive(userId: string): Promise<IEphemeralMapping[]> {
+    return EphemeralMapping.find({
+      realUserId: userId,
+      retiredAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Whether the identity owns the room it is bound to
+   */
+  private async ownsChannel(mapping: IEphemeralMapping): Promise<boolean> {
+    if (mapping.channelId === PENDING_CHANNEL) {
+      return false;
+    }
+    const room = await ChatRoom.findOne({ streamChannelId: mapping.channelId }).select('members');
+    return room?.members.get(mapping.ephemeralId)?.role === 'owner';
+  }
+
+  /**
+   * Remove an identity from its channel and from Stream, and free its handle.
+   * Messages stay; the mapping is kept for moderation.
+   */
+  private async retire(mapping: IEphemeralMapping, now: Date): Promise<void> {
+    const { ephemeralId } = mapping;
+
+    if (mapping.channelId !== PENDING_CHANNEL) {
+      const [channelType, channelId] = mapping.channelId.split(':');
+      await ignoreMissing(streamClient.removeMembers(channelType, channelId, [ephemeralId]));
+      await ChatRoom.updateOne(
+        { streamChannelId: mapping.channelId },
+        { $unset: { [`members.${ephemeralId}`]: '' } }
+      );
+    }
+    await ignoreMissing(streamClient.deactivateUser(ephemeralId));
+
+    await EphemeralMapping.updateOne(
+      { _id: mapping._id },
+      { retiredAt: now, $unset: { handleKey: '' } }
+    );
+    await User.updateOne(
+      { _id: mapping.realUserId, 'anonymousHandles.ephemeralId': ephemeralId },
+      { 'anonymousHandles.$.retiredAt': now }
+    );
+
+    logger.info(`Ephemeral identity retired: ${ephemeralId}`);
+  }
+
+  /**
+   * Retire one of the user's identities on request
+   */
+  async retireForUser(userId: string, ephemeralId: string): Promise<void> {
+    const mapping = await EphemeralMapping.findOne({
+      ephemeralId,
+      realUserId: userId,
+      retiredAt: { $exists: false },
+    });
+    if (!mapping) {
+      throw new AppError('Handle not found', 404, 'HANDLE_NOT_FOUND');
+    }
+    if (await this.ownsChannel(mapping)) {
+      throw new AppError(
+        'This handle owns its channel; transfer ownership first',
+        409,
+        'HANDLE_OWNS_CHANNEL'
+      );
+    }
+
+    await this.retire(mapping, new Date());
+
+    await AuditLog.create({
+      action: 'anonymous_handle_retired',
+      actorUserId: userId,
+      target: `user:${userId}`,
+      timestamp: new Date(),
+      meta: { ephemeralId, channelId: mapping.channelId },
+    });
+  }
+
+  /**
+   * Retire identities that have not been used before their expiry. Owners
+   * are kept so rooms don't lose them; they retire after a transfer.
+   */
+  async retireExpired(now: Date = new Date()): Promise<number> {
+    const expired = await EphemeralMapping.find({
+      retiredAt: { $exists: false },
+      expiresAt: { $lte: now },
+    }).limit(RETIRE_BATCH);
+
+    let retired = 0;
+    for (const mapping of expired) {
+      try {
+        if (await this.ownsChannel(mapping)) {
+          await EphemeralMapping.updateOne({ _id: mapping._id }, { expiresAt: this.expiry() });
+          continue;
+        }
+        await this.retire(mapping, now);
+        retired++;
+      } catch (error) {
+        logger.error(`Failed to retire ephemeral identity ${mapping.ephemeralId}:`, error);
+      }
+    }
+    return retired;
+  }
+}
+
+// Export singleton instance
+export const anonymousIdentityService = new AnonymousIdentityService();
\ No newline at end of file
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { ApiKey, IApiKey } from '../models/ApiKey';
+import { ApiKeyScope } from '../types';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+const KEY_PATTERN = /^msk_([a-z0-9]{10})_([A-Za-z0-9_-]{43})$/;
+
+// Avoid a database write on every request from busy integrations
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ResolvedApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * API Key Service
+ * Issues scoped service keys (msk_<prefix>_<secret>) and stores only their hash
+ */
+class ApiKeyService {
+  /**
+   * Hash a key for storage and comparison
+   */
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Constant-time check of a presented key against a stored hash
+   */
+  private matchesHash(key: string, hash: string): boolean {
+    return crypto.timingSafeEqual(Buffer.from(this.hashKey(key)), Buffer.from(hash));
+  }
+
+  /**
+   * Create a key. The raw key is returned once and never stored.
+   */
+  async create(input: {
+    name: string;
+    scopes: ApiKeyScope[];
+    expiresInDays?: number;
+    createdBy?: string;
+  }): Promise<{ apiKey: IApiKey; key: string }> {
+    const prefix = crypto.randomBytes(8).toString('hex').slice(0, 10);
+    const key = `msk_${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+    let expiresAt: Date | undefined;
+    if (input.expiresInDays) {
+      expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + input.expiresInDays);
+    }
+
+    const apiKey = await ApiKey.create({
+      name: input.name,
+      prefix,
+      keyHash: this.hashKey(key),
+      scopes: [...new Set(input.scopes)],
+      createdBy: input.createdBy,
+      expiresAt,
+    });
+
+    logger.info(`API key created: ${apiKey._id} (${input.name})`);
+    return { apiKey, key };
+  }
+
+  /**
+   * Resolve a presented key, or null if unknown, expired or revoked.
+   * ADMIN_API_KEY acts as a bootstrap key with every scope, and PUBLISH_SECRET
+   * keeps working for scheduled tip publishing.
+   */
+  async verify(key: string, ip?: string): Promise<ResolvedApiKey | null> {
+    if (config.admin.apiKey && this.matchesHash(key, this.hashKey(config.admin.apiKey))) {
+      return { id: 'admin-bootstrap', name: 'admin-bootstrap', scopes: Object.values(ApiKeyScope) };
+    }
+
+    if (this.matchesHash(key, this.hashKey(config.publish.secret))) {
+      return { id: 'publish-secret', name: 'scheduled-job', scopes: [ApiKeyScope.TIPS_PUBLISH] };
+    }
+
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+      return null;
+    }
+
+    const apiKey = await ApiKey.findOne({ prefix: match[1] });
+    if (!apiKey || !apiKey.isActive() || !this.matchesHash(key, apiKey.keyHash)) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date(), lastUsedIp: ip });
+    }
+
+    return {
+      id: String(apiKey._id),
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+    };
+  }
+
+  /**
+   * List keys, newest first
+   */
+  async list(includeRevoked: boolean = false): Promise<IApiKey[]> {
+    const query = includeRevoked ? {} : { revokedAt: { $exists: false } };
+    return ApiKey.find(query).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Revoke a key. Returns false if it does not exist or is already revoked.
+   */
+  async revoke(id: string, revokedBy?: string): Promise<boolean> {
+    const result = await ApiKey.updateOne(
+      { _id: id, revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedBy }
+    );
+    return result.modifiedCount > 0;
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
\ No newline at end of file
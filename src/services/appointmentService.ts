@@ -0,0 +1,440 @@
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { IUser, User } from '../models/User';
+import { AvailabilitySlot, IAvailabilitySlot, SLOT_STEP_MINUTES } from '../models/AvailabilitySlot';
+import { Appointment, IAppointment } from '../models/Appointment';
+import { ChatRoom } from '../models/ChatRoom';
+import { AuditLog } from '../models/AuditLog';
+import { AppointmentStatus } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { streamClient } from './streamClient';
+import { mailService, formatInTimezone } from './mailService';
+import { logger } from '../utils/logger';
+
+const SESSION_CHANNEL_TITLE = 'Counseling session';
+
+const BUCKET_MS = SLOT_STEP_MINUTES * 60 * 1000;
+
+/**
+ * Time buckets a range covers. Two ranges overlap exactly when they share one.
+ */
+const timeBucketsOf = (startsAt: Date, endsAt: Date): number[] => {
+  const buckets: number[] = [];
+  for (let bucket = Math.floor(startsAt.getTime() / BUCKET_MS); bucket * BUCKET_MS < endsAt.getTime(); bucket++) {
+    buckets.push(bucket);
+  }
+  return buckets;
+};
+
+const isDuplicateKey = (error: any) => error?.code === 11000;
+
+const appointmentConflict = () =>
+  new AppError('You already have an appointment at that time', 409, 'APPOINTMENT_CONFLICT');
+
+/**
+ * Appointment Service
+ * Counselors publish availability slots; users book them. A slot is claimed
+ * atomically, so it can only ever hold one appointment. Unique indexes on time
+ * buckets keep a counselor's slots and a client's booked sessions from
+ * overlapping, even under concurrent requests. Times are stored in UTC;
+ * timezones are kept for writing reminders in local time.
+ */
+class AppointmentService {
+  /**
+   * Publish availability. Slots may not overlap the counselor's other slots.
+   */
+  async createSlots(
+    counselorId: string,
+    slots: { startsAt: Date; durationMinutes: number }[],
+    timezone: string
+  ): Promise<IAvailabilitySlot[]> {
+    const ranges = slots
+      .map(({ startsAt, durationMinutes }) => ({
+        startsAt,
+        endsAt: new Date(startsAt.getTime() + durationMinutes * 60 * 1000),
+      }))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+    ranges.forEach((range, i) => {
+      if (i > 0 && range.startsAt < ranges[i - 1].endsAt) {
+        throw new AppError('Slots overlap each other', 409, 'SLOT_OVERLAP', { startsAt: range.startsAt });
+      }
+    });
+
+    const ids = ranges.map(() => new Types.ObjectId());
+    let created: IAvailabilitySlot[];
+    try {
+      created = await AvailabilitySlot.insertMany(ranges.map((range, i) => ({
+        _id: ids[i],
+        counselorId: new Types.ObjectId(counselorId),
+        timezone,
+        ...range,
+        timeBuckets: timeBucketsOf(range.startsAt, range.endsAt),
+      })));
+    } catch (error) {
+      if (!isDuplicateKey(error)) {
+        throw error;
+      }
+      // All or nothing: remove the slots inserted before the clash
+      await AvailabilitySlot.deleteMany({ _id: { $in: ids }, appointmentId: { $exists: false } });
+      throw new AppError('Slot overlaps an existing slot', 409, 'SLOT_OVERLAP');
+    }
+
+    await AuditLog.create({
+      action: 'appointment_slots_created',
+      actorUserId: counselorId,
+      target: `user:${counselorId}`,
+      timestamp: new Date(),
+      meta: { slotIds: created.map((slot) => slot._id), timezone },
+    });
+
+    return created;
+  }
+
+  /**
+   * Open, future slots
+   */
+  async listOpenSlots(filter: { counselorId?: string; from?: Date; to?: Date }): Promise<IAvailabilitySlot[]> {
+    const from = filter.from && filter.from > new Date() ? filter.from : new Date();
+
+    return AvailabilitySlot.find({
+      ...(filter.counselorId && { counselorId: filter.counselorId }),
+      appointmentId: { $exists: false },
+      withdrawnAt: { $exists: false },
+      startsAt: { $gt: from, ...(filter.to && { $lt: filter.to }) },
+    })
+      .sort({ startsAt: 1 })
+      .limit(200);
+  }
+
+  /**
+   * Withdraw an unbooked slot
+   */
+  async withdrawSlot(counselorId: string, slotId: string): Promise<void> {
+    const slot = await AvailabilitySlot.findOneAndUpdate(
+      { _id: slotId, counselorId, appointmentId: { $exists: false }, withdrawnAt: { $exists: false } },
+      { withdrawnAt: new Date(), $unset: { timeBuckets: '' } }
+    );
+    if (!slot) {
+      throw new AppError('Slot not found or already booked', 404, 'SLOT_NOT_FOUND');
+    }
+
+    await AuditLog.create({
+      action: 'appointment_slot_withdrawn',
+      actorUserId: counselorId,
+      target: `user:${counselorId}`,
+      timestamp: new Date(),
+      meta: { slotId },
+    });
+  }
+
+  /**
+   * Claim a free, future slot for an appointment, or null if it was taken
+   */
+  private claimSlot(slotId: string, appointmentId: Types.ObjectId, counselorId?: Types.ObjectId) {
+    return AvailabilitySlot.findOneAndUpdate(
+      {
+        _id: slotId,
+        ...(counselorId && { counselorId }),
+        appointmentId: { $exists: false },
+        withdrawnAt: { $exists: false },
+        startsAt: { $gt: new Date() },
+      },
+      { appointmentId },
+      { new: true }
+    );
+  }
+
+  /**
+   * Free a slot held by an appointment
+   */
+  private releaseSlot(slotId: Types.ObjectId, appointmentId: Types.ObjectId, withdraw: boolean = false) {
+    return AvailabilitySlot.updateOne(
+      { _id: slotId, appointmentId },
+      withdraw
+        ? { $unset: { appointmentId: '', timeBuckets: '' }, withdrawnAt: new Date() }
+        : { $unset: { appointmentId: '' } }
+    );
+  }
+
+  /**
+   * Book a slot and open the private session channel
+   */
+  async book(user: IUser, slotId: string, timezone: string): Promise<IAppointment> {
+    const preview = await AvailabilitySlot.findById(slotId);
+    if (!preview) {
+      throw new AppError('Slot not found', 404, 'SLOT_NOT_FOUND');
+    }
+    if (preview.counselorId.equals(user._id as Types.ObjectId)) {
+      throw new AppError('You cannot book your own slot', 400, 'CANNOT_BOOK_OWN_SLOT');
+    }
+
+    const appointmentId = new Types.ObjectId();
+    const slot = await this.claimSlot(slotId, appointmentId);
+    if (!slot) {
+      throw new AppError('Slot is no longer available', 409, 'SLOT_UNAVAILABLE');
+    }
+
+    const channelId = `appointment-${appointmentId}`;
+    const streamChannelId = `messaging:${channelId}`;
+
+    // Reserve the client's time first; a clash with another booking fails here
+    let appointment: IAppointment;
+    try {
+      appointment = await Appointment.create({
+        _id: appointmentId,
+        userId: user._id,
+        counselorId: slot.counselorId,
+        slotId: slot._id,
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        timezone,
+        counselorTimezone: slot.timezone,
+        streamChannelId,
+        timeBuckets: timeBucketsOf(slot.startsAt, slot.endsAt),
+      });
+    } catch (error) {
+      await this.releaseSlot(slot._id as Types.ObjectId, appointmentId);
+      throw isDuplicateKey(error) ? appointmentConflict() : error;
+    }
+
+    try {
+      const counselor = await User.findById(slot.counselorId);
+      if (!counselor) {
+        throw new AppError('Counselor not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const userId = String(user._id);
+      const counselorId = String(counselor._id);
+
+      await Promise.all([user, counselor].map((participant) =>
+        streamClient.upsertUser(String(participant._id), {
+          name: participant.displayName,
+          image: participant.avatarUrl,
+          role: streamClient.toStreamRole(participant.role),
+        })
+      ));
+      await streamClient.createChannel('messaging', channelId, counselorId, {
+        name: SESSION_CHANNEL_TITLE,
+        members: [counselorId, userId],
+        appointmentId: String(appointmentId),
+      });
+      await ChatRoom.create({
+        streamChannelId,
+        title: SESSION_CHANNEL_TITLE,
+        isPrivate: true,
+        isGroup: false,
+        createdBy: counselor._id,
+        members: new Map([
+          [counselorId, { role: 'owner', joinedAt: new Date() }],
+          [userId, { role: 'member', joinedAt: new Date() }],
+        ]),
+      });
+
+      await AuditLog.create({
+        action: 'appointment_booked',
+        actorUserId: user._id,
+        target: `appointment:${appointmentId}`,
+        timestamp: new Date(),
+        meta: { counselorId, slotId: slot._id, startsAt: slot.startsAt },
+      });
+
+      logger.info(`Appointment ${appointmentId} booked with counselor ${counselorId}`);
+      return appointment;
+    } catch (error) {
+      await Appointment.deleteOne({ _id: appointmentId });
+      await this.releaseSlot(slot._id as Types.ObjectId, appointmentId);
+      throw error;
+    }
+  }
+
+  /**
+   * Load an appointment the user takes part in
+   */
+  async findForParticipant(appointmentId: string, userId: string): Promise<IAppointment> {
+    const appointment = await Appointment.findOne({
+      _id: appointmentId,
+      $or: [{ userId }, { counselorId: userId }],
+    });
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404, 'APPOINTMENT_NOT_FOUND');
+    }
+    return appointment;
+  }
+
+  /**
+   * Upcoming appointments as client or counselor
+   */
+  async listUpcoming(userId: string): Promise<IAppointment[]> {
+    return Appointment.find({
+      $or: [{ userId }, { counselorId: userId }],
+      status: AppointmentStatus.BOOKED,
+      endsAt: { $gt: new Date() },
+    }).sort({ startsAt: 1 });
+  }
+
+  /**
+   * Only booked sessions that haven't started can change
+   */
+  private assertChangeable(appointment: IAppointment) {
+    if (appointment.status !== AppointmentStatus.BOOKED || appointment.startsAt <= new Date()) {
+      throw new AppError('Appointment can no longer be changed', 409, 'APPOINTMENT_NOT_CHANGEABLE', {
+        status: appointment.status,
+      });
+    }
+  }
+
+  /**
+   * Move an appointment to another slot of the same counselor
+   */
+  async reschedule(appointment: IAppointment, userId: string, slotId: string): Promise<IAppointment> {
+    this.assertChangeable(appointment);
+    if (!appointment.userId.equals(userId)) {
+      throw new AppError('Only the client can reschedule', 403, 'FORBIDDEN');
+    }
+
+    const preview = await AvailabilitySlot.findOne({ _id: slotId, counselorId: appointment.counselorId });
+    if (!preview) {
+      throw new AppError('Slot not found', 404, 'SLOT_NOT_FOUND');
+    }
+
+    const slot = await this.claimSlot(slotId, appointment._id as Types.ObjectId, appointment.counselorId);
+    if (!slot) {
+      throw new AppError('Slot is no longer available', 409, 'SLOT_UNAVAILABLE');
+    }
+
+    const previous = { slotId: appointment.slotId, startsAt: appointment.startsAt };
+    appointment.slotId = slot._id as Types.ObjectId;
+    appointment.startsAt = slot.startsAt;
+    appointment.endsAt = slot.endsAt;
+    appointment.counselorTimezone = slot.timezone;
+    appointment.reminderSentAt = undefined;
+    appointment.timeBuckets = timeBucketsOf(slot.startsAt, slot.endsAt);
+    try {
+      await appointment.save();
+    } catch (error) {
+      await this.releaseSlot(slot._id as Types.ObjectId, appointment._id as Types.ObjectId);
+      throw isDuplicateKey(error) ? appointmentConflict() : error;
+    }
+    await this.releaseSlot(previous.slotId, appointment._id as Types.ObjectId);
+
+    await AuditLog.create({
+      action: 'appointment_rescheduled',
+      actorUserId: userId,
+      target: `appointment:${appointment._id}`,
+      timestamp: new Date(),
+      meta: {
+        fromSlotId: previous.slotId,
+        fromStartsAt: previous.startsAt,
+        toSlotId: slot._id,
+        toStartsAt: slot.startsAt,
+      },
+    });
+
+    this.notifyChannel(
+      appointment,
+      `Session moved to ${formatInTimezone(slot.startsAt, slot.timezone)}.`
+    );
+
+    return appointment;
+  }
+
+  /**
+   * Cancel an appointment. A counselor cancelling also withdraws the slot;
+   * a client cancelling frees it for others.
+   */
+  async cancel(appointment: IAppointment, userId: string, reason?: string): Promise<IAppointment> {
+    this.assertChangeable(appointment);
+    const byCounselor = appointment.counselorId.equals(userId);
+
+    appointment.status = AppointmentStatus.CANCELLED;
+    appointment.cancelledAt = new Date();
+    appointment.cancelledBy = new Types.ObjectId(userId);
+    appointment.cancelReason = reason;
+    // Frees the client's time
+    appointment.timeBuckets = undefined;
+    await appointment.save();
+    await this.releaseSlot(appointment.slotId, appointment._id as Types.ObjectId, byCounselor);
+
+    await AuditLog.create({
+      action: 'appointment_cancelled',
+      actorUserId: userId,
+      target: `appointment:${appointment._id}`,
+      timestamp: new Date(),
+      meta: { by: byCounselor ? 'counselor' : 'client', reason },
+    });
+
+    // Tell the other side
+    const other = await User.findById(byCounselor ? appointment.userId : appointment.counselorId);
+    if (other?.email) {
+      mailService
+        .sendAppointmentCancelledEmail(
+          other.email,
+          other.displayName,
+          appointment.startsAt,
+          byCounselor ? appointment.timezone : appointment.counselorTimezone
+        )
+        .catch((error) => logger.error('Failed to send cancellation email:', error));
+    }
+    this.notifyChannel(appointment, 'This session was cancelled.');
+
+    return appointment;
+  }
+
+  /**
+   * Send reminders for sessions starting within the reminder window.
+   * Each appointment is claimed first, so reminders go out once.
+   */
+  async sendDueReminders(now: Date = new Date()): Promise<number> {
+    const windowEnd = new Date(now.getTime() + config.appointments.reminderMinutes * 60 * 1000);
+    const due = await Appointment.find({
+      status: AppointmentStatus.BOOKED,
+      reminderSentAt: { $exists: false },
+      startsAt: { $gt: now, $lte: windowEnd },
+    });
+
+    let sent = 0;
+    for (const appointment of due) {
+      const claimed = await Appointment.updateOne(
+        { _id: appointment._id, reminderSentAt: { $exists: false } },
+        { reminderSentAt: now }
+      );
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+
+      const [client, counselor] = await Promise.all([
+        User.findById(appointment.userId),
+        User.findById(appointment.counselorId),
+      ]);
+      const recipients = [
+        { user: client, timezone: appointment.timezone },
+        { user: counselor, timezone: appointment.counselorTimezone },
+      ];
+      for (const { user, timezone } of recipients) {
+        if (user?.email) {
+          await mailService
+            .sendAppointmentReminderEmail(user.email, user.displayName, appointment.startsAt, timezone)
+            .catch((error) => logger.error('Failed to send appointment reminder:', error));
+        }
+      }
+      this.notifyChannel(appointment, 'Your session starts soon.');
+      sent++;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Post a system message in the session channel (best effort)
+   */
+  private notifyChannel(appointment: IAppointment, text: string) {
+    const [channelType, channelId] = appointment.streamChannelId.split(':');
+    streamClient
+      .sendSystemMessage(channelType, channelId, text)
+      .catch((error) => logger.error('Failed to post appointment message:', error));
+  }
+}
+
+// Export singleton instance
+export const appointmentService = new AppointmentService();
\ No newline at end of file
@@ -1,7 +1,9 @@
+import crypto, { KeyObject } from 'crypto';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { config } from '../config/env';
 import { JWTPayload } from '../types';
+import { keyStore } from './keyStore';
 import { logger } from '../utils/logger';
 
 /**
@@ -36,21 +38,52 @@ class AuthService {
     }
   }
 
+  /**
+   * Generate a human-friendly recovery code (e.g. K7Q2M-XW4PD-9HJ3R-T6NVA)
+   */
+  generateRecoveryCode(): string {
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    const bytes = crypto.randomBytes(20);
+    const chars = Array.from(bytes, (byte) => alphabet[byte % alphabet.length]);
+    return chars.join('').match(/.{5}/g)!.join('-');
+  }
+
+  /**
+   * Hash a high-entropy secret (recovery code, device id) for lookup.
+   * Input is normalized so codes can be typed with any casing or separators.
+   */
+  hashSecret(secret: string): string {
+    const normalized = secret.replace(/[\s-]/g, '').toUpperCase();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
   /**
    * Generate access token
    */
-  generateAccessToken(payload: Omit<JWTPayload, 'type'>): string {
+  generateAccessToken(payload: Omit<JWTPayload, 'type'>, expiresIn: string | number = config.jwt.accessExpiry): string {
     try {
       const tokenPayload: JWTPayload = {
         ...payload,
         type: 'access',
       };
 
-      return (jwt.sign as any)(tokenPayload, config.jwt.secret, {
-        expiresIn: config.jwt.accessExpiry,
+      const options = {
+        expiresIn,
         issuer: 'mindsupport-api',
         audience: 'mindsupport-client',
-      });
+      };
+
+      // Asymmetric signing lets other services verify tokens via the JWKS endpoint
+      const key = keyStore.getSigningKey();
+      if (key) {
+        return (jwt.sign as any)(tokenPayload, key.privateKey, {
+          ...options,
+          algorithm: key.alg,
+          keyid: key.kid,
+        });
+      }
+
+      return (jwt.sign as any)(tokenPayload, config.jwt.secret, options);
     } catch (error) {
       logger.error('Error generating access token:', error);
       throw new Error('Failed to generate access token');
@@ -83,9 +116,11 @@ class AuthService {
    */
   verifyAccessToken(token: string): JWTPayload {
     try {
-      const decoded = jwt.verify(token, config.jwt.secret, {
+      const { key, algorithms } = this.resolveAccessKey(token);
+      const decoded = jwt.verify(token, key, {
         issuer: 'mindsupport-api',
         audience: 'mindsupport-client',
+        algorithms,
       }) as JWTPayload;
 
       if (decoded.type !== 'access') {
@@ -103,6 +138,26 @@ class AuthService {
     }
   }
 
+  /**
+   * Pick the key for an access token: by kid for RS256/ES256, the shared secret otherwise.
+   * The algorithm is pinned to the key so a token cannot choose its own.
+   */
+  private resolveAccessKey(token: string): { key: KeyObject | string; algorithms: jwt.Algorithm[] } {
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    if (kid) {
+      const key = keyStore.getVerificationKey(kid);
+      if (!key) {
+        throw new jwt.JsonWebTokenError('Unknown signing key');
+      }
+      return { key: key.publicKey, algorithms: [key.alg] };
+    }
+
+    if (config.jwt.activeKid && !config.jwt.acceptHs256) {
+      throw new jwt.JsonWebTokenError('HS256 tokens are no longer accepted');
+    }
+    return { key: config.jwt.secret, algorithms: ['HS256'] };
+  }
+
   /**
    * Verify refresh token
    */
@@ -128,6 +183,47 @@ class AuthService {
     }
   }
 
+  /**
+   * Generate a short-lived token proving the password step of a 2FA login
+   */
+  generateTwoFactorChallengeToken(userId: string): string {
+    const tokenPayload: Pick<JWTPayload, 'userId' | 'type'> = {
+      userId,
+      type: 'mfa_challenge',
+    };
+
+    return (jwt.sign as any)(tokenPayload, config.jwt.secret, {
+      expiresIn: '5m',
+      issuer: 'mindsupport-api',
+      audience: 'mindsupport-mfa',
+    });
+  }
+
+  /**
+   * Verify a 2FA challenge token
+   */
+  verifyTwoFactorChallengeToken(token: string): Pick<JWTPayload, 'userId' | 'type'> {
+    try {
+      const decoded = jwt.verify(token, config.jwt.secret, {
+        issuer: 'mindsupport-api',
+        audience: 'mindsupport-mfa',
+      }) as JWTPayload;
+
+      if (decoded.type !== 'mfa_challenge') {
+        throw new Error('Invalid token type');
+      }
+
+      return decoded;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new Error('Challenge expired, please log in again');
+      } else if (error instanceof jwt.JsonWebTokenError) {
+        throw new Error('Invalid challenge token');
+      }
+      throw error;
+    }
+  }
+
   /**
    * Decode token without verification (for debugging)
    */
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { ChannelInvite, IChannelInvite } from '../models/ChannelInvite';
+import { logger } from '../utils/logger';
+
+/**
+ * Channel Invite Service
+ * Expiring, limited-use invite tokens for private rooms. Only the token's
+ * hash is stored.
+ */
+class ChannelInviteService {
+  /**
+   * Hash a token for storage and lookup
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Create an invite and return the raw token with the stored invite
+   */
+  async create(
+    streamChannelId: string,
+    createdBy: string,
+    options: { maxUses: number; expiresInHours: number }
+  ): Promise<{ token: string; invite: IChannelInvite }> {
+    const token = crypto.randomBytes(24).toString('base64url');
+
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + options.expiresInHours);
+
+    const invite = await ChannelInvite.create({
+      streamChannelId,
+      tokenHash: this.hashToken(token),
+      createdBy,
+      maxUses: options.maxUses,
+      expiresAt,
+    });
+
+    logger.info(`Invite ${invite._id} created for ${streamChannelId} by user ${createdBy}`);
+    return { token, invite };
+  }
+
+  /**
+   * Filter for an invite that can still be used
+   */
+  private usable(token: string, streamChannelId?: string) {
+    return {
+      tokenHash: this.hashToken(token),
+      ...(streamChannelId && { streamChannelId }),
+      expiresAt: { $gt: new Date() },
+      $expr: { $lt: ['$uses', '$maxUses'] },
+    };
+  }
+
+  /**
+   * Look up a usable invite without using it up
+   */
+  async find(token: string): Promise<IChannelInvite | null> {
+    return ChannelInvite.findOne(this.usable(token));
+  }
+
+  /**
+   * Use up one redemption of an invite. Returns null if it is unknown,
+   * expired, used up or (when given) for a different channel.
+   */
+  async redeem(token: string, streamChannelId?: string): Promise<IChannelInvite | null> {
+    return ChannelInvite.findOneAndUpdate(
+      this.usable(token, streamChannelId),
+      { $inc: { uses: 1 } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Give back a redemption that could not be used
+   */
+  async release(invite: IChannelInvite): Promise<void> {
+    await ChannelInvite.updateOne({ _id: invite._id, uses: { $gt: 0 } }, { $inc: { uses: -1 } });
+  }
+}
+
+// Export singleton instance
+export const channelInviteService = new ChannelInviteService();
\ No newline at end of file
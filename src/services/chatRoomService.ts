@@ -0,0 +1,249 @@
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { ChatRoom, ChatRoomRole, IChatRoom, SUSPENDED_FLAG_COUNT } from '../models/ChatRoom';
+import { EphemeralMapping } from '../models/EphemeralMapping';
+import { User } from '../models/User';
+import { Permission } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { streamClient } from './streamClient';
+
+// Higher rank outranks lower in a room
+const ROLE_RANK: Record<ChatRoomRole, number> = {
+  member: 0,
+  moderator: 1,
+  owner: 2,
+};
+
+export type ChannelSort = 'recent' | 'members';
+
+export interface ChannelSummary {
+  streamChannelId: string;
+  title: string;
+  tags: string[];
+  isGroup: boolean;
+  memberCount: number;
+  lastMessageAt?: Date;
+  createdAt: Date;
+}
+
+// Field each sort orders by (descending), computed in the pipeline
+const SORT_FIELDS: Record<ChannelSort, 'activityAt' | 'memberCount'> = {
+  recent: 'activityAt',
+  members: 'memberCount',
+};
+
+// Stream channel roles mirroring room roles; owners moderate in Stream too
+const STREAM_CHANNEL_ROLES: Record<ChatRoomRole, string> = {
+  member: 'channel_member',
+  moderator: 'channel_moderator',
+  owner: 'channel_moderator',
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Chat Room Service
+ * Membership of rooms across a user's real and anonymous (ephemeral)
+ * identities, kept consistent between Stream and the ChatRoom document
+ */
+class ChatRoomService {
+  /**
+   * Split a `type:id` Stream channel id
+   */
+  parseChannelId(streamChannelId: string): { channelType: string; channelId: string } {
+    const [channelType, channelId] = streamChannelId.split(':');
+    if (!channelType || !channelId) {
+      throw new AppError('Invalid channel ID format', 400, 'INVALID_CHANNEL_ID');
+    }
+    return { channelType, channelId };
+  }
+
+  /**
+   * Load a room or throw 404
+   */
+  async findRoom(streamChannelId: string): Promise<IChatRoom> {
+    const room = await ChatRoom.findOne({ streamChannelId });
+    if (!room) {
+      throw new AppError('Channel not found', 404, 'CHANNEL_NOT_FOUND');
+    }
+    return room;
+  }
+
+  /**
+   * Every identity of a user that is a member of the room
+   */
+  async memberIdentities(room: IChatRoom, userId: string): Promise<string[]> {
+    // Mappings expire, handles don't; either proves the identity is the user's
+    const [mappings, user] = await Promise.all([
+      EphemeralMapping.find({ realUserId: userId }).select('ephemeralId'),
+      User.findById(userId).select('anonymousHandles'),
+    ]);
+    const ids = new Set([
+      userId,
+      ...mappings.map((m) => m.ephemeralId),
+      ...(user?.anonymousHandles ?? []).map((h) => h.ephemeralId),
+    ]);
+    return [...ids].filter((id) => room.members.has(id));
+  }
+
+  /**
+   * Highest role a set of identities holds in the room
+   */
+  highestRole(room: IChatRoom, memberIds: string[]): ChatRoomRole | null {
+    return memberIds.reduce<ChatRoomRole | null>((highest, id) => {
+      const role = room.members.get(id)?.role;
+      if (!role) {
+        return highest;
+      }
+      return !highest || ROLE_RANK[role] > ROLE_RANK[highest] ? role : highest;
+    }, null);
+  }
+
+  /**
+   * The caller's identities in the room and the role they act with.
+   * Holders of channels.suspend act as moderators in rooms they don't moderate.
+   */
+  async resolveActor(
+    room: IChatRoom,
+    user: { id: string; permissions: Permission[] }
+  ): Promise<{ memberIds: string[]; role: ChatRoomRole | null }> {
+    const memberIds = await this.memberIdentities(room, user.id);
+    const role = this.highestRole(room, memberIds);
+
+    if (user.permissions.includes(Permission.CHANNELS_SUSPEND) && (!role || role === 'member')) {
+      return { memberIds, role: 'moderator' };
+    }
+    return { memberIds, role };
+  }
+
+  /**
+   * Whether a role may act on a member holding another role
+   */
+  outranks(actorRole: ChatRoomRole, targetRole: ChatRoomRole): boolean {
+    return ROLE_RANK[actorRole] > ROLE_RANK[targetRole];
+  }
+
+  /**
+   * List public rooms for discovery, newest activity or largest first.
+   * The cursor is opaque to clients: the last item's sort value and id.
+   */
+  async discover(options: {
+    tags?: string[];
+    q?: string;
+    sort: ChannelSort;
+    limit: number;
+    cursor?: string;
+  }): Promise<{ items: ChannelSummary[]; nextCursor: string | null }> {
+    const sortField = SORT_FIELDS[options.sort];
+    const after = options.cursor ? this.decodeCursor(options.cursor, options.sort) : null;
+
+    const match: Record<string, any> = {
+      isPrivate: false,
+      flaggedCount: { $lt: Math.min(config.channelDiscovery.maxFlaggedCount, SUSPENDED_FLAG_COUNT) },
+    };
+    if (options.tags?.length) {
+      match.tags = { $all: options.tags };
+    }
+    if (options.q) {
+      match.title = { $regex: escapeRegex(options.q), $options: 'i' };
+    }
+
+    const rooms = await ChatRoom.aggregate([
+      { $match: match },
+      {
+        $addFields: {
+          memberCount: { $size: { $objectToArray: { $ifNull: ['$members', {}] } } },
+          // Rooms without messages yet sort by when they were created
+          activityAt: { $ifNull: ['$lastMessageAt', '$createdAt'] },
+        },
+      },
+      ...(after
+        ? [{
+          $match: {
+            $or: [
+              { [sortField]: { $lt: after.value } },
+              { [sortField]: after.value, _id: { $lt: after.id } },
+            ],
+          },
+        }]
+        : []),
+      { $sort: { [sortField]: -1, _id: -1 } },
+      { $limit: options.limit + 1 },
+    ]);
+
+    const page = rooms.slice(0, options.limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((room) => ({
+        streamChannelId: room.streamChannelId,
+        title: room.title,
+        tags: room.tags,
+        isGroup: room.isGroup,
+        memberCount: room.memberCount,
+        lastMessageAt: room.lastMessageAt,
+        createdAt: room.createdAt,
+      })),
+      nextCursor: rooms.length > options.limit
+        ? Buffer.from(JSON.stringify([last[sortField], String(last._id)])).toString('base64url')
+        : null,
+    };
+  }
+
+  private decodeCursor(cursor: string, sort: ChannelSort): { value: Date | number; id: Types.ObjectId } {
+    try {
+      const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+      const decoded = sort === 'recent' ? new Date(value) : Number(value);
+      if (typeof decoded === 'number' ? !Number.isInteger(decoded) : isNaN(decoded.getTime())) {
+        throw new Error('Bad cursor value');
+      }
+      return { value: decoded, id: new Types.ObjectId(id) };
+    } catch {
+      throw new AppError('Invalid cursor', 400, 'INVALID_CURSOR');
+    }
+  }
+
+  /**
+   * Change member roles in Stream, then in the room document
+   */
+  async setRoles(room: IChatRoom, roles: Record<string, ChatRoomRole>): Promise<void> {
+    const { channelType, channelId } = this.parseChannelId(room.streamChannelId);
+    const entries = Object.entries(roles);
+
+    await streamClient.setChannelRoles(
+      channelType,
+      channelId,
+      entries.map(([userId, role]) => ({ userId, role: STREAM_CHANNEL_ROLES[role] }))
+    );
+
+    await ChatRoom.updateOne(
+      { _id: room._id },
+      { $set: Object.fromEntries(entries.map(([id, role]) => [`members.${id}.role`, role])) }
+    );
+    entries.forEach(([id, role]) => {
+      const member = room.members.get(id);
+      if (member) {
+        member.role = role;
+      }
+    });
+  }
+
+  /**
+   * Remove members from the Stream channel, then from the room document.
+   * Stream goes first so a failure there leaves both sides unchanged.
+   */
+  async removeMembers(room: IChatRoom, memberIds: string[]): Promise<void> {
+    const { channelType, channelId } = this.parseChannelId(room.streamChannelId);
+
+    await streamClient.removeMembers(channelType, channelId, memberIds);
+
+    await ChatRoom.updateOne(
+      { _id: room._id },
+      { $unset: Object.fromEntries(memberIds.map((id) => [`members.${id}`, ''])) }
+    );
+    memberIds.forEach((id) => room.members.delete(id));
+  }
+}
+
+// Export singleton instance
+export const chatRoomService = new ChatRoomService();
\ No newline at end of file
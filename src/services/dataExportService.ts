@@ -0,0 +1,237 @@
+import { Readable } from 'stream';
+import { config } from '../config/env';
+import { DataExport, IDataExport } from '../models/DataExport';
+import { User } from '../models/User';
+import { ChatRoom } from '../models/ChatRoom';
+import { Report } from '../models/Report';
+import { AuditLog } from '../models/AuditLog';
+import { MatchRequest } from '../models/MatchRequest';
+import { Appointment } from '../models/Appointment';
+import { DataExportStatus } from '../types';
+import { exportArchiveStore } from './exportArchiveStore';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const ARCHIVE_FORMAT_VERSION = 1;
+
+// A build that hasn't finished by now was interrupted (e.g. by a restart)
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+// Builds started before an export is marked failed
+const MAX_BUILD_ATTEMPTS = 3;
+
+/**
+ * Exports that may be (re)built: pending, or interrupted with attempts left
+ */
+const buildable = (staleBefore: Date) => ({
+  $or: [
+    { status: DataExportStatus.PENDING },
+    { status: DataExportStatus.PROCESSING, updatedAt: { $lt: staleBefore } },
+  ],
+  attempts: { $lt: MAX_BUILD_ATTEMPTS },
+});
+
+/**
+ * Data Export Service
+ * Builds machine-readable archives of everything held about a user
+ * (data portability). Archives are built in the background, stored in
+ * GridFS and expire.
+ */
+class DataExportService {
+  /**
+   * Return the user's current export, starting a new one if there is none
+   */
+  async request(userId: string): Promise<IDataExport> {
+    const existing = await DataExport.findOne({
+      userId,
+      status: { $ne: DataExportStatus.FAILED },
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: -1 });
+
+    if (existing) {
+      return existing;
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + config.dataExport.ttlHours);
+
+    const dataExport = await DataExport.create({ userId, expiresAt });
+
+    await AuditLog.create({
+      action: 'data_export_requested',
+      actorUserId: userId,
+      target: `user:${userId}`,
+      timestamp: new Date(),
+      meta: { exportId: dataExport._id },
+    });
+
+    // Start right away; the scheduled job picks it up if this process dies
+    this.build(String(dataExport._id)).catch((error) => {
+      logger.error(`Data export ${dataExport._id} failed:`, error);
+    });
+
+    return dataExport;
+  }
+
+  /**
+   * Collect everything held about a user
+   */
+  async collect(userId: string): Promise<Record<string, unknown>> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const memberIds = [String(user._id), ...user.anonymousHandles.map((h) => h.ephemeralId)];
+
+    const [rooms, reports, auditEntries, matchRequests, appointments] = await Promise.all([
+      ChatRoom.find({ $or: memberIds.map((id) => ({ [`members.${id}`]: { $exists: true } })) }),
+      Report.find({ reporterUserId: user._id })
+        .select('targetType targetId reason status moderatorComment createdAt resolvedAt')
+        .sort({ createdAt: -1 })
+        .lean(),
+      AuditLog.find({ actorUserId: user._id })
+        .select('action target timestamp meta')
+        .sort({ timestamp: -1 })
+        .lean(),
+      MatchRequest.find({ userId: user._id })
+        .select('tags language partnerType anonymousHandle status streamChannelId createdAt matchedAt')
+        .sort({ createdAt: -1 })
+        .lean(),
+      Appointment.find({ $or: [{ userId: user._id }, { counselorId: user._id }] })
+        .select('userId counselorId startsAt endsAt timezone status streamChannelId cancelledAt cancelReason createdAt')
+        .sort({ startsAt: -1 })
+        .lean(),
+    ]);
+
+    const { anonymousHandles, ...profile } = user.toJSON() as Record<string, any>;
+
+    return {
+      format: 'mindsupport-export',
+      version: ARCHIVE_FORMAT_VERSION,
+      generatedAt: new Date().toISOString(),
+      profile,
+      anonymousHandles,
+      channels: rooms.flatMap((room) =>
+        memberIds
+          .filter((id) => room.members.has(id))
+          .map((id) => ({
+            streamChannelId: room.streamChannelId,
+            title: room.title,
+            isPrivate: room.isPrivate,
+            isGroup: room.isGroup,
+            memberId: id,
+            role: room.members.get(id)!.role,
+            joinedAt: room.members.get(id)!.joinedAt,
+          }))
+      ),
+      reports: reports.map(({ _id, ...report }) => ({ id: String(_id), ...report })),
+      auditLog: auditEntries.map(({ _id, ...entry }) => ({ id: String(_id), ...entry })),
+      matchRequests: matchRequests.map(({ _id, ...request }) => ({ id: String(_id), ...request })),
+      appointments: appointments.map(({ _id, ...appointment }) => ({ id: String(_id), ...appointment })),
+    };
+  }
+
+  /**
+   * Build a pending export. Returns false if another worker already claimed it.
+   */
+  async build(exportId: string): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+    const dataExport = await DataExport.findOneAndUpdate(
+      { _id: exportId, ...buildable(staleBefore) },
+      { status: DataExportStatus.PROCESSING, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (!dataExport) {
+      return false;
+    }
+
+    try {
+      const archive = JSON.stringify(await this.collect(String(dataExport.userId)));
+      const archiveFileId = await exportArchiveStore.save(
+        String(dataExport._id),
+        String(dataExport.userId),
+        archive,
+        dataExport.expiresAt
+      );
+
+      await DataExport.updateOne({ _id: dataExport._id }, {
+        status: DataExportStatus.READY,
+        archiveFileId,
+        sizeBytes: Buffer.byteLength(archive),
+        completedAt: new Date(),
+      });
+
+      logger.info(`Data export ready: ${dataExport._id}`);
+    } catch (error: any) {
+      await DataExport.updateOne({ _id: dataExport._id }, {
+        status: DataExportStatus.FAILED,
+        error: error?.message || 'Export failed',
+      });
+      throw error;
+    }
+
+    return true;
+  }
+
+  /**
+   * Build exports left pending or interrupted. Exports interrupted on every
+   * attempt (e.g. the process ran out of memory) are marked failed.
+   */
+  async processPending(): Promise<number> {
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+
+    await DataExport.updateMany(
+      {
+        status: DataExportStatus.PROCESSING,
+        updatedAt: { $lt: staleBefore },
+        attempts: { $gte: MAX_BUILD_ATTEMPTS },
+      },
+      { status: DataExportStatus.FAILED, error: `Export did not finish in ${MAX_BUILD_ATTEMPTS} attempts` }
+    );
+
+    const pending = await DataExport.find(buildable(staleBefore)).select('_id');
+
+    let built = 0;
+    for (const dataExport of pending) {
+      try {
+        if (await this.build(String(dataExport._id))) {
+          built++;
+        }
+      } catch (error) {
+        logger.error(`Data export ${dataExport._id} failed:`, error);
+      }
+    }
+
+    return built;
+  }
+
+  /**
+   * Remove archives of expired exports
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    return exportArchiveStore.deleteExpired(now);
+  }
+
+  /**
+   * Open a finished archive belonging to the user
+   */
+  async getArchive(userId: string, exportId: string): Promise<{ dataExport: IDataExport; archive: Readable }> {
+    const dataExport = await DataExport.findOne({ _id: exportId, userId });
+
+    if (!dataExport || dataExport.expiresAt <= new Date()) {
+      throw new AppError('Export not found or expired', 404, 'EXPORT_NOT_FOUND');
+    }
+
+    if (dataExport.status !== DataExportStatus.READY || !dataExport.archiveFileId) {
+      throw new AppError('Export is not ready yet', 409, 'EXPORT_NOT_READY', {
+        status: dataExport.status,
+      });
+    }
+
+    return { dataExport, archive: exportArchiveStore.open(dataExport.archiveFileId) };
+  }
+}
+
+// Export singleton instance
+export const dataExportService = new DataExportService();
\ No newline at end of file
@@ -0,0 +1,67 @@
+import mongoose, { Types } from 'mongoose';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { logger } from '../utils/logger';
+
+const BUCKET_NAME = 'dataexports';
+
+/**
+ * Export Archive Store
+ * Keeps data export archives in GridFS, outside the DataExport document, so
+ * their size isn't bound by the 16 MB document limit. Files carry the owner
+ * and expiry in their metadata for cleanup.
+ */
+class ExportArchiveStore {
+  private bucket() {
+    return new mongoose.mongo.GridFSBucket(mongoose.connection.db!, { bucketName: BUCKET_NAME });
+  }
+
+  /**
+   * Store an archive and return its file id
+   */
+  async save(exportId: string, userId: string, archive: string, expiresAt: Date): Promise<Types.ObjectId> {
+    const upload = this.bucket().openUploadStream(`${exportId}.json`, {
+      metadata: { exportId, userId, expiresAt },
+    });
+    await pipeline(Readable.from([Buffer.from(archive)]), upload);
+    return upload.id as Types.ObjectId;
+  }
+
+  /**
+   * Stream a stored archive
+   */
+  open(fileId: Types.ObjectId): Readable {
+    return this.bucket().openDownloadStream(fileId);
+  }
+
+  /**
+   * Delete every archive of a user
+   */
+  async deleteForUser(userId: string): Promise<number> {
+    return this.deleteWhere({ 'metadata.userId': userId });
+  }
+
+  /**
+   * Delete archives past their expiry (their DataExport is removed by its TTL index)
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    return this.deleteWhere({ 'metadata.expiresAt': { $lte: now } });
+  }
+
+  private async deleteWhere(filter: Record<string, unknown>): Promise<number> {
+    const bucket = this.bucket();
+    const files = await bucket.find(filter).project({ _id: 1 }).toArray();
+
+    for (const file of files) {
+      await bucket.delete(file._id);
+    }
+
+    if (files.length > 0) {
+      logger.info(`Deleted ${files.length} data export archive(s)`);
+    }
+    return files.length;
+  }
+}
+
+// Export singleton instance
+export const exportArchiveStore = new ExportArchiveStore();
\ No newline at end of file
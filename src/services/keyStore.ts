@@ -0,0 +1,133 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export interface JwtKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  publicKey: KeyObject;
+  privateKey?: KeyObject;
+}
+
+const KID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Key Store
+ * Loads RS256/ES256 keys from JWT_KEYS_DIR, identified by kid (the file name).
+ *   <kid>.pem      private key - can sign and verify
+ *   <kid>.pub.pem  public key  - verify only (retired keys kept during rotation)
+ */
+class KeyStore {
+  private keys: Map<string, JwtKey> | null = null;
+
+  /**
+   * Work out the JWT algorithm from the key type
+   */
+  private algorithmFor(key: KeyObject): SigningAlgorithm {
+    if (key.asymmetricKeyType === 'rsa') {
+      return 'RS256';
+    }
+    if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+      return 'ES256';
+    }
+    throw new Error('Unsupported key type (use RSA or EC P-256)');
+  }
+
+  /**
+   * Read all keys from disk
+   */
+  private load(): Map<string, JwtKey> {
+    const keys = new Map<string, JwtKey>();
+    const dir = path.resolve(config.jwt.keysDir);
+
+    if (!fs.existsSync(dir)) {
+      return keys;
+    }
+
+    for (const file of fs.readdirSync(dir).sort()) {
+      const isPublic = file.endsWith('.pub.pem');
+      if (!file.endsWith('.pem')) {
+        continue;
+      }
+
+      const kid = file.slice(0, -(isPublic ? '.pub.pem' : '.pem').length);
+      if (!KID_PATTERN.test(kid) || keys.has(kid)) {
+        continue;
+      }
+
+      try {
+        const pem = fs.readFileSync(path.join(dir, file), 'utf8');
+        const privateKey = isPublic ? undefined : crypto.createPrivateKey(pem);
+        const publicKey = privateKey ? crypto.createPublicKey(privateKey) : crypto.createPublicKey(pem);
+
+        keys.set(kid, { kid, alg: this.algorithmFor(publicKey), publicKey, privateKey });
+      } catch (error) {
+        logger.error(`Failed to load JWT key ${file}:`, error);
+      }
+    }
+
+    logger.info(`Loaded ${keys.size} JWT signing key(s)`);
+    return keys;
+  }
+
+  /**
+   * All known keys, loaded on first use
+   */
+  private all(): Map<string, JwtKey> {
+    if (!this.keys) {
+      this.keys = this.load();
+    }
+    return this.keys;
+  }
+
+  /**
+   * Re-read keys from disk (after a rotation)
+   */
+  reload(): void {
+    this.keys = this.load();
+  }
+
+  /**
+   * Key used to sign new access tokens, or null when HS256 is in use
+   */
+  getSigningKey(): JwtKey | null {
+    const kid = config.jwt.activeKid;
+    if (!kid) {
+      return null;
+    }
+
+    const key = this.all().get(kid);
+    if (!key?.privateKey) {
+      throw new Error(`Active JWT key "${kid}" not found or has no private key`);
+    }
+    return key;
+  }
+
+  /**
+   * Key used to verify a token with the given kid
+   */
+  getVerificationKey(kid: string): JwtKey | undefined {
+    return this.all().get(kid);
+  }
+
+  /**
+   * Public keys as a JSON Web Key Set
+   */
+  getJwks(): { keys: Record<string, unknown>[] } {
+    return {
+      keys: [...this.all().values()].map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      })),
+    };
+  }
+}
+
+// Export singleton instance
+export const keyStore = new KeyStore();
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { config } from '../config/env';
+import { User } from '../models/User';
+import { logger } from '../utils/logger';
+
+/**
+ * Last Seen Tracker
+ * Collects activity in memory and writes lastSeenAt in one bulk write per
+ * interval, so each user costs at most one write per interval.
+ */
+class LastSeenTracker {
+  private pending: Map<string, Date> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Record activity for a user
+   */
+  touch(userId: string, at: Date = new Date()): void {
+    this.pending.set(userId, at);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.flush().catch((error) => logger.error('Failed to flush lastSeenAt:', error));
+      }, config.lastSeen.flushIntervalSeconds * 1000);
+      // Don't keep the process alive just for this
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Write all pending lastSeenAt values
+   */
+  async flush(): Promise<number> {
+    if (this.pending.size === 0) {
+      return 0;
+    }
+
+    const batch = [...this.pending.entries()];
+    this.pending.clear();
+
+    await User.bulkWrite(
+      batch.map(([userId, at]) => ({
+        updateOne: {
+          filter: { _id: userId },
+          // Never move lastSeenAt backwards (e.g. after a login wrote it directly)
+          update: { $max: { lastSeenAt: at } },
+        },
+      })),
+      { ordered: false }
+    );
+
+    return batch.length;
+  }
+
+  /**
+   * Flush and stop the timer (on shutdown)
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+}
+
+// Export singleton instance
+export const lastSeenTracker = new LastSeenTracker();
\ No newline at end of file
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { rateLimiter } from './rateLimiter';
+import { mailService } from './mailService';
+import { AuditLog } from '../models/AuditLog';
+import { IUser } from '../models/User';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Login Attempt Service
+ * Tracks failed logins per account (independent of IP) with progressive
+ * delays and a temporary lockout. Counters live in the rate limiter store
+ * (Redis or in-memory).
+ */
+class LoginAttemptService {
+  /**
+   * Store keys are derived from a hash so raw emails never reach Redis
+   */
+  private keys(account: string) {
+    const id = crypto.createHash('sha256').update(account.trim().toLowerCase()).digest('hex');
+    return {
+      failures: `login:failures:${id}`,
+      delay: `login:delay:${id}`,
+      lock: `login:lock:${id}`,
+    };
+  }
+
+  /**
+   * Throw if the account is locked or must wait before the next attempt
+   */
+  async assertCanAttempt(account: string): Promise<void> {
+    const keys = this.keys(account);
+
+    const lock = await rateLimiter.peek(keys.lock);
+    if (lock) {
+      throw new AppError('Account temporarily locked due to failed login attempts', 423, 'ACCOUNT_LOCKED', {
+        retryAfter: Math.ceil((lock.resetAt - Date.now()) / 1000),
+      });
+    }
+
+    const delay = await rateLimiter.peek(keys.delay);
+    if (delay) {
+      throw new AppError('Too many failed login attempts, please wait', 429, 'LOGIN_THROTTLED', {
+        retryAfter: Math.ceil((delay.resetAt - Date.now()) / 1000),
+      });
+    }
+  }
+
+  /**
+   * Record a failed attempt; applies a delay or locks the account
+   */
+  async recordFailure(account: string, user: IUser | null, ip?: string): Promise<void> {
+    const { threshold, windowMinutes, freeAttempts, baseDelaySeconds, maxDelaySeconds } = config.loginLockout;
+    const keys = this.keys(account);
+
+    const { count } = await rateLimiter.hit(keys.failures, windowMinutes * 60 * 1000);
+
+    await AuditLog.create({
+      action: 'login_failed',
+      actorUserId: user?._id,
+      target: user ? `user:${user._id}` : undefined,
+      timestamp: new Date(),
+      meta: {
+        ip,
+        failures: count,
+        knownAccount: !!user,
+      },
+    });
+
+    if (count >= threshold) {
+      await this.lock(account, user, count, ip);
+      return;
+    }
+
+    if (count > freeAttempts) {
+      const delaySeconds = Math.min(baseDelaySeconds * 2 ** (count - freeAttempts - 1), maxDelaySeconds);
+      await rateLimiter.reset(keys.delay);
+      await rateLimiter.hit(keys.delay, delaySeconds * 1000);
+    }
+  }
+
+  /**
+   * Lock the account and notify its owner
+   */
+  private async lock(account: string, user: IUser | null, failures: number, ip?: string): Promise<void> {
+    const keys = this.keys(account);
+    const lockMs = config.loginLockout.durationMinutes * 60 * 1000;
+    const lockedUntil = new Date(Date.now() + lockMs);
+
+    await rateLimiter.reset(keys.lock);
+    await rateLimiter.hit(keys.lock, lockMs);
+    await rateLimiter.reset(keys.failures);
+    await rateLimiter.reset(keys.delay);
+
+    await AuditLog.create({
+      action: 'account_locked',
+      actorUserId: user?._id,
+      target: user ? `user:${user._id}` : undefined,
+      timestamp: new Date(),
+      meta: {
+        ip,
+        failures,
+        lockedUntil,
+        knownAccount: !!user,
+      },
+    });
+
+    logger.warn(`Account locked after ${failures} failed logins${user ? `: ${user._id}` : ''}`);
+
+    if (user?.email) {
+      mailService.sendAccountLockedEmail(user.email, user.displayName, lockedUntil).catch((error) => {
+        logger.error('Failed to send account locked email:', error);
+      });
+    }
+  }
+
+  /**
+   * Clear failure tracking after a successful login
+   */
+  async recordSuccess(account: string): Promise<void> {
+    const keys = this.keys(account);
+    await Promise.all([
+      rateLimiter.reset(keys.failures),
+      rateLimiter.reset(keys.delay),
+    ]);
+  }
+}
+
+// Export singleton instance
+export const loginAttemptService = new LoginAttemptService();
\ No newline at end of file
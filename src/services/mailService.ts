@@ -0,0 +1,290 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { nanoid } from 'nanoid';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+/**
+ * Outgoing email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Pluggable mail transport
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * SMTP transport (production)
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(smtpUrl: string) {
+    this.transporter = nodemailer.createTransport(smtpUrl);
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * File transport (local development) - writes each email as a JSON file
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${nanoid(6)}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Console transport (local development) - logs each email
+ */
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Human-readable date and time in a timezone, e.g. "Monday 5 October 2026 at 14:30 (Europe/Berlin)"
+ */
+export const formatInTimezone = (date: Date, timezone: string): string =>
+  `${new Intl.DateTimeFormat('en-GB', { dateStyle: 'full', timeStyle: 'short', timeZone: timezone }).format(date)} (${timezone})`;
+
+/**
+ * Mail Service
+ * Sends transactional emails through the configured transport
+ */
+class MailService {
+  private transport: MailTransport;
+
+  constructor() {
+    this.transport = this.createTransport();
+    logger.info(`✅ Mail service initialized (${this.transport.name} transport)`);
+  }
+
+  /**
+   * Build the transport selected by MAIL_TRANSPORT
+   */
+  private createTransport(): MailTransport {
+    switch (config.mail.transport) {
+      case 'smtp':
+        if (config.mail.smtpUrl) {
+          return new SmtpTransport(config.mail.smtpUrl);
+        }
+        logger.warn('⚠️  SMTP_URL missing, falling back to console mail transport');
+        return new ConsoleTransport();
+      case 'file':
+        return new FileTransport(config.mail.fileDir);
+      default:
+        return new ConsoleTransport();
+    }
+  }
+
+  /**
+   * Replace the active transport
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: config.mail.from });
+      logger.info(`Email sent via ${this.transport.name}: ${message.subject}`);
+    } catch (error) {
+      logger.error('Error sending email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send password reset instructions
+   */
+  async sendPasswordResetEmail(to: string, displayName: string, token: string): Promise<void> {
+    const link = `${config.app.baseUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your MindSupport password',
+      text: [
+        `Hi ${displayName},`,
+        '',
+        'We received a request to reset your MindSupport password.',
+        `Use this link within ${config.passwordReset.expiryMinutes} minutes to choose a new one:`,
+        link,
+        '',
+        'If you did not request this, you can safely ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send email address verification link
+   */
+  async sendEmailVerificationEmail(to: string, displayName: string, token: string): Promise<void> {
+    const link = `${config.app.baseUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your MindSupport email address',
+      text: [
+        `Hi ${displayName},`,
+        '',
+        'Please confirm this email address for your MindSupport account:',
+        link,
+        '',
+        `The link expires in ${config.emailVerification.expiryHours} hours.`,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Ask a parent or guardian to consent to a minor's account
+   */
+  async sendGuardianConsentEmail(to: string, displayName: string, token: string): Promise<void> {
+    const link = `${config.app.baseUrl}/guardian-consent?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Please review a MindSupport account for your child',
+      text: [
+        'Hello,',
+        '',
+        `Someone under ${config.ageGate.guardianConsentAge} signed up for MindSupport as "${displayName}" and gave this address as their parent or guardian.`,
+        'MindSupport offers peer support chat and wellbeing resources. Chat stays locked until you respond.',
+        '',
+        'To allow or decline the account, open:',
+        link,
+        '',
+        `The link expires in ${config.ageGate.consentExpiryDays} days. If you don't know about this, you can ignore this email.`,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Tell the account owner that their account was temporarily locked
+   */
+  async sendAccountLockedEmail(to: string, displayName: string, lockedUntil: Date): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your MindSupport account was temporarily locked',
+      text: [
+        `Hi ${displayName},`,
+        '',
+        'We noticed several failed sign-in attempts on your account, so we locked it temporarily.',
+        `You can try again after ${lockedUntil.toUTCString()}.`,
+        '',
+        'If these attempts were not you, we recommend resetting your password.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Confirm that the password of an account was changed. A reset signs out
+   * all devices; a change from the account keeps the current one.
+   */
+  async sendPasswordChangedEmail(to: string, displayName: string, signedOut: 'all' | 'others'): Promise<void> {
+    const devices = signedOut === 'all' ? 'all devices were' : 'your other devices were';
+
+    await this.send({
+      to,
+      subject: 'Your MindSupport password was changed',
+      text: [
+        `Hi ${displayName},`,
+        '',
+        `The password of your MindSupport account was just changed and ${devices} signed out.`,
+        'If this was not you, please reset your password immediately.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Confirm a deletion request and tell the user how long they have to cancel
+   */
+  async sendAccountDeletionScheduledEmail(to: string, displayName: string, scheduledFor: Date): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your MindSupport account is scheduled for deletion',
+      text: [
+        `Hi ${displayName},`,
+        '',
+        `Your MindSupport account and personal data will be permanently deleted on ${scheduledFor.toUTCString()}.`,
+        'If you change your mind, sign in and cancel the deletion before then.',
+        '',
+        'If you did not request this, please cancel the deletion and reset your password.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Remind a participant of an upcoming counseling session
+   */
+  async sendAppointmentReminderEmail(
+    to: string,
+    displayName: string,
+    startsAt: Date,
+    timezone: string
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your MindSupport session starts soon',
+      text: [
+        `Hi ${displayName},`,
+        '',
+        `This is a reminder of your counseling session on ${formatInTimezone(startsAt, timezone)}.`,
+        'Open the app to join the session chat.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Tell a participant a counseling session was cancelled
+   */
+  async sendAppointmentCancelledEmail(
+    to: string,
+    displayName: string,
+    startsAt: Date,
+    timezone: string
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your MindSupport session was cancelled',
+      text: [
+        `Hi ${displayName},`,
+        '',
+        `Your counseling session on ${formatInTimezone(startsAt, timezone)} was cancelled.`,
+        'You can book another time in the app.',
+      ].join('\n'),
+    });
+  }
+}
+
+// Export singleton instance
+export const mailService = new MailService();
\ No newline at end of file
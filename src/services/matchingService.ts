@@ -0,0 +1,271 @@
+import { nanoid } from 'nanoid';
+import { config } from '../config/env';
+import { IUser, User } from '../models/User';
+import { IMatchRequest, MatchRequest } from '../models/MatchRequest';
+import { ChatRoom } from '../models/ChatRoom';
+import { AuditLog } from '../models/AuditLog';
+import { MatchPartnerType, MatchStatus } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { streamClient } from './streamClient';
+import { anonymousIdentityService } from './anonymousIdentityService';
+import { ageGate } from './ageGate';
+import { logger } from '../utils/logger';
+
+// How many waiting requests to try claiming before joining the queue
+const CANDIDATE_BATCH = 20;
+
+const MATCH_CHANNEL_TITLE = 'Peer support';
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface MatchInput {
+  tags: string[];
+  language: string;
+  partnerType: MatchPartnerType;
+  anonymousHandle?: string;
+}
+
+/**
+ * Matching Service
+ * Pairs users who want a 1:1 peer-support conversation. Waiting requests are
+ * claimed atomically, so two users can never be matched with the same person.
+ */
+class MatchingService {
+  /**
+   * Query for waiting requests compatible with a new request
+   */
+  private compatibleWith(request: IMatchRequest): Record<string, any> {
+    const conditions: Record<string, any>[] = [
+      { status: MatchStatus.WAITING },
+      { expiresAt: { $gt: new Date() } },
+      { userId: { $ne: request.userId } },
+      { language: request.language },
+    ];
+
+    // At least one topic in common, unless either side didn't pick one
+    if (request.tags.length > 0) {
+      conditions.push({ $or: [{ tags: { $in: request.tags } }, { tags: { $size: 0 } }] });
+    }
+
+    // Handles are unique within a channel
+    if (request.anonymousHandle) {
+      conditions.push({
+        anonymousHandle: { $not: new RegExp(`^${escapeRegex(request.anonymousHandle.trim())}$`, 'i') },
+      });
+    }
+
+    // Minors and adults are only paired through a counselor
+    if (!request.isCounselor) {
+      conditions.push({ $or: [{ isMinor: request.isMinor }, { isCounselor: true }] });
+    }
+
+    // Who this request accepts...
+    if (request.partnerType === MatchPartnerType.COUNSELOR) {
+      conditions.push({ isCounselor: true });
+    } else if (request.partnerType === MatchPartnerType.VOLUNTEER) {
+      conditions.push({ $or: [{ isVolunteer: true }, { isCounselor: true }] });
+    }
+
+    // ...and who accepts this request
+    const acceptedBy = [MatchPartnerType.ANY];
+    if (request.isVolunteer || request.isCounselor) {
+      acceptedBy.push(MatchPartnerType.VOLUNTEER);
+    }
+    if (request.isCounselor) {
+      acceptedBy.push(MatchPartnerType.COUNSELOR);
+    }
+    conditions.push({ partnerType: { $in: acceptedBy } });
+
+    return { $and: conditions };
+  }
+
+  /**
+   * Join the queue, pairing right away with the longest-waiting compatible request
+   */
+  async enqueue(user: IUser, input: MatchInput): Promise<IMatchRequest> {
+    const waiting = await MatchRequest.findOne({
+      userId: user._id,
+      status: MatchStatus.WAITING,
+      expiresAt: { $gt: new Date() },
+    });
+    if (waiting) {
+      throw new AppError('You are already waiting for a match', 409, 'ALREADY_IN_QUEUE', {
+        requestId: waiting._id,
+      });
+    }
+    // Clear out a request that expired before the job got to it
+    await MatchRequest.updateMany(
+      { userId: user._id, status: MatchStatus.WAITING },
+      { status: MatchStatus.EXPIRED }
+    );
+
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + config.matching.queueTimeoutMinutes);
+
+    const request = new MatchRequest({
+      userId: user._id,
+      tags: input.tags,
+      language: input.language,
+      partnerType: input.partnerType,
+      anonymousHandle: input.anonymousHandle,
+      isMinor: ageGate.isMinor(user),
+      isVolunteer: user.isVolunteer,
+      isCounselor: user.isCounselor,
+      expiresAt,
+    });
+
+    const candidates = await MatchRequest.find(this.compatibleWith(request))
+      .sort({ createdAt: 1 })
+      .limit(CANDIDATE_BATCH)
+      .select('_id');
+
+    for (const candidate of candidates) {
+      const claimed = await MatchRequest.findOneAndUpdate(
+        { _id: candidate._id, status: MatchStatus.WAITING, expiresAt: { $gt: new Date() } },
+        { status: MatchStatus.MATCHED, matchedAt: new Date(), matchedWith: request._id },
+        { new: true }
+      );
+      if (claimed) {
+        await this.pair(user, request, claimed);
+        return request;
+      }
+    }
+
+    await request.save();
+    logger.info(`User ${user._id} waiting for a match (${request._id})`);
+    return request;
+  }
+
+  /**
+   * Open the 1:1 channel for two requests. The partner's request is already
+   * claimed; it goes back to the queue if the channel can't be created.
+   */
+  private async pair(user: IUser, request: IMatchRequest, partnerRequest: IMatchRequest): Promise<void> {
+    try {
+      const partner = await User.findById(partnerRequest.userId);
+      if (!partner) {
+        throw new AppError('Matched user no longer exists', 410, 'USER_NOT_FOUND');
+      }
+
+      const channelId = `match-${nanoid(16)}`;
+      const streamChannelId = `messaging:${channelId}`;
+      const [memberId, partnerMemberId] = await Promise.all([
+        this.identityFor(user, request, streamChannelId),
+        this.identityFor(partner, partnerRequest, streamChannelId),
+      ]);
+      const tags = request.tags.filter((tag) => partnerRequest.tags.includes(tag));
+
+      await streamClient.createChannel('messaging', channelId, memberId, {
+        name: MATCH_CHANNEL_TITLE,
+        members: [memberId, partnerMemberId],
+        isMatch: true,
+      });
+
+      await ChatRoom.create({
+        streamChannelId,
+        title: MATCH_CHANNEL_TITLE,
+        isPrivate: true,
+        isGroup: false,
+        tags,
+        createdBy: user._id,
+        members: new Map([
+          [memberId, { role: 'member', joinedAt: new Date() }],
+          [partnerMemberId, { role: 'member', joinedAt: new Date() }],
+        ]),
+      });
+
+      request.set({
+        status: MatchStatus.MATCHED,
+        matchedAt: partnerRequest.matchedAt,
+        matchedWith: partnerRequest._id,
+        streamChannelId,
+        memberId,
+      });
+      await request.save();
+
+      partnerRequest.set({ streamChannelId, memberId: partnerMemberId });
+      await partnerRequest.save();
+
+      await AuditLog.create({
+        action: 'match_made',
+        actorUserId: user._id,
+        target: `channel:${streamChannelId}`,
+        timestamp: new Date(),
+        meta: {
+          requestIds: [request._id, partnerRequest._id],
+          partnerUserId: partner._id,
+          tags,
+        },
+      });
+
+      logger.info(`Match made: ${request._id} <-> ${partnerRequest._id} in ${streamChannelId}`);
+    } catch (error) {
+      await MatchRequest.updateOne(
+        { _id: partnerRequest._id, status: MatchStatus.MATCHED, streamChannelId: { $exists: false } },
+        { status: MatchStatus.WAITING, $unset: { matchedAt: '', matchedWith: '' } }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Stream identity a user chats with: an anonymous handle or their own account
+   */
+  private async identityFor(user: IUser, request: IMatchRequest, streamChannelId: string): Promise<string> {
+    if (request.anonymousHandle) {
+      const { ephemeralId } = await anonymousIdentityService.create(user, request.anonymousHandle, streamChannelId);
+      return ephemeralId;
+    }
+
+    await streamClient.upsertUser(String(user._id), {
+      name: user.displayName,
+      image: user.avatarUrl,
+      role: streamClient.toStreamRole(user.role),
+    });
+    return String(user._id);
+  }
+
+  /**
+   * The user's most recent request
+   */
+  async current(userId: string): Promise<IMatchRequest | null> {
+    const request = await MatchRequest.findOne({ userId }).sort({ createdAt: -1 });
+
+    // Report a lapsed request as expired even before the job has run
+    if (request?.status === MatchStatus.WAITING && request.expiresAt <= new Date()) {
+      request.status = MatchStatus.EXPIRED;
+    }
+    return request;
+  }
+
+  /**
+   * Leave the queue
+   */
+  async cancel(userId: string): Promise<IMatchRequest> {
+    const request = await MatchRequest.findOneAndUpdate(
+      { userId, status: MatchStatus.WAITING },
+      { status: MatchStatus.CANCELLED, cancelledAt: new Date() },
+      { new: true }
+    );
+    if (!request) {
+      throw new AppError('You are not waiting for a match', 404, 'NOT_IN_QUEUE');
+    }
+
+    logger.info(`Match request cancelled: ${request._id}`);
+    return request;
+  }
+
+  /**
+   * Expire requests that waited too long
+   */
+  async expireStale(now: Date = new Date()): Promise<number> {
+    const result = await MatchRequest.updateMany(
+      { status: MatchStatus.WAITING, expiresAt: { $lte: now } },
+      { status: MatchStatus.EXPIRED }
+    );
+    return result.modifiedCount;
+  }
+}
+
+// Export singleton instance
+export const matchingService = new MatchingService();
\ No newline at end of file
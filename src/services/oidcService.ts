@@ -0,0 +1,155 @@
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/env';
+import { OidcClaims, OidcProviderConfig } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+interface CachedJwks {
+  keys: Map<string, { key: KeyObject; alg?: string }>;
+  fetchedAt: number;
+}
+
+// Don't hammer a provider when tokens arrive with an unknown kid
+const MIN_REFETCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * OIDC Service
+ * Verifies ID tokens from configured OpenID Connect providers (Google, Apple, ...)
+ * against their published signing keys
+ */
+class OidcService {
+  private jwksCache = new Map<string, CachedJwks>();
+
+  /**
+   * Look up a configured provider
+   */
+  getProvider(name: string): OidcProviderConfig {
+    const provider = config.oidc.providers.find((p) => p.name === name);
+    if (!provider) {
+      throw new AppError('Unknown identity provider', 404, 'UNKNOWN_PROVIDER');
+    }
+    return provider;
+  }
+
+  /**
+   * Names of all configured providers
+   */
+  listProviders(): string[] {
+    return config.oidc.providers.map((p) => p.name);
+  }
+
+  /**
+   * Fetch JSON from a provider
+   */
+  private async fetchJson(url: string): Promise<any> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+    if (!response.ok) {
+      throw new Error(`${url} responded with ${response.status}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Resolve the JWKS URI, using discovery when it is not configured
+   */
+  private async getJwksUri(provider: OidcProviderConfig): Promise<string> {
+    if (provider.jwksUri) {
+      return provider.jwksUri;
+    }
+    const discovery = await this.fetchJson(
+      `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+    );
+    return discovery.jwks_uri;
+  }
+
+  /**
+   * Download and cache a provider's signing keys
+   */
+  private async loadKeys(provider: OidcProviderConfig): Promise<CachedJwks> {
+    try {
+      const jwks = await this.fetchJson(await this.getJwksUri(provider));
+      const keys = new Map<string, { key: KeyObject; alg?: string }>();
+
+      for (const jwk of jwks.keys as (JsonWebKey & { kid?: string; alg?: string; use?: string })[]) {
+        if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) {
+          continue;
+        }
+        keys.set(jwk.kid, {
+          key: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+          alg: jwk.alg,
+        });
+      }
+
+      const cached = { keys, fetchedAt: Date.now() };
+      this.jwksCache.set(provider.name, cached);
+      return cached;
+    } catch (error) {
+      logger.error(`Failed to fetch signing keys for ${provider.name}:`, error);
+      throw new AppError('Identity provider unavailable', 502, 'IDP_UNAVAILABLE');
+    }
+  }
+
+  /**
+   * Find the key for a kid, refetching on expiry or when the provider rotated keys
+   */
+  private async getKey(provider: OidcProviderConfig, kid: string) {
+    let cached = this.jwksCache.get(provider.name);
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+
+    if (!cached || age > config.oidc.jwksCacheMinutes * 60 * 1000) {
+      cached = await this.loadKeys(provider);
+    } else if (!cached.keys.has(kid) && age > MIN_REFETCH_INTERVAL_MS) {
+      cached = await this.loadKeys(provider);
+    }
+
+    return cached.keys.get(kid);
+  }
+
+  /**
+   * Verify a provider ID token and return its claims
+   */
+  async verifyIdToken(providerName: string, idToken: string, nonce?: string): Promise<OidcClaims> {
+    const provider = this.getProvider(providerName);
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    const kid = decoded?.header.kid;
+    if (!kid) {
+      throw new AppError('Invalid ID token', 401, 'INVALID_ID_TOKEN');
+    }
+
+    const signingKey = await this.getKey(provider, kid);
+    if (!signingKey) {
+      throw new AppError('Invalid ID token', 401, 'INVALID_ID_TOKEN');
+    }
+
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(idToken, signingKey.key, {
+        algorithms: signingKey.alg ? [signingKey.alg as jwt.Algorithm] : ['RS256', 'ES256'],
+        issuer: provider.issuer,
+        audience: provider.clientIds as [string, ...string[]],
+      }) as jwt.JwtPayload;
+    } catch (error: any) {
+      logger.warn(`ID token rejected for ${provider.name}: ${error.message}`);
+      throw new AppError('Invalid ID token', 401, 'INVALID_ID_TOKEN');
+    }
+
+    if (!payload.sub || (nonce && payload.nonce !== nonce)) {
+      throw new AppError('Invalid ID token', 401, 'INVALID_ID_TOKEN');
+    }
+
+    return {
+      provider: provider.name,
+      subject: payload.sub,
+      email: payload.email ? String(payload.email).toLowerCase() : undefined,
+      // Apple sends "true"/"false" strings
+      emailVerified: payload.email_verified === true || payload.email_verified === 'true',
+      name: payload.name,
+      picture: payload.picture,
+    };
+  }
+}
+
+// Export singleton instance
+export const oidcService = new OidcService();
\ No newline at end of file
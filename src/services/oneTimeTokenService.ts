@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { OneTimeToken, IOneTimeToken } from '../models/OneTimeToken';
+import { TokenPurpose } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * One-Time Token Service
+ * Issues single-use, expiring tokens (password reset, ...) and stores only their hash
+ */
+class OneTimeTokenService {
+  /**
+   * Hash a token for storage and lookup
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a new token, invalidating any unused token for the same purpose
+   */
+  async issue(userId: string, purpose: TokenPurpose, ttlMinutes: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    await this.revokeAll(userId, purpose);
+
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + ttlMinutes);
+
+    await OneTimeToken.create({
+      userId,
+      purpose,
+      tokenHash: this.hashToken(token),
+      expiresAt,
+    });
+
+    logger.debug(`One-time token issued for user ${userId} (${purpose})`);
+    return token;
+  }
+
+  /**
+   * Look up a valid token without consuming it
+   */
+  async find(token: string, purpose: TokenPurpose): Promise<IOneTimeToken | null> {
+    return OneTimeToken.findOne({
+      tokenHash: this.hashToken(token),
+      purpose,
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+  }
+
+  /**
+   * Consume a token. Returns null if it is unknown, expired or already used.
+   */
+  async consume(token: string, purpose: TokenPurpose): Promise<IOneTimeToken | null> {
+    return OneTimeToken.findOneAndUpdate(
+      {
+        tokenHash: this.hashToken(token),
+        purpose,
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { usedAt: new Date() },
+      { new: true }
+    );
+  }
+
+  /**
+   * Remove all unused tokens of a user for a purpose
+   */
+  async revokeAll(userId: string, purpose: TokenPurpose): Promise<void> {
+    await OneTimeToken.deleteMany({
+      userId,
+      purpose,
+      usedAt: { $exists: false },
+    });
+  }
+}
+
+// Export singleton instance
+export const oneTimeTokenService = new OneTimeTokenService();
\ No newline at end of file
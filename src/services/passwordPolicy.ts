@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const DEFAULT_BREACH_LIST = path.resolve(__dirname, '../../data/breached-passwords.txt');
+
+export interface PasswordContext {
+  email?: string;
+  displayName?: string;
+}
+
+export interface PasswordIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Password Policy Service
+ * Length, estimated entropy, personal-information and offline breached-password checks
+ */
+class PasswordPolicyService {
+  private breachedPrefixes: Set<string> | null = null;
+  private prefixLength = 0;
+
+  /**
+   * Rough entropy estimate in bits.
+   * Uses the character pool size, but repeated characters and
+   * ascending/descending runs (aaaa, 1234, dcba) only count for one bit each.
+   */
+  estimateEntropy(password: string): number {
+    const chars = Array.from(password);
+    if (chars.length === 0) {
+      return 0;
+    }
+
+    let pool = 0;
+    if (/[a-z]/.test(password)) pool += 26;
+    if (/[A-Z]/.test(password)) pool += 26;
+    if (/[0-9]/.test(password)) pool += 10;
+    if (/[^a-zA-Z0-9]/.test(password)) pool += 33;
+
+    const bitsPerChar = Math.log2(pool);
+    let bits = bitsPerChar;
+
+    for (let i = 1; i < chars.length; i++) {
+      const delta = chars[i].codePointAt(0)! - chars[i - 1].codePointAt(0)!;
+      bits += Math.abs(delta) <= 1 ? 1 : bitsPerChar;
+    }
+
+    return Math.round(bits * 10) / 10;
+  }
+
+  /**
+   * Check a password against the bundled breached-password list (no network)
+   */
+  isBreached(password: string): boolean {
+    const prefixes = this.loadBreachedPrefixes();
+    if (prefixes.size === 0) {
+      return false;
+    }
+
+    const hash = crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+    return prefixes.has(hash.slice(0, this.prefixLength));
+  }
+
+  /**
+   * Collect every policy violation for a candidate password
+   */
+  check(password: string, context: PasswordContext = {}): PasswordIssue[] {
+    const { minLength, maxLength, minEntropyBits, breachCheck } = config.passwordPolicy;
+    const issues: PasswordIssue[] = [];
+    const issue = (message: string) => issues.push({ field: 'password', message });
+
+    if (password.length < minLength) {
+      issue(`Password must be at least ${minLength} characters`);
+    }
+
+    if (password.length > maxLength) {
+      issue(`Password must be at most ${maxLength} characters`);
+    }
+
+    const lowered = password.toLowerCase();
+    if (this.personalTerms(context).some((term) => lowered.includes(term))) {
+      issue('Password must not contain your email address or display name');
+    }
+
+    if (this.estimateEntropy(password) < minEntropyBits) {
+      issue('Password is too easy to guess; use a longer mix of words, numbers or symbols');
+    }
+
+    if (breachCheck && this.isBreached(password)) {
+      issue('Password has appeared in a data breach; choose a different one');
+    }
+
+    return issues;
+  }
+
+  /**
+   * Throw a VALIDATION_ERROR listing every violation
+   */
+  assertValid(password: string, context: PasswordContext = {}): void {
+    const issues = this.check(password, context);
+    if (issues.length > 0) {
+      throw new AppError('Password does not meet requirements', 400, 'VALIDATION_ERROR', issues);
+    }
+  }
+
+  /**
+   * Lowercased email / display name fragments long enough to be meaningful
+   */
+  private personalTerms(context: PasswordContext): string[] {
+    const terms: string[] = [];
+
+    if (context.email) {
+      const email = context.email.toLowerCase();
+      terms.push(email, email.split('@')[0]);
+    }
+
+    if (context.displayName) {
+      const displayName = context.displayName.toLowerCase();
+      terms.push(displayName, displayName.replace(/\s+/g, ''), ...displayName.split(/\s+/));
+    }
+
+    return terms.filter((term) => term.length >= 3);
+  }
+
+  /**
+   * Lazily load the prefix list; a missing file disables the check
+   */
+  private loadBreachedPrefixes(): Set<string> {
+    if (this.breachedPrefixes) {
+      return this.breachedPrefixes;
+    }
+
+    const file = config.passwordPolicy.breachListPath
+      ? path.resolve(config.passwordPolicy.breachListPath)
+      : DEFAULT_BREACH_LIST;
+
+    this.breachedPrefixes = new Set();
+
+    try {
+      for (const line of fs.readFileSync(file, 'utf8').split(/\r?\n/)) {
+        const prefix = line.trim().toUpperCase();
+        if (!prefix || prefix.startsWith('#')) {
+          continue;
+        }
+        this.prefixLength = prefix.length;
+        this.breachedPrefixes.add(prefix);
+      }
+      logger.info(`Loaded ${this.breachedPrefixes.size} breached password prefixes`);
+    } catch {
+      logger.warn(`Breached password list not available at ${file}; breach check disabled`);
+    }
+
+    return this.breachedPrefixes;
+  }
+}
+
+// Export singleton instance
+export const passwordPolicy = new PasswordPolicyService();
\ No newline at end of file
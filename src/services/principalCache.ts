@@ -0,0 +1,176 @@
+import { createClient, RedisClientType } from 'redis';
+import { config } from '../config/env';
+import { resolvePermissions } from '../config/permissions';
+import { User } from '../models/User';
+import { AgeBand, Permission, UserRole } from '../types';
+import { ageGate } from './ageGate';
+import { logger } from '../utils/logger';
+
+/**
+ * What authentication needs to know about a user
+ */
+export interface Principal {
+  id: string;
+  role: UserRole;
+  email?: string;
+  displayName: string;
+  emailVerified?: boolean;
+  twoFactorEnabled: boolean;
+  permissions: Permission[];
+  ageBand?: AgeBand;
+  guardianConsentRequired: boolean;
+  bannedUntil?: number;
+}
+
+const INVALIDATION_CHANNEL = 'principal:invalidate';
+
+/**
+ * Principal Cache
+ * Caches authenticated users so requests don't each read the User document.
+ * In-process LRU, shared through Redis when configured; invalidations are
+ * broadcast so every instance drops its local copy.
+ */
+class PrincipalCache {
+  private entries: Map<string, { principal: Principal; expiresAt: number }> = new Map();
+  private redisClient: RedisClientType | null = null;
+  private useRedis: boolean = false;
+
+  constructor() {
+    this.initializeRedis();
+  }
+
+  /**
+   * Initialize Redis clients if URL is provided
+   */
+  private async initializeRedis() {
+    if (!config.redis.url) {
+      return;
+    }
+
+    try {
+      this.redisClient = createClient({ url: config.redis.url });
+      const subscriber = this.redisClient.duplicate();
+
+      this.redisClient.on('error', (err) => {
+        logger.error('Redis principal cache error:', err);
+        this.useRedis = false;
+      });
+      subscriber.on('error', (err) => logger.error('Redis principal cache subscriber error:', err));
+
+      this.redisClient.on('connect', () => {
+        this.useRedis = true;
+      });
+
+      await Promise.all([this.redisClient.connect(), subscriber.connect()]);
+      await subscriber.subscribe(INVALIDATION_CHANNEL, (userId) => this.entries.delete(userId));
+      logger.info('✅ Redis connected for principal cache');
+    } catch (error) {
+      logger.error('Failed to initialize Redis principal cache, using in-process only:', error);
+      this.redisClient = null;
+      this.useRedis = false;
+    }
+  }
+
+  private get ttlMs(): number {
+    return config.principalCache.ttlSeconds * 1000;
+  }
+
+  /**
+   * Store in the local LRU, evicting the least recently used entry when full
+   */
+  private remember(principal: Principal) {
+    this.entries.delete(principal.id);
+    this.entries.set(principal.id, { principal, expiresAt: Date.now() + this.ttlMs });
+
+    if (this.entries.size > config.principalCache.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Build a principal from the database
+   */
+  private async load(userId: string): Promise<Principal | null> {
+    const user = await User.findById(userId);
+    if (!user) {
+      return null;
+    }
+
+    return {
+      id: String(user._id),
+      role: user.role,
+      email: user.email,
+      displayName: user.displayName,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactor?.enabled ?? false,
+      permissions: resolvePermissions(user),
+      ageBand: ageGate.currentBand(user),
+      guardianConsentRequired: ageGate.isConsentOutstanding(user.guardianConsent),
+      bannedUntil: user.bannedUntil?.getTime(),
+    };
+  }
+
+  /**
+   * Get a user's principal, or null if the user does not exist
+   */
+  async get(userId: string): Promise<Principal | null> {
+    const local = this.entries.get(userId);
+    if (local && local.expiresAt > Date.now()) {
+      // Mark as recently used
+      this.entries.delete(userId);
+      this.entries.set(userId, local);
+      return local.principal;
+    }
+
+    if (this.useRedis && this.redisClient) {
+      try {
+        const cached = await this.redisClient.get(`principal:${userId}`);
+        if (cached) {
+          const principal = JSON.parse(cached) as Principal;
+          this.remember(principal);
+          return principal;
+        }
+      } catch (error) {
+        logger.error('Redis principal cache read error:', error);
+      }
+    }
+
+    const principal = await this.load(userId);
+    if (principal) {
+      this.remember(principal);
+      if (this.useRedis && this.redisClient) {
+        this.redisClient
+          .set(`principal:${userId}`, JSON.stringify(principal), { PX: this.ttlMs })
+          .catch((error) => logger.error('Redis principal cache write error:', error));
+      }
+    }
+    return principal;
+  }
+
+  /**
+   * Drop a cached principal after a ban, role/permission change, deletion or
+   * any other change to the fields above
+   */
+  async invalidate(userId: string): Promise<void> {
+    this.entries.delete(userId);
+
+    if (this.useRedis && this.redisClient) {
+      try {
+        await this.redisClient.del(`principal:${userId}`);
+        await this.redisClient.publish(INVALIDATION_CHANNEL, userId);
+      } catch (error) {
+        logger.error('Redis principal cache invalidation error:', error);
+      }
+    }
+  }
+
+  /**
+   * Drop all local entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Export singleton instance
+export const principalCache = new PrincipalCache();
\ No newline at end of file
@@ -141,6 +141,64 @@ class RateLimiterService {
     }
   }
 
+  /**
+   * Count a hit for a key without enforcing a limit
+   */
+  async hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }> {
+    try {
+      if (this.useRedis && this.redisClient) {
+        const windowKey = `ratelimit:${key}`;
+        const count = await this.redisClient.incr(windowKey);
+        if (count === 1) {
+          await this.redisClient.pExpire(windowKey, windowMs);
+        }
+        const ttl = await this.redisClient.pTTL(windowKey);
+        return { count, resetAt: Date.now() + ttl };
+      }
+
+      const now = Date.now();
+      const record = this.inMemoryStore.get(key);
+      if (!record || now > record.resetAt) {
+        this.inMemoryStore.set(key, { count: 1, resetAt: now + windowMs });
+        return { count: 1, resetAt: now + windowMs };
+      }
+
+      record.count++;
+      return { count: record.count, resetAt: record.resetAt };
+    } catch (error) {
+      logger.error('Error counting rate limit hit:', error);
+      return { count: 0, resetAt: Date.now() + windowMs };
+    }
+  }
+
+  /**
+   * Read the current count for a key without incrementing it
+   */
+  async peek(key: string): Promise<{ count: number; resetAt: number } | null> {
+    try {
+      if (this.useRedis && this.redisClient) {
+        const windowKey = `ratelimit:${key}`;
+        const [value, ttl] = await Promise.all([
+          this.redisClient.get(windowKey),
+          this.redisClient.pTTL(windowKey),
+        ]);
+        if (value === null || ttl <= 0) {
+          return null;
+        }
+        return { count: parseInt(value, 10), resetAt: Date.now() + ttl };
+      }
+
+      const record = this.inMemoryStore.get(key);
+      if (!record || Date.now() > record.resetAt) {
+        return null;
+      }
+      return { count: record.count, resetAt: record.resetAt };
+    } catch (error) {
+      logger.error('Error reading rate limit:', error);
+      return null;
+    }
+  }
+
   /**
    * Reset rate limit for a key
    */
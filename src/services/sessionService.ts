@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { nanoid } from 'nanoid';
+import { Session, ISession } from '../models/Session';
+import { AuditLog } from '../models/AuditLog';
+import { IUser } from '../models/User';
+import { authService } from './authService';
+import { config } from '../config/env';
+import { JWTPayload, SessionContext, TokenPair } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Session Service
+ * Persists refresh token families, rotates refresh tokens on every use and
+ * revokes the whole family when a rotated token is presented again
+ */
+class SessionService {
+  /**
+   * Hash a refresh token for storage
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue an access/refresh token pair bound to a session
+   */
+  private issueTokens(user: IUser, sessionId: string): TokenPair & { expiresAt: Date } {
+    const payload = {
+      userId: String(user._id),
+      role: user.role,
+      email: user.email,
+      sessionId,
+    };
+
+    const accessToken = authService.generateAccessToken(payload);
+    const refreshToken = authService.generateRefreshToken({ ...payload, jti: nanoid() });
+
+    const decoded = authService.decodeToken(refreshToken) as (JWTPayload & { exp: number }) | null;
+    const expiresAt = decoded?.exp ? new Date(decoded.exp * 1000) : new Date();
+
+    return { accessToken, refreshToken, expiresAt };
+  }
+
+  /**
+   * Start a new session (token family) for a user
+   */
+  async createSession(user: IUser, context: SessionContext = {}): Promise<TokenPair> {
+    const sessionId = new Types.ObjectId();
+    const { accessToken, refreshToken, expiresAt } = this.issueTokens(user, String(sessionId));
+
+    await Session.create({
+      _id: sessionId,
+      userId: user._id,
+      currentTokenHash: this.hashToken(refreshToken),
+      deviceName: context.deviceName,
+      ...(context.deviceId && { deviceIdHash: authService.hashSecret(context.deviceId) }),
+      ip: context.ip,
+      userAgent: context.userAgent,
+      lastUsedAt: new Date(),
+      expiresAt,
+    });
+
+    logger.info(`Session created: ${sessionId} for user ${user._id}`);
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Start a short-lived session in which an admin acts as a user.
+   * Only an access token is issued, so the session cannot be extended.
+   */
+  async createImpersonationSession(
+    user: IUser,
+    adminId: string,
+    context: SessionContext = {}
+  ): Promise<{ accessToken: string; sessionId: string; expiresAt: Date }> {
+    const sessionId = new Types.ObjectId();
+    const ttlSeconds = config.impersonation.ttlMinutes * 60;
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+    const accessToken = authService.generateAccessToken({
+      userId: String(user._id),
+      role: user.role,
+      email: user.email,
+      sessionId: String(sessionId),
+      impersonatedBy: adminId,
+    }, ttlSeconds);
+
+    await Session.create({
+      _id: sessionId,
+      userId: user._id,
+      // No refresh token exists for this session; store an unguessable placeholder
+      currentTokenHash: this.hashToken(nanoid(32)),
+      deviceName: 'Admin impersonation',
+      ip: context.ip,
+      userAgent: context.userAgent,
+      lastUsedAt: new Date(),
+      expiresAt,
+      impersonatedBy: adminId,
+    });
+
+    logger.info(`Impersonation session ${sessionId}: admin ${adminId} as user ${user._id}`);
+
+    return { accessToken, sessionId: String(sessionId), expiresAt };
+  }
+
+  /**
+   * Exchange a verified refresh token for a new token pair.
+   * Presenting a token that has already been rotated revokes the whole family.
+   * Device-bound sessions also need the device id they were created with.
+   */
+  async rotateRefreshToken(
+    user: IUser,
+    payload: JWTPayload,
+    refreshToken: string,
+    context: SessionContext = {}
+  ): Promise<TokenPair> {
+    if (!payload.sessionId || payload.userId !== String(user._id)) {
+      throw new AppError('Invalid refresh token', 401, 'INVALID_TOKEN');
+    }
+
+    const { accessToken, refreshToken: nextRefreshToken, expiresAt } = this.issueTokens(user, payload.sessionId);
+
+    const deviceIdHash = context.deviceId ? authService.hashSecret(context.deviceId) : undefined;
+
+    // Only the current token of an active family may be exchanged
+    const session = await Session.findOneAndUpdate(
+      {
+        _id: payload.sessionId,
+        userId: user._id,
+        currentTokenHash: this.hashToken(refreshToken),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+        $or: [{ deviceIdHash: { $exists: false } }, ...(deviceIdHash ? [{ deviceIdHash }] : [])],
+      },
+      {
+        currentTokenHash: this.hashToken(nextRefreshToken),
+        lastUsedAt: new Date(),
+        expiresAt,
+        ...(context.ip && { ip: context.ip }),
+        ...(context.userAgent && { userAgent: context.userAgent }),
+      },
+      { new: true }
+    );
+
+    if (session) {
+      return { accessToken, refreshToken: nextRefreshToken };
+    }
+
+    const existing = await Session.findById(payload.sessionId);
+    if (!existing || !existing.isActive()) {
+      throw new AppError('Session has been revoked or expired', 401, 'SESSION_REVOKED');
+    }
+    if (existing.deviceIdHash && existing.deviceIdHash !== deviceIdHash) {
+      throw new AppError('Session is bound to another device', 401, 'DEVICE_MISMATCH');
+    }
+
+    await this.handleReuse(existing, context);
+    throw new AppError('Refresh token has already been used', 401, 'REFRESH_TOKEN_REUSED');
+  }
+
+  /**
+   * Revoke a token family after an already-rotated refresh token was replayed
+   */
+  private async handleReuse(session: ISession, context: SessionContext): Promise<void> {
+    await this.revokeSession(String(session._id), 'refresh_token_reuse');
+
+    await AuditLog.create({
+      action: 'refresh_token_reuse_detected',
+      actorUserId: session.userId,
+      target: `session:${session._id}`,
+      timestamp: new Date(),
+      meta: {
+        ip: context.ip,
+        userAgent: context.userAgent,
+        sessionCreatedAt: session.createdAt,
+      },
+    });
+
+    logger.warn(`Refresh token reuse detected, session revoked: ${session._id}`);
+  }
+
+  /**
+   * Check whether a session can still be used
+   */
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await Session.findOne({ _id: sessionId, userId }).select('revokedAt expiresAt');
+    return !!session && session.isActive();
+  }
+
+  /**
+   * List active sessions of a user, most recently used first
+   */
+  async listActiveSessions(userId: string): Promise<ISession[]> {
+    return Session.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+      impersonatedBy: { $exists: false },
+    })
+      .select('-currentTokenHash')
+      .sort({ lastUsedAt: -1 });
+  }
+
+  /**
+   * Revoke a single session
+   */
+  async revokeSession(sessionId: string, reason: string, userId?: string): Promise<boolean> {
+    const result = await Session.updateOne(
+      { _id: sessionId, ...(userId && { userId }), revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping the current one
+   */
+  async revokeAllForUser(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const result = await Session.updateMany(
+      {
+        userId,
+        revokedAt: { $exists: false },
+        ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+      },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+
+    logger.info(`Revoked ${result.modifiedCount} sessions for user ${userId} (${reason})`);
+    return result.modifiedCount;
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { StreamChat } from 'stream-chat';
 import { config } from '../config/env';
+import { UserRole } from '../types';
 import { logger } from '../utils/logger';
 
 /**
@@ -53,6 +54,14 @@ class StreamClientService {
     }
   }
 
+  /**
+   * Map an app role to a Stream role. Stream only knows its built-in roles;
+   * counselors chat as regular users.
+   */
+  toStreamRole(role: UserRole): string {
+    return role === UserRole.COUNSELOR ? UserRole.USER : role;
+  }
+
   /**
    * Create a Stream token for a user
    */
@@ -125,6 +134,74 @@ class StreamClientService {
     }
   }
 
+  /**
+   * Set member roles in a channel (channel_member / channel_moderator)
+   */
+  async setChannelRoles(channelType: string, channelId: string, roles: { userId: string; role: string }[]) {
+    try {
+      const channel = this.client.channel(channelType, channelId);
+      await channel.assignRoles(roles.map(({ userId, role }) => ({ user_id: userId, channel_role: role })));
+      logger.info(`Channel roles set in ${channelType}:${channelId}:`, roles);
+    } catch (error) {
+      logger.error('Error setting channel roles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ban a user from a single channel (timeout in minutes)
+   */
+  async banFromChannel(
+    channelType: string,
+    channelId: string,
+    targetUserId: string,
+    options?: {
+      timeout?: number;
+      reason?: string;
+      bannedBy?: string;
+    }
+  ) {
+    try {
+      const channel = this.client.channel(channelType, channelId);
+      await channel.banUser(targetUserId, {
+        timeout: options?.timeout,
+        reason: options?.reason,
+        banned_by_id: options?.bannedBy,
+      });
+      logger.info(`User banned from channel ${channelType}:${channelId}: ${targetUserId}`, options);
+    } catch (error) {
+      logger.error('Error banning user from channel:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lift a channel ban
+   */
+  async unbanFromChannel(channelType: string, channelId: string, targetUserId: string) {
+    try {
+      const channel = this.client.channel(channelType, channelId);
+      await channel.unbanUser(targetUserId);
+      logger.info(`User unbanned from channel ${channelType}:${channelId}: ${targetUserId}`);
+    } catch (error) {
+      logger.error('Error unbanning user from channel:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a message by id
+   */
+  async getMessage(messageId: string) {
+    try {
+      const { message } = await this.client.getMessage(messageId);
+      return message;
+    } catch (error) {
+      logger.error('Error getting message:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a message
    */
@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { authService } from './authService';
+import { IUser, User } from '../models/User';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * TOTP Service
+ * RFC 6238 time-based one-time passwords, secret encryption at rest and backup codes
+ */
+class TotpService {
+  private readonly digits = 6;
+  private readonly periodSeconds = 30;
+  private readonly issuer = 'MindSupport';
+  private readonly encryptionKey: Buffer;
+
+  constructor() {
+    this.encryptionKey = crypto
+      .createHash('sha256')
+      .update(config.twoFactor.encryptionKey)
+      .digest();
+  }
+
+  /**
+   * Encode bytes as RFC 4648 base32 (no padding)
+   */
+  base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = ((value << 8) | byte) & 0xffff;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  /**
+   * Decode RFC 4648 base32 (case-insensitive, padding and spaces ignored)
+   */
+  base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character');
+      }
+      value = ((value << 5) | index) & 0xffff;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Generate a new base32 shared secret
+   */
+  generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  /**
+   * Current time step
+   */
+  getTimeStep(timestampMs: number = Date.now()): number {
+    return Math.floor(timestampMs / 1000 / this.periodSeconds);
+  }
+
+  /**
+   * Generate the code for a time step (RFC 4226 HOTP)
+   */
+  generateCode(secret: string, timeStep: number = this.getTimeStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(timeStep));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** this.digits;
+
+    return binary.toString().padStart(this.digits, '0');
+  }
+
+  /**
+   * Verify a code within +/- window steps.
+   * Returns the matched time step, or null. Steps at or before lastUsedStep are
+   * rejected so a code cannot be replayed.
+   */
+  verifyCode(secret: string, code: string, lastUsedStep?: number, window: number = 1): number | null {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d+$/.test(normalized) || normalized.length !== this.digits) {
+      return null;
+    }
+
+    const currentStep = this.getTimeStep();
+    for (let step = currentStep - window; step <= currentStep + window; step++) {
+      if (lastUsedStep !== undefined && step <= lastUsedStep) {
+        continue;
+      }
+      const expected = this.generateCode(secret, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the otpauth:// URI rendered as a QR code by authenticator apps
+   */
+  buildProvisioningUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${this.issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.issuer,
+      algorithm: 'SHA1',
+      digits: String(this.digits),
+      period: String(this.periodSeconds),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Encrypt a secret for storage (AES-256-GCM)
+   */
+  encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [iv, tag, encrypted].map((part) => part.toString('base64')).join('.');
+  }
+
+  /**
+   * Decrypt a stored secret
+   */
+  decryptSecret(payload: string): string {
+    const [iv, tag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Check a user's TOTP code or backup code and mark it used. The code is
+   * consumed with a conditional update, so only one of several concurrent
+   * requests with the same code succeeds.
+   */
+  async verifySecondFactor(user: IUser, input: { code?: string; backupCode?: string }): Promise<boolean> {
+    const state = user.twoFactor;
+    if (!state?.enabled || !state.secretEncrypted) {
+      return false;
+    }
+
+    if (input.code) {
+      const step = this.verifyCode(this.decryptSecret(state.secretEncrypted), input.code, state.lastUsedStep);
+      if (step === null) {
+        return false;
+      }
+      const consumed = await User.updateOne(
+        {
+          _id: user._id,
+          $or: [
+            { 'twoFactor.lastUsedStep': { $lt: step } },
+            { 'twoFactor.lastUsedStep': { $exists: false } },
+          ],
+        },
+        { 'twoFactor.lastUsedStep': step }
+      );
+      return consumed.modifiedCount > 0;
+    }
+
+    if (input.backupCode) {
+      const hash = authService.hashSecret(input.backupCode);
+      if (!state.backupCodeHashes.includes(hash)) {
+        return false;
+      }
+      const consumed = await User.updateOne(
+        { _id: user._id, 'twoFactor.backupCodeHashes': hash },
+        { $pull: { 'twoFactor.backupCodeHashes': hash } }
+      );
+      return consumed.modifiedCount > 0;
+    }
+
+    return false;
+  }
+
+  /**
+   * Generate single-use backup codes with their hashes
+   */
+  generateBackupCodes(count: number = 10): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: count }, () => {
+      const raw = crypto.randomBytes(5).toString('hex').toUpperCase();
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return {
+      codes,
+      hashes: codes.map((code) => authService.hashSecret(code)),
+    };
+  }
+}
+
+// Export singleton instance
+export const totpService = new TotpService();
\ No newline at end of file
@@ -5,10 +5,30 @@ import { Request } from 'express';
  */
 export enum UserRole {
   USER = 'user',
+  COUNSELOR = 'counselor',
   MODERATOR = 'moderator',
   ADMIN = 'admin',
 }
 
+/**
+ * Named permissions checked by routes (granted via roles or per user)
+ */
+export enum Permission {
+  REPORTS_READ = 'reports.read',
+  REPORTS_RESOLVE = 'reports.resolve',
+  MODERATION_QUEUE_READ = 'moderation.queue.read',
+  MODERATION_QUEUE_PROCESS = 'moderation.queue.process',
+  USERS_BAN = 'users.ban',
+  USERS_MANAGE = 'users.manage',
+  USERS_IMPERSONATE = 'users.impersonate',
+  CHANNELS_SUSPEND = 'channels.suspend',
+  TIPS_PUBLISH = 'tips.publish',
+  CRISIS_RESPOND = 'crisis.respond',
+  APPOINTMENTS_HOST = 'appointments.host',
+  API_KEYS_MANAGE = 'apikeys.manage',
+  METRICS_READ = 'metrics.read',
+}
+
 /**
  * Report target types
  */
@@ -68,6 +88,81 @@ export enum TipType {
   VIDEO = 'video',
 }
 
+/**
+ * Purposes of single-use emailed tokens
+ */
+export enum TokenPurpose {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+  GUARDIAN_CONSENT = 'guardian_consent',
+}
+
+/**
+ * Age bands captured at registration
+ */
+export enum AgeBand {
+  UNDER_13 = 'under_13',
+  AGE_13_15 = '13_15',
+  AGE_16_17 = '16_17',
+  ADULT = '18_plus',
+}
+
+/**
+ * Parent/guardian consent for accounts under GUARDIAN_CONSENT_AGE
+ */
+export enum GuardianConsentStatus {
+  NOT_REQUIRED = 'not_required',
+  PENDING = 'pending',
+  GRANTED = 'granted',
+  DENIED = 'denied',
+}
+
+/**
+ * Scopes that can be granted to service API keys
+ */
+export enum ApiKeyScope {
+  TIPS_PUBLISH = 'tips:publish',
+  MODERATION_READ = 'moderation:read',
+  METRICS_READ = 'metrics:read',
+}
+
+/**
+ * Personal data export lifecycle
+ */
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed',
+}
+
+/**
+ * Peer-support matching request lifecycle
+ */
+export enum MatchStatus {
+  WAITING = 'waiting',
+  MATCHED = 'matched',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+}
+
+/**
+ * Who a matching request may be paired with
+ */
+export enum MatchPartnerType {
+  ANY = 'any',
+  VOLUNTEER = 'volunteer',
+  COUNSELOR = 'counselor',
+}
+
+/**
+ * Counselor appointment lifecycle
+ */
+export enum AppointmentStatus {
+  BOOKED = 'booked',
+  CANCELLED = 'cancelled',
+}
+
 /**
  * Extended Express Request with authenticated user
  */
@@ -77,6 +172,20 @@ export interface AuthenticatedRequest extends Request {
     role: UserRole;
     email?: string;
     displayName: string;
+    emailVerified?: boolean;
+    twoFactorEnabled?: boolean;
+    sessionId?: string;
+    permissions: Permission[];
+    ageBand?: AgeBand;
+    // Under the guardian consent age and consent not (yet) granted
+    guardianConsentRequired?: boolean;
+    // Set when an admin is acting as this user
+    impersonatedBy?: string;
+  };
+  apiKey?: {
+    id: string;
+    name: string;
+    scopes: ApiKeyScope[];
   };
 }
 
@@ -87,7 +196,84 @@ export interface JWTPayload {
   userId: string;
   role: UserRole;
   email?: string;
-  type: 'access' | 'refresh';
+  sessionId?: string;
+  jti?: string;
+  // Admin user id on impersonation tokens
+  impersonatedBy?: string;
+  type: 'access' | 'refresh' | 'mfa_challenge';
+}
+
+/**
+ * Client context captured when a session is created or used
+ */
+export interface SessionContext {
+  deviceName?: string;
+  // Binds the session to a device (anonymous accounts)
+  deviceId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Access/refresh token pair issued for a session
+ */
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Two-factor authentication state stored on a user
+ */
+export interface TwoFactorState {
+  enabled: boolean;
+  secretEncrypted?: string;
+  pendingSecretEncrypted?: string;
+  backupCodeHashes: string[];
+  lastUsedStep?: number;
+  enabledAt?: Date;
+}
+
+/**
+ * Guardian consent state stored on a user
+ */
+export interface GuardianConsent {
+  status: GuardianConsentStatus;
+  guardianEmail?: string;
+  requestedAt?: Date;
+  decidedAt?: Date;
+}
+
+/**
+ * External identity (OIDC provider account) linked to a user
+ */
+export interface LinkedIdentity {
+  provider: string;
+  subject: string;
+  email?: string;
+  linkedAt: Date;
+}
+
+/**
+ * Configured OpenID Connect identity provider
+ */
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientIds: string[];
+  jwksUri?: string;
+}
+
+/**
+ * Verified claims from a provider ID token
+ */
+export interface OidcClaims {
+  provider: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
 }
 
 /**
@@ -98,6 +284,7 @@ export interface AnonymousHandle {
   handle: string;
   ephemeralId: string;
   createdAt: Date;
+  retiredAt?: Date;
 }
 
 /**
@@ -0,0 +1,90 @@
+import { EphemeralMapping } from '../models/EphemeralMapping';
+import { User } from '../models/User';
+import { logger } from './logger';
+
+// Handle for legacy mappings whose user no longer records one
+const FALLBACK_HANDLE = 'Anonymous';
+
+/**
+ * Drop the old TTL index that deleted ephemeral mappings as soon as they
+ * expired. Mongoose creates new indexes but never removes old ones.
+ */
+const dropLegacyMappingTtl = async () => {
+  const indexes = await EphemeralMapping.collection.indexes();
+  if (!indexes.some((index) => index.name === 'expiresAt_1')) {
+    return;
+  }
+
+  try {
+    await EphemeralMapping.collection.dropIndex('expiresAt_1');
+    logger.info('Dropped legacy expiresAt_1 index on ephemeralmappings');
+  } catch (error: any) {
+    // Another instance dropped it first
+    if (error?.codeName !== 'IndexNotFound') {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Mappings created before the handle was stored on them take it from the
+ * user's anonymousHandles entry
+ */
+const backfillMappingHandles = async () => {
+  const legacy = await EphemeralMapping.find({ handle: { $exists: false } })
+    .select('ephemeralId realUserId')
+    .lean();
+
+  for (const mapping of legacy) {
+    const user = await User.findOne(
+      { _id: mapping.realUserId },
+      { anonymousHandles: { $elemMatch: { ephemeralId: mapping.ephemeralId } } }
+    ).lean();
+
+    await EphemeralMapping.updateOne(
+      { _id: mapping._id, handle: { $exists: false } },
+      { handle: user?.anonymousHandles?.[0]?.handle || FALLBACK_HANDLE }
+    );
+  }
+
+  if (legacy.length > 0) {
+    logger.info(`Backfilled handles on ${legacy.length} ephemeral mappings`);
+  }
+};
+
+/**
+ * Accounts created before email verification existed have no emailVerified
+ * field. Treat their addresses as verified so REQUIRE_EMAIL_VERIFICATION
+ * doesn't lock them out; new accounts always store the field.
+ */
+const grandfatherEmailVerification = async () => {
+  const result = await User.updateMany(
+    { email: { $exists: true }, emailVerified: { $exists: false } },
+    { emailVerified: true }
+  );
+
+  if (result.modifiedCount > 0) {
+    logger.info(`Marked ${result.modifiedCount} existing email addresses as verified`);
+  }
+};
+
+const migrations: Array<[string, () => Promise<void>]> = [
+  ['drop-legacy-mapping-ttl', dropLegacyMappingTtl],
+  ['backfill-mapping-handles', backfillMappingHandles],
+  ['grandfather-email-verification', grandfatherEmailVerification],
+];
+
+/**
+ * Bring existing data in line with the current models. Runs on every start,
+ * so each step must be idempotent. A failed step is logged and doesn't stop
+ * the server.
+ */
+export const runMigrations = async (): Promise<void> => {
+  for (const [name, migrate] of migrations) {
+    try {
+      await migrate();
+    } catch (error) {
+      logger.error(`Migration ${name} failed:`, error);
+    }
+  }
+};
\ No newline at end of file
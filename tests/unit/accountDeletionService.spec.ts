@@ -0,0 +1,237 @@
+import { Types } from 'mongoose';
+import { accountDeletionService } from '../../src/services/accountDeletionService';
+import { User } from '../../src/models/User';
+import { EphemeralMapping } from '../../src/models/EphemeralMapping';
+import { Report } from '../../src/models/Report';
+import { AuditLog } from '../../src/models/AuditLog';
+import { ChatRoom } from '../../src/models/ChatRoom';
+import { ModerationQueue } from '../../src/models/ModerationQueue';
+import { Appointment } from '../../src/models/Appointment';
+import { AvailabilitySlot } from '../../src/models/AvailabilitySlot';
+import { streamClient } from '../../src/services/streamClient';
+import { mailService } from '../../src/services/mailService';
+import { exportArchiveStore } from '../../src/services/exportArchiveStore';
+import { config } from '../../src/config/env';
+import { AppointmentStatus } from '../../src/types';
+
+function mockModel() {
+  return {
+    updateMany: jest.fn().mockResolvedValue({}),
+    deleteMany: jest.fn().mockResolvedValue({}),
+    create: jest.fn().mockResolvedValue({}),
+  };
+}
+
+jest.mock('../../src/models/User', () => ({
+  User: { findById: jest.fn(), find: jest.fn(), deleteOne: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/models/EphemeralMapping', () => ({
+  EphemeralMapping: { find: jest.fn(), deleteMany: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/models/Report', () => ({ Report: mockModel() }));
+jest.mock('../../src/models/AuditLog', () => ({ AuditLog: mockModel() }));
+jest.mock('../../src/models/ChatRoom', () => ({ ChatRoom: mockModel() }));
+jest.mock('../../src/models/ModerationQueue', () => ({ ModerationQueue: mockModel() }));
+jest.mock('../../src/models/Session', () => ({ Session: mockModel() }));
+jest.mock('../../src/models/OneTimeToken', () => ({ OneTimeToken: mockModel() }));
+jest.mock('../../src/models/ApiKey', () => ({ ApiKey: mockModel() }));
+jest.mock('../../src/models/DataExport', () => ({ DataExport: mockModel() }));
+jest.mock('../../src/models/ChannelInvite', () => ({ ChannelInvite: mockModel() }));
+jest.mock('../../src/models/MatchRequest', () => ({ MatchRequest: mockModel() }));
+jest.mock('../../src/models/Appointment', () => ({ Appointment: { ...mockModel(), find: jest.fn() } }));
+jest.mock('../../src/models/AvailabilitySlot', () => ({
+  AvailabilitySlot: { ...mockModel(), updateOne: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/services/streamClient', () => ({
+  streamClient: {
+    deactivateUser: jest.fn().mockResolvedValue(undefined),
+    sendSystemMessage: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+jest.mock('../../src/services/exportArchiveStore', () => ({
+  exportArchiveStore: { deleteForUser: jest.fn().mockResolvedValue(0) },
+}));
+jest.mock('../../src/services/mailService', () => ({
+  mailService: {
+    sendAccountDeletionScheduledEmail: jest.fn().mockResolvedValue(undefined),
+    sendAppointmentCancelledEmail: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+describe('AccountDeletionService', () => {
+  const userId = '64b7f0c2a1b2c3d4e5f60718';
+  const user: any = {
+    _id: userId,
+    anonymousHandles: [{ ephemeralId: `anon_${userId}_handle01` }],
+    deletionRequestedAt: new Date('2026-01-01'),
+    save: jest.fn().mockResolvedValue(undefined),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (User.findById as jest.Mock).mockResolvedValue(user);
+    (EphemeralMapping.find as jest.Mock).mockReturnValue({
+      select: jest.fn().mockResolvedValue([{ ephemeralId: `anon_${userId}_mapped01` }]),
+    });
+    (Appointment.find as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('pseudonymFor', () => {
+    it('should be stable and not reveal the user id', () => {
+      const pseudonym = accountDeletionService.pseudonymFor(userId);
+
+      expect(String(pseudonym)).toMatch(/^[0-9a-f]{24}$/);
+      expect(String(pseudonym)).not.toBe(userId);
+      expect(String(accountDeletionService.pseudonymFor(userId))).toBe(String(pseudonym));
+    });
+  });
+
+  describe('schedule', () => {
+    it('should schedule deletion after the grace period', async () => {
+      const target: any = { _id: userId, email: 'a@example.com', displayName: 'A', save: jest.fn() };
+
+      const scheduledFor = await accountDeletionService.schedule(target);
+
+      const days = (scheduledFor.getTime() - target.deletionRequestedAt.getTime()) / 86400000;
+      expect(Math.round(days)).toBe(config.accountDeletion.graceDays);
+      expect(target.save).toHaveBeenCalled();
+      expect(AuditLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'account_deletion_requested' })
+      );
+    });
+  });
+
+  describe('erase', () => {
+    it('should delete messages in Stream for the user and every anonymous identity', async () => {
+      await accountDeletionService.erase(userId);
+
+      const ids = (streamClient.deactivateUser as jest.Mock).mock.calls.map(([id]) => id);
+      expect(ids).toEqual([userId, `anon_${userId}_mapped01`, `anon_${userId}_handle01`]);
+      expect(streamClient.deactivateUser).toHaveBeenCalledWith(userId, { mark_messages_deleted: true });
+    });
+
+    it('should pseudonymize kept records and remove personal documents', async () => {
+      const pseudonym = accountDeletionService.pseudonymFor(userId);
+
+      await accountDeletionService.erase(userId);
+
+      expect(Report.updateMany).toHaveBeenCalledWith({ reporterUserId: userId }, { reporterUserId: pseudonym });
+      expect(AuditLog.updateMany).toHaveBeenCalledWith(
+        { actorUserId: userId },
+        expect.objectContaining({ actorUserId: pseudonym })
+      );
+      expect(AuditLog.updateMany).toHaveBeenCalledWith(
+        { target: `user:${userId}` },
+        expect.objectContaining({ target: `user:${pseudonym}` })
+      );
+      expect(ModerationQueue.updateMany).toHaveBeenCalled();
+      expect(ChatRoom.updateMany).toHaveBeenCalledWith({
+        $or: [
+          { [`members.${userId}`]: { $exists: true } },
+          { [`members.anon_${userId}_mapped01`]: { $exists: true } },
+          { [`members.anon_${userId}_handle01`]: { $exists: true } },
+        ],
+      }, {
+        $unset: {
+          [`members.${userId}`]: '',
+          [`members.anon_${userId}_mapped01`]: '',
+          [`members.anon_${userId}_handle01`]: '',
+        },
+      });
+      expect(EphemeralMapping.deleteMany).toHaveBeenCalledWith({ realUserId: userId });
+      expect(exportArchiveStore.deleteForUser).toHaveBeenCalledWith(userId);
+      expect(User.deleteOne).toHaveBeenCalledWith({ _id: userId });
+    });
+
+    it('should write a final audit record without the real user id', async () => {
+      await accountDeletionService.erase(userId);
+
+      const final = (AuditLog.create as jest.Mock).mock.calls[0][0];
+      expect(final.action).toBe('account_erased');
+      expect(JSON.stringify(final)).not.toContain(userId);
+    });
+
+    it('should leave the account in place when Stream fails', async () => {
+      (streamClient.deactivateUser as jest.Mock).mockRejectedValueOnce(new Error('Stream unavailable'));
+
+      await expect(accountDeletionService.erase(userId)).rejects.toThrow('Stream unavailable');
+      expect(User.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should ignore identities that do not exist in Stream', async () => {
+      (streamClient.deactivateUser as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('user "anon" does not exist'));
+
+      await accountDeletionService.erase(userId);
+
+      expect(User.deleteOne).toHaveBeenCalled();
+    });
+  });
+
+  describe('erase with upcoming appointments', () => {
+    const otherId = new Types.ObjectId();
+    const other: any = { _id: otherId, email: 'other@example.com', displayName: 'Other' };
+
+    const booked = (role: 'client' | 'counselor'): any => ({
+      _id: new Types.ObjectId(),
+      userId: role === 'client' ? new Types.ObjectId(userId) : otherId,
+      counselorId: role === 'counselor' ? new Types.ObjectId(userId) : otherId,
+      slotId: new Types.ObjectId(),
+      status: AppointmentStatus.BOOKED,
+      startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      timezone: 'UTC',
+      counselorTimezone: 'UTC',
+      streamChannelId: 'messaging:appointment-1',
+      save: jest.fn().mockResolvedValue(undefined),
+    });
+
+    beforeEach(() => {
+      (User.findById as jest.Mock).mockImplementation(async (id) => (String(id) === userId ? user : other));
+    });
+
+    it('should free the slot and tell the counselor when a client is erased', async () => {
+      const appointment = booked('client');
+      (Appointment.find as jest.Mock).mockResolvedValue([appointment]);
+
+      await accountDeletionService.erase(userId);
+
+      expect(appointment.status).toBe(AppointmentStatus.CANCELLED);
+      expect(AvailabilitySlot.updateOne).toHaveBeenCalledWith(
+        { _id: appointment.slotId, appointmentId: appointment._id },
+        { $unset: { appointmentId: '' } }
+      );
+      expect(mailService.sendAppointmentCancelledEmail).toHaveBeenCalledWith(
+        'other@example.com', 'Other', appointment.startsAt, 'UTC'
+      );
+      expect(Appointment.deleteMany).toHaveBeenCalledWith({ userId: user._id });
+    });
+
+    it('should cancel the clients\' sessions when a counselor is erased', async () => {
+      const appointment = booked('counselor');
+      (Appointment.find as jest.Mock).mockResolvedValue([appointment]);
+
+      await accountDeletionService.erase(userId);
+
+      expect(appointment.status).toBe(AppointmentStatus.CANCELLED);
+      expect(appointment.timeBuckets).toBeUndefined();
+      expect(mailService.sendAppointmentCancelledEmail).toHaveBeenCalledWith(
+        'other@example.com', 'Other', appointment.startsAt, 'UTC'
+      );
+      expect(streamClient.sendSystemMessage).toHaveBeenCalled();
+    });
+  });
+
+  describe('processDue', () => {
+    it('should keep going when one account fails', async () => {
+      (User.find as jest.Mock).mockReturnValue({
+        select: jest.fn().mockResolvedValue([{ _id: 'a' }, { _id: 'b' }]),
+      });
+      (User.findById as jest.Mock)
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValueOnce(user);
+
+      await expect(accountDeletionService.processDue()).resolves.toBe(1);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { ageGate } from '../../src/services/ageGate';
+import { AgeBand, GuardianConsentStatus } from '../../src/types';
+import { requireGuardianConsent } from '../../src/middleware/auth';
+import { schemas } from '../../src/middleware/validation';
+
+describe('Age Gate', () => {
+  const now = new Date('2026-06-15T12:00:00.000Z');
+
+  describe('ageOn', () => {
+    it('should count a birthday only once it has been reached', () => {
+      expect(ageGate.ageOn(new Date('2010-06-15'), now)).toBe(16);
+      expect(ageGate.ageOn(new Date('2010-06-16'), now)).toBe(15);
+    });
+  });
+
+  describe('assess', () => {
+    it('should refuse users below the minimum age', () => {
+      expect(() => ageGate.assess({ dateOfBirth: new Date('2014-01-01') }, now)).toThrow(
+        expect.objectContaining({ statusCode: 403, code: 'AGE_REQUIREMENT_NOT_MET' })
+      );
+      expect(() => ageGate.assess({ ageBand: AgeBand.UNDER_13 }, now)).toThrow();
+    });
+
+    it('should require guardian consent below the consent age', () => {
+      const result = ageGate.assess({ dateOfBirth: new Date('2012-01-01') }, now);
+
+      expect(result).toEqual({ ageBand: AgeBand.AGE_13_15, age: 14, guardianConsentRequired: true });
+    });
+
+    it('should not require consent at or above the consent age', () => {
+      expect(ageGate.assess({ ageBand: AgeBand.AGE_16_17 }, now).guardianConsentRequired).toBe(false);
+      expect(ageGate.assess({ ageBand: AgeBand.ADULT }, now).ageBand).toBe(AgeBand.ADULT);
+    });
+
+    it('should prefer the date of birth over a declared band', () => {
+      const result = ageGate.assess({ dateOfBirth: new Date('2000-01-01'), ageBand: AgeBand.AGE_13_15 }, now);
+
+      expect(result.ageBand).toBe(AgeBand.ADULT);
+    });
+  });
+
+  describe('isMinor', () => {
+    it('should recompute the band from the date of birth', () => {
+      expect(ageGate.isMinor({ dateOfBirth: new Date('1990-01-01'), ageBand: AgeBand.AGE_16_17 })).toBe(false);
+      expect(ageGate.isMinor({ ageBand: AgeBand.AGE_16_17 })).toBe(true);
+      expect(ageGate.isMinor({})).toBe(false);
+    });
+  });
+
+  describe('isConsentOutstanding', () => {
+    it('should treat pending and denied consent as outstanding', () => {
+      expect(ageGate.isConsentOutstanding({ status: GuardianConsentStatus.PENDING })).toBe(true);
+      expect(ageGate.isConsentOutstanding({ status: GuardianConsentStatus.DENIED })).toBe(true);
+      expect(ageGate.isConsentOutstanding({ status: GuardianConsentStatus.GRANTED })).toBe(false);
+      expect(ageGate.isConsentOutstanding(undefined)).toBe(false);
+    });
+  });
+
+  describe('register schema', () => {
+    const base = { email: 'sam@example.com', password: 'pw', displayName: 'Sam' };
+
+    it('should require a date of birth or an age band', () => {
+      expect(schemas.register.body.safeParse(base).success).toBe(false);
+      expect(schemas.register.body.safeParse({ ...base, ageBand: AgeBand.ADULT }).success).toBe(true);
+    });
+
+    it('should reject malformed or future dates of birth', () => {
+      expect(schemas.register.body.safeParse({ ...base, dateOfBirth: '01/02/2000' }).success).toBe(false);
+      expect(schemas.register.body.safeParse({ ...base, dateOfBirth: '2999-01-01' }).success).toBe(false);
+      expect(schemas.register.body.safeParse({ ...base, dateOfBirth: '2000-02-30' }).success).toBe(false);
+      expect(schemas.register.body.safeParse({ ...base, dateOfBirth: '2000-02-29' }).success).toBe(true);
+    });
+  });
+
+  describe('anonymous schema', () => {
+    it('should require a date of birth or an age band', () => {
+      const base = { deviceId: 'device-1234' };
+
+      expect(schemas.anonymous.body.safeParse(base).success).toBe(false);
+      expect(schemas.anonymous.body.safeParse({ ...base, ageBand: AgeBand.AGE_16_17 }).success).toBe(true);
+    });
+  });
+
+  describe('requireGuardianConsent', () => {
+    it('should block users waiting for guardian consent', () => {
+      const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+      const next = jest.fn();
+
+      requireGuardianConsent({ user: { guardianConsentRequired: true } } as any, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+
+      requireGuardianConsent({ user: { guardianConsentRequired: false } } as any, res, next);
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { createAnonymousAccount, recoverAnonymousAccount, upgradeAccount } from '../../src/controllers/authController';
+import { User } from '../../src/models/User';
+import { authService } from '../../src/services/authService';
+import { sessionService } from '../../src/services/sessionService';
+import { principalCache } from '../../src/services/principalCache';
+import { AgeBand, UserRole } from '../../src/types';
+
+jest.mock('../../src/models/User', () => ({
+  User: { create: jest.fn(), findOne: jest.fn(), findOneAndUpdate: jest.fn(), findById: jest.fn() },
+}));
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/services/sessionService', () => ({
+  sessionService: {
+    createSession: jest.fn().mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' }),
+    revokeAllForUser: jest.fn().mockResolvedValue(1),
+  },
+}));
+jest.mock('../../src/services/oneTimeTokenService', () => ({
+  oneTimeTokenService: { issue: jest.fn().mockResolvedValue('token') },
+}));
+jest.mock('../../src/services/mailService', () => ({
+  mailService: { sendEmailVerificationEmail: jest.fn().mockResolvedValue(undefined) },
+}));
+jest.mock('../../src/services/principalCache', () => ({
+  principalCache: { invalidate: jest.fn().mockResolvedValue(undefined) },
+}));
+
+describe('Anonymous accounts', () => {
+  const request = (body: Record<string, unknown>, user?: Record<string, unknown>) =>
+    ({ body, user, ip: '127.0.0.1', get: () => 'jest' }) as any;
+  const mockResponse = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn() }) as any;
+
+  const anonymousUser = (extra: Record<string, unknown> = {}): any => ({
+    _id: 'user-123',
+    displayName: 'Guest 1234',
+    isAnonymous: true,
+    role: UserRole.USER,
+    recoveryCodeHash: authService.hashSecret('old-code'),
+    isBanned: () => false,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...extra,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createAnonymousAccount', () => {
+    it('should store only the recovery code hash and bind the session to the device', async () => {
+      (User.create as jest.Mock).mockImplementation(async (data: any) => ({ ...data, _id: 'user-123' }));
+      const res = mockResponse();
+
+      await createAnonymousAccount(request({ deviceId: 'device-1234', ageBand: AgeBand.ADULT }), res);
+
+      const { recoveryCode } = res.json.mock.calls[0][0].data;
+      const stored = (User.create as jest.Mock).mock.calls[0][0];
+      expect(stored.recoveryCodeHash).toBe(authService.hashSecret(recoveryCode));
+      expect(JSON.stringify(stored)).not.toContain(recoveryCode);
+      expect(stored.isAnonymous).toBe(true);
+      expect(sessionService.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: 'user-123' }),
+        expect.objectContaining({ deviceId: 'device-1234' })
+      );
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
+  });
+
+  describe('recoverAnonymousAccount', () => {
+    it('should rotate the code only if it is still current and move the account to the device', async () => {
+      const user = anonymousUser();
+      (User.findOne as jest.Mock).mockResolvedValue(user);
+      (User.findOneAndUpdate as jest.Mock).mockResolvedValue(user);
+      const res = mockResponse();
+
+      await recoverAnonymousAccount(request({ recoveryCode: 'old-code', deviceId: 'device-5678' }), res);
+
+      const [filter, update] = (User.findOneAndUpdate as jest.Mock).mock.calls[0];
+      expect(filter).toEqual({ _id: 'user-123', recoveryCodeHash: authService.hashSecret('old-code'), isAnonymous: true });
+      const { recoveryCode } = res.json.mock.calls[0][0].data;
+      expect(update.recoveryCodeHash).toBe(authService.hashSecret(recoveryCode));
+      expect(sessionService.revokeAllForUser).toHaveBeenCalledWith('user-123', 'device_rebound');
+      expect(sessionService.createSession).toHaveBeenCalledWith(user, expect.objectContaining({ deviceId: 'device-5678' }));
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should let only one of two concurrent recoveries with the same code through', async () => {
+      (User.findOne as jest.Mock).mockResolvedValue(anonymousUser());
+      (User.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        recoverAnonymousAccount(request({ recoveryCode: 'old-code', deviceId: 'device-5678' }), mockResponse())
+      ).rejects.toMatchObject({ statusCode: 401, code: 'INVALID_RECOVERY_CODE' });
+      expect(sessionService.revokeAllForUser).not.toHaveBeenCalled();
+      expect(sessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should refuse banned accounts without using up the code', async () => {
+      (User.findOne as jest.Mock).mockResolvedValue(anonymousUser({ isBanned: () => true }));
+
+      await expect(
+        recoverAnonymousAccount(request({ recoveryCode: 'old-code', deviceId: 'device-5678' }), mockResponse())
+      ).rejects.toMatchObject({ statusCode: 403, code: 'USER_BANNED' });
+      expect(User.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upgradeAccount', () => {
+    it('should attach email login to the same account and drop the recovery code', async () => {
+      const user = anonymousUser();
+      (User.findById as jest.Mock).mockResolvedValue(user);
+      (User.findOne as jest.Mock).mockResolvedValue(null);
+      const res = mockResponse();
+
+      await upgradeAccount(
+        request({ email: 'sam@example.com', password: 'Tangerine-Lighthouse-42' }, { id: 'user-123' }),
+        res
+      );
+
+      expect(user._id).toBe('user-123');
+      expect(user.email).toBe('sam@example.com');
+      expect(user.isAnonymous).toBe(false);
+      expect(user.recoveryCodeHash).toBeUndefined();
+      expect(await authService.comparePassword('Tangerine-Lighthouse-42', user.passwordHash)).toBe(true);
+      expect(user.save).toHaveBeenCalled();
+      expect(principalCache.invalidate).toHaveBeenCalledWith('user-123');
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should refuse an email another account uses', async () => {
+      (User.findById as jest.Mock).mockResolvedValue(anonymousUser());
+      (User.findOne as jest.Mock).mockResolvedValue({ _id: 'other' });
+
+      await expect(
+        upgradeAccount(
+          request({ email: 'sam@example.com', password: 'Tangerine-Lighthouse-42' }, { id: 'user-123' }),
+          mockResponse()
+        )
+      ).rejects.toMatchObject({ statusCode: 409, code: 'USER_EXISTS' });
+    });
+
+    it('should refuse accounts that already have email login', async () => {
+      (User.findById as jest.Mock).mockResolvedValue(anonymousUser({ isAnonymous: false }));
+
+      await expect(
+        upgradeAccount(
+          request({ email: 'sam@example.com', password: 'Tangerine-Lighthouse-42' }, { id: 'user-123' }),
+          mockResponse()
+        )
+      ).rejects.toMatchObject({ statusCode: 400, code: 'ALREADY_UPGRADED' });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { anonymousIdentityService } from '../../src/services/anonymousIdentityService';
+import { EphemeralMapping } from '../../src/models/EphemeralMapping';
+import { ChatRoom } from '../../src/models/ChatRoom';
+import { User } from '../../src/models/User';
+import { AuditLog } from '../../src/models/AuditLog';
+import { streamClient } from '../../src/services/streamClient';
+
+jest.mock('../../src/models/EphemeralMapping', () => ({
+  EphemeralMapping: {
+    exists: jest.fn(),
+    create: jest.fn().mockResolvedValue({}),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+  },
+}));
+jest.mock('../../src/models/ChatRoom', () => ({
+  ChatRoom: { findOne: jest.fn(), updateOne: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/models/User', () => ({ User: { updateOne: jest.fn().mockResolvedValue({}) } }));
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/services/streamClient', () => ({
+  streamClient: {
+    upsertUser: jest.fn().mockResolvedValue(undefined),
+    removeMembers: jest.fn().mockResolvedValue(undefined),
+    deactivateUser: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const USER = '507f1f77bcf86cd799439011';
+const ANON = `anon_${USER}_abcd1234`;
+
+const makeUser = () => ({
+  _id: USER,
+  anonymousHandles: [] as any[],
+  save: jest.fn().mockResolvedValue(undefined),
+}) as any;
+
+const makeMapping = (extra: Record<string, unknown> = {}) => ({
+  _id: 'mapping-1',
+  ephemeralId: ANON,
+  realUserId: USER,
+  channelId: 'messaging:room-1',
+  handle: 'Quiet Owl',
+  expiresAt: new Date(Date.now() - 1000),
+  save: jest.fn().mockResolvedValue(undefined),
+  ...extra,
+});
+
+// Chainable stand-in for Model.findOne().select()
+function room(role?: string) {
+  return {
+    select: jest.fn().mockResolvedValue({
+      members: new Map(role ? [[ANON, { role, joinedAt: new Date() }]] : []),
+    }),
+  };
+}
+
+describe('Anonymous Identity Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (EphemeralMapping.exists as jest.Mock).mockResolvedValue(null);
+    (EphemeralMapping.findOne as jest.Mock).mockResolvedValue(null);
+    (ChatRoom.findOne as jest.Mock).mockReturnValue(room('member'));
+  });
+
+  describe('binding', () => {
+    it('should refuse a handle another identity uses in the channel', async () => {
+      (EphemeralMapping.exists as jest.Mock).mockResolvedValue({ _id: 'other' });
+
+      await expect(
+        anonymousIdentityService.bind(makeUser(), 'quiet owl ', 'messaging:room-1')
+      ).rejects.toMatchObject({ statusCode: 409, code: 'HANDLE_TAKEN' });
+      expect(EphemeralMapping.exists).toHaveBeenCalledWith({
+        channelId: 'messaging:room-1',
+        handleKey: 'quiet owl',
+      });
+      expect(streamClient.upsertUser).not.toHaveBeenCalled();
+    });
+
+    it('should bind a pending identity with the same handle to the channel', async () => {
+      const user = makeUser();
+      user.anonymousHandles.push({ ephemeralId: ANON, handle: 'Quiet Owl', channelId: 'pending' });
+      (EphemeralMapping.findOne as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(makeMapping({ channelId: 'pending' }));
+
+      const ephemeralId = await anonymousIdentityService.bind(user, 'Quiet Owl', 'messaging:room-1');
+
+      expect(ephemeralId).toBe(ANON);
+      expect(EphemeralMapping.updateOne).toHaveBeenCalledWith(
+        { _id: 'mapping-1', channelId: 'pending' },
+        expect.objectContaining({ channelId: 'messaging:room-1', handleKey: 'quiet owl' })
+      );
+      expect(user.anonymousHandles[0].channelId).toBe('messaging:room-1');
+      expect(EphemeralMapping.create).not.toHaveBeenCalled();
+    });
+
+    it('should reuse the identity already bound to the channel', async () => {
+      (EphemeralMapping.findOne as jest.Mock).mockResolvedValueOnce(makeMapping());
+
+      const ephemeralId = await anonymousIdentityService.bind(makeUser(), 'Quiet Owl', 'messaging:room-1');
+
+      expect(ephemeralId).toBe(ANON);
+      expect(EphemeralMapping.create).not.toHaveBeenCalled();
+    });
+
+    it('should report a lost race for the handle as taken', async () => {
+      (EphemeralMapping.create as jest.Mock).mockRejectedValueOnce({ code: 11000 });
+
+      await expect(
+        anonymousIdentityService.create(makeUser(), 'Quiet Owl', 'messaging:room-1')
+      ).rejects.toMatchObject({ code: 'HANDLE_TAKEN' });
+    });
+  });
+
+  it('should only renew identities past half their lifetime', async () => {
+    await anonymousIdentityService.renew(ANON);
+
+    const [filter, update] = (EphemeralMapping.updateOne as jest.Mock).mock.calls[0];
+    expect(filter).toMatchObject({ ephemeralId: ANON, retiredAt: { $exists: false } });
+    expect(filter.expiresAt.$lt.getTime()).toBeLessThan(update.expiresAt.getTime());
+  });
+
+  it('should require a bound handle when issuing a token for a channel', async () => {
+    await expect(
+      anonymousIdentityService.issue(makeUser(), 'Quiet Owl', 'messaging:room-1')
+    ).rejects.toMatchObject({ statusCode: 404, code: 'HANDLE_NOT_FOUND' });
+  });
+
+  describe('retirement', () => {
+    it('should remove expired identities from their channel and from Stream', async () => {
+      (EphemeralMapping.find as jest.Mock).mockReturnValue({
+        limit: jest.fn().mockResolvedValue([makeMapping()]),
+      });
+      const now = new Date();
+
+      const retired = await anonymousIdentityService.retireExpired(now);
+
+      expect(retired).toBe(1);
+      expect(streamClient.removeMembers).toHaveBeenCalledWith('messaging', 'room-1', [ANON]);
+      expect(streamClient.deactivateUser).toHaveBeenCalledWith(ANON);
+      expect(ChatRoom.updateOne).toHaveBeenCalledWith(
+        { streamChannelId: 'messaging:room-1' },
+        { $unset: { [`members.${ANON}`]: '' } }
+      );
+      expect(EphemeralMapping.updateOne).toHaveBeenCalledWith(
+        { _id: 'mapping-1' },
+        { retiredAt: now, $unset: { handleKey: '' } }
+      );
+      expect(User.updateOne).toHaveBeenCalledWith(
+        { _id: USER, 'anonymousHandles.ephemeralId': ANON },
+        { 'anonymousHandles.$.retiredAt': now }
+      );
+    });
+
+    it('should keep identities that own their room', async () => {
+      (EphemeralMapping.find as jest.Mock).mockReturnValue({
+        limit: jest.fn().mockResolvedValue([makeMapping()]),
+      });
+      (ChatRoom.findOne as jest.Mock).mockReturnValue(room('owner'));
+
+      const retired = await anonymousIdentityService.retireExpired();
+
+      expect(retired).toBe(0);
+      expect(streamClient.deactivateUser).not.toHaveBeenCalled();
+    });
+
+    it('should tolerate identities already gone from Stream', async () => {
+      (EphemeralMapping.findOne as jest.Mock).mockResolvedValue(makeMapping({ channelId: 'pending' }));
+      (streamClient.deactivateUser as jest.Mock).mockRejectedValueOnce(new Error('user does not exist'));
+
+      await anonymousIdentityService.retireForUser(USER, ANON);
+
+      expect(streamClient.removeMembers).not.toHaveBeenCalled();
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'anonymous_handle_retired',
+      }));
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { apiKeyService } from '../../src/services/apiKeyService';
+import { ApiKey } from '../../src/models/ApiKey';
+import { ApiKeyScope } from '../../src/types';
+
+jest.mock('../../src/models/ApiKey', () => ({
+  ApiKey: {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+  },
+}));
+
+describe('ApiKeyService', () => {
+  const mockedApiKey = ApiKey as jest.Mocked<any>;
+  let stored: any;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockedApiKey.create.mockImplementation(async (doc: any) => {
+      stored = { _id: 'key-id', ...doc, isActive: () => !doc.revokedAt };
+      return stored;
+    });
+    mockedApiKey.findOne.mockImplementation(async (query: any) =>
+      stored && stored.prefix === query.prefix ? stored : null
+    );
+  });
+
+  it('should create keys with a prefix and store only the hash', async () => {
+    const { key } = await apiKeyService.create({
+      name: 'scheduler',
+      scopes: [ApiKeyScope.TIPS_PUBLISH, ApiKeyScope.TIPS_PUBLISH],
+    });
+
+    expect(key).toMatch(/^msk_[a-z0-9]{10}_[A-Za-z0-9_-]{43}$/);
+    expect(key).toContain(stored.prefix);
+    expect(stored.keyHash).not.toContain(key);
+    expect(stored.scopes).toEqual([ApiKeyScope.TIPS_PUBLISH]);
+  });
+
+  it('should resolve a valid key and record its use', async () => {
+    const { key } = await apiKeyService.create({ name: 'dashboard', scopes: [ApiKeyScope.METRICS_READ] });
+
+    const resolved = await apiKeyService.verify(key, '10.0.0.1');
+
+    expect(resolved).toEqual({ id: 'key-id', name: 'dashboard', scopes: [ApiKeyScope.METRICS_READ] });
+    expect(mockedApiKey.updateOne).toHaveBeenCalledWith(
+      { _id: 'key-id' },
+      expect.objectContaining({ lastUsedIp: '10.0.0.1' })
+    );
+  });
+
+  it('should reject tampered, unknown and revoked keys', async () => {
+    const { key } = await apiKeyService.create({ name: 'dashboard', scopes: [ApiKeyScope.METRICS_READ] });
+
+    const tampered = key.slice(0, -1) + (key.endsWith('A') ? 'B' : 'A');
+
+    expect(await apiKeyService.verify(tampered)).toBeNull();
+    expect(await apiKeyService.verify('msk_0000000000_' + 'a'.repeat(43))).toBeNull();
+    expect(await apiKeyService.verify('not-a-key')).toBeNull();
+
+    stored.isActive = () => false;
+    expect(await apiKeyService.verify(key)).toBeNull();
+  });
+
+  it('should accept the legacy publish secret for tips:publish only', async () => {
+    const resolved = await apiKeyService.verify(process.env.PUBLISH_SECRET!);
+
+    expect(resolved).toMatchObject({ name: 'scheduled-job', scopes: [ApiKeyScope.TIPS_PUBLISH] });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,353 @@
+import { Types } from 'mongoose';
+import { appointmentService } from '../../src/services/appointmentService';
+import { AvailabilitySlot } from '../../src/models/AvailabilitySlot';
+import { Appointment } from '../../src/models/Appointment';
+import { User } from '../../src/models/User';
+import { ChatRoom } from '../../src/models/ChatRoom';
+import { AuditLog } from '../../src/models/AuditLog';
+import { streamClient } from '../../src/services/streamClient';
+import { mailService } from '../../src/services/mailService';
+import { schemas } from '../../src/middleware/validation';
+import { AppointmentStatus } from '../../src/types';
+
+jest.mock('../../src/models/AvailabilitySlot', () => ({
+  SLOT_STEP_MINUTES: 5,
+  AvailabilitySlot: {
+    insertMany: jest.fn(),
+    deleteMany: jest.fn().mockResolvedValue({}),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn().mockResolvedValue({}),
+  },
+}));
+jest.mock('../../src/models/Appointment', () => ({
+  Appointment: {
+    create: jest.fn(),
+    deleteOne: jest.fn().mockResolvedValue({}),
+    find: jest.fn(),
+    updateOne: jest.fn(),
+  },
+}));
+jest.mock('../../src/models/User', () => ({ User: { findById: jest.fn() } }));
+jest.mock('../../src/models/ChatRoom', () => ({ ChatRoom: { create: jest.fn().mockResolvedValue({}) } }));
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/services/streamClient', () => ({
+  streamClient: {
+    createChannel: jest.fn().mockResolvedValue(undefined),
+    upsertUser: jest.fn().mockResolvedValue(undefined),
+    toStreamRole: jest.fn((role: string) => role),
+    sendSystemMessage: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+jest.mock('../../src/services/mailService', () => ({
+  mailService: {
+    sendAppointmentReminderEmail: jest.fn().mockResolvedValue(undefined),
+    sendAppointmentCancelledEmail: jest.fn().mockResolvedValue(undefined),
+  },
+  formatInTimezone: jest.fn(() => 'formatted'),
+}));
+
+const CLIENT = new Types.ObjectId('507f1f77bcf86cd799439011');
+const COUNSELOR = new Types.ObjectId('507f1f77bcf86cd799439012');
+const SLOT = '507f1f77bcf86cd7994390aa';
+
+// Whole hours from the start of the current hour, so slot times are aligned
+const inHours = (hours: number) => {
+  const hour = 60 * 60 * 1000;
+  return new Date(Math.floor(Date.now() / hour) * hour + hours * hour);
+};
+
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+const makeUser = (id: Types.ObjectId, extra: Record<string, unknown> = {}) => ({
+  _id: id,
+  email: `${id}@example.com`,
+  displayName: `User ${String(id).slice(-2)}`,
+  role: 'user',
+  ...extra,
+}) as any;
+
+const makeSlot = (extra: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(SLOT),
+  counselorId: COUNSELOR,
+  startsAt: inHours(24),
+  endsAt: inHours(25),
+  timezone: 'Europe/Berlin',
+  ...extra,
+});
+
+const makeAppointment = (extra: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(),
+  userId: CLIENT,
+  counselorId: COUNSELOR,
+  slotId: new Types.ObjectId(),
+  startsAt: inHours(24),
+  endsAt: inHours(25),
+  timezone: 'America/New_York',
+  counselorTimezone: 'Europe/Berlin',
+  status: AppointmentStatus.BOOKED,
+  streamChannelId: 'messaging:appointment-1',
+  save: jest.fn().mockResolvedValue(undefined),
+  ...extra,
+}) as any;
+
+describe('Appointment Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSlots', () => {
+    it('should refuse slots that overlap each other', async () => {
+      const startsAt = inHours(24);
+
+      await expect(appointmentService.createSlots(String(COUNSELOR), [
+        { startsAt, durationMinutes: 60 },
+        { startsAt: new Date(startsAt.getTime() + 30 * 60 * 1000), durationMinutes: 60 },
+      ], 'Europe/Berlin')).rejects.toMatchObject({ statusCode: 409, code: 'SLOT_OVERLAP' });
+      expect(AvailabilitySlot.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('should key slots by the time buckets they cover', async () => {
+      (AvailabilitySlot.insertMany as jest.Mock).mockImplementation(async (docs: any[]) => docs);
+
+      const [first, second] = await appointmentService.createSlots(String(COUNSELOR), [
+        { startsAt: inHours(24), durationMinutes: 60 },
+        { startsAt: inHours(25), durationMinutes: 50 },
+      ], 'Europe/Berlin');
+
+      expect(first.timeBuckets).toHaveLength(12);
+      expect(second.timeBuckets).toHaveLength(10);
+      expect(second.timeBuckets![0]).toBe(first.timeBuckets![11] + 1);
+    });
+
+    it('should refuse slots that overlap existing ones and keep none of the batch', async () => {
+      (AvailabilitySlot.insertMany as jest.Mock).mockRejectedValue(duplicateKey());
+
+      await expect(appointmentService.createSlots(String(COUNSELOR), [
+        { startsAt: inHours(24), durationMinutes: 50 },
+        { startsAt: inHours(26), durationMinutes: 50 },
+      ], 'Europe/Berlin')).rejects.toMatchObject({ statusCode: 409, code: 'SLOT_OVERLAP' });
+
+      const [docs] = (AvailabilitySlot.insertMany as jest.Mock).mock.calls[0];
+      expect(AvailabilitySlot.deleteMany).toHaveBeenCalledWith({
+        _id: { $in: docs.map((doc: any) => doc._id) },
+        appointmentId: { $exists: false },
+      });
+    });
+  });
+
+  describe('book', () => {
+    beforeEach(() => {
+      (AvailabilitySlot.findById as jest.Mock).mockResolvedValue(makeSlot());
+      (AvailabilitySlot.findOneAndUpdate as jest.Mock).mockResolvedValue(makeSlot());
+      (User.findById as jest.Mock).mockResolvedValue(makeUser(COUNSELOR, { role: 'counselor' }));
+      (Appointment.create as jest.Mock).mockImplementation(async (data: any) => data);
+    });
+
+    it('should claim the slot and open a private channel with the counselor', async () => {
+      const appointment = await appointmentService.book(makeUser(CLIENT), SLOT, 'America/New_York');
+
+      const [claimFilter, claimUpdate] = (AvailabilitySlot.findOneAndUpdate as jest.Mock).mock.calls[0];
+      expect(claimFilter).toMatchObject({ _id: SLOT, appointmentId: { $exists: false } });
+      expect(claimUpdate.appointmentId).toBe(appointment._id);
+      expect(streamClient.createChannel).toHaveBeenCalledWith(
+        'messaging',
+        `appointment-${appointment._id}`,
+        String(COUNSELOR),
+        expect.objectContaining({ members: [String(COUNSELOR), String(CLIENT)] })
+      );
+      expect(ChatRoom.create).toHaveBeenCalledWith(expect.objectContaining({ isPrivate: true, isGroup: false }));
+      expect(appointment).toMatchObject({
+        timezone: 'America/New_York',
+        counselorTimezone: 'Europe/Berlin',
+        streamChannelId: `messaging:appointment-${appointment._id}`,
+      });
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'appointment_booked' }));
+    });
+
+    it('should report a slot that was taken first', async () => {
+      (AvailabilitySlot.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        appointmentService.book(makeUser(CLIENT), SLOT, 'America/New_York')
+      ).rejects.toMatchObject({ statusCode: 409, code: 'SLOT_UNAVAILABLE' });
+      expect(streamClient.createChannel).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a time that clashes with another appointment and free the slot', async () => {
+      (Appointment.create as jest.Mock).mockRejectedValue(duplicateKey());
+
+      await expect(
+        appointmentService.book(makeUser(CLIENT), SLOT, 'America/New_York')
+      ).rejects.toMatchObject({ statusCode: 409, code: 'APPOINTMENT_CONFLICT' });
+      expect(AvailabilitySlot.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: new Types.ObjectId(SLOT) }),
+        { $unset: { appointmentId: '' } }
+      );
+      expect(streamClient.createChannel).not.toHaveBeenCalled();
+    });
+
+    it('should let only one of two concurrent bookings at the same time through', async () => {
+      // The unique index on the client's time buckets admits the first insert only
+      const taken = new Set<number>();
+      (Appointment.create as jest.Mock).mockImplementation(async (data: any) => {
+        await new Promise((resolve) => setImmediate(resolve));
+        if (data.timeBuckets.some((bucket: number) => taken.has(bucket))) {
+          throw duplicateKey();
+        }
+        data.timeBuckets.forEach((bucket: number) => taken.add(bucket));
+        return data;
+      });
+
+      const results = await Promise.allSettled([
+        appointmentService.book(makeUser(CLIENT), SLOT, 'America/New_York'),
+        appointmentService.book(makeUser(CLIENT), '507f1f77bcf86cd7994390bb', 'America/New_York'),
+      ]);
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+        reason: expect.objectContaining({ code: 'APPOINTMENT_CONFLICT' }),
+      });
+      expect(streamClient.createChannel).toHaveBeenCalledTimes(1);
+      expect(AvailabilitySlot.updateOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('should undo the booking when the channel cannot be created', async () => {
+      (streamClient.createChannel as jest.Mock).mockRejectedValueOnce(new Error('Stream down'));
+
+      await expect(
+        appointmentService.book(makeUser(CLIENT), SLOT, 'America/New_York')
+      ).rejects.toThrow('Stream down');
+
+      const [{ _id: appointmentId }] = (Appointment.create as jest.Mock).mock.calls[0];
+      expect(Appointment.deleteOne).toHaveBeenCalledWith({ _id: appointmentId });
+      expect(AvailabilitySlot.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: new Types.ObjectId(SLOT) }),
+        expect.objectContaining({ $unset: { appointmentId: '' } })
+      );
+    });
+  });
+
+  describe('changes', () => {
+    it('should move the appointment to the new slot and free the old one', async () => {
+      const appointment = makeAppointment();
+      const oldSlotId = appointment.slotId;
+      const newSlot = makeSlot({ startsAt: inHours(48), endsAt: inHours(49) });
+      (AvailabilitySlot.findOne as jest.Mock).mockResolvedValue(newSlot);
+      (AvailabilitySlot.findOneAndUpdate as jest.Mock).mockResolvedValue(newSlot);
+
+      await appointmentService.reschedule(appointment, String(CLIENT), SLOT);
+
+      expect(appointment.startsAt).toBe(newSlot.startsAt);
+      expect(appointment.reminderSentAt).toBeUndefined();
+      expect(AvailabilitySlot.updateOne).toHaveBeenCalledWith(
+        { _id: oldSlotId, appointmentId: appointment._id },
+        { $unset: { appointmentId: '' } }
+      );
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'appointment_rescheduled' }));
+    });
+
+    it('should keep the old slot when the new time clashes with another appointment', async () => {
+      const appointment = makeAppointment();
+      appointment.save.mockRejectedValue(duplicateKey());
+      const newSlot = makeSlot({ startsAt: inHours(48), endsAt: inHours(49) });
+      (AvailabilitySlot.findOne as jest.Mock).mockResolvedValue(newSlot);
+      (AvailabilitySlot.findOneAndUpdate as jest.Mock).mockResolvedValue(newSlot);
+
+      await expect(
+        appointmentService.reschedule(appointment, String(CLIENT), SLOT)
+      ).rejects.toMatchObject({ code: 'APPOINTMENT_CONFLICT' });
+
+      expect(AvailabilitySlot.updateOne).toHaveBeenCalledTimes(1);
+      expect(AvailabilitySlot.updateOne).toHaveBeenCalledWith(
+        { _id: newSlot._id, appointmentId: appointment._id },
+        { $unset: { appointmentId: '' } }
+      );
+    });
+
+    it('should only let the client reschedule', async () => {
+      await expect(
+        appointmentService.reschedule(makeAppointment(), String(COUNSELOR), SLOT)
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should withdraw the slot and email the client when the counselor cancels', async () => {
+      const appointment = makeAppointment();
+      (User.findById as jest.Mock).mockResolvedValue(makeUser(CLIENT));
+
+      await appointmentService.cancel(appointment, String(COUNSELOR), 'Unwell');
+
+      expect(appointment.status).toBe(AppointmentStatus.CANCELLED);
+      expect(appointment.timeBuckets).toBeUndefined();
+      const [, update] = (AvailabilitySlot.updateOne as jest.Mock).mock.calls[0];
+      expect(update.withdrawnAt).toBeInstanceOf(Date);
+      expect(update.$unset).toEqual({ appointmentId: '', timeBuckets: '' });
+      expect(mailService.sendAppointmentCancelledEmail).toHaveBeenCalledWith(
+        `${CLIENT}@example.com`,
+        expect.any(String),
+        appointment.startsAt,
+        'America/New_York'
+      );
+    });
+
+    it('should refuse to change a session that has started', async () => {
+      await expect(
+        appointmentService.cancel(makeAppointment({ startsAt: inHours(-1) }), String(CLIENT))
+      ).rejects.toMatchObject({ code: 'APPOINTMENT_NOT_CHANGEABLE' });
+    });
+  });
+
+  describe('sendDueReminders', () => {
+    it('should remind each side once, in their own timezone', async () => {
+      const appointment = makeAppointment({ startsAt: inHours(0.5) });
+      (Appointment.find as jest.Mock).mockResolvedValue([appointment, appointment]);
+      (Appointment.updateOne as jest.Mock)
+        .mockResolvedValueOnce({ modifiedCount: 1 })
+        .mockResolvedValueOnce({ modifiedCount: 0 });
+      (User.findById as jest.Mock).mockImplementation(async (id: Types.ObjectId) => makeUser(id));
+
+      const sent = await appointmentService.sendDueReminders();
+
+      expect(sent).toBe(1);
+      expect(mailService.sendAppointmentReminderEmail).toHaveBeenCalledTimes(2);
+      expect(mailService.sendAppointmentReminderEmail).toHaveBeenCalledWith(
+        `${CLIENT}@example.com`, expect.any(String), appointment.startsAt, 'America/New_York'
+      );
+      expect(mailService.sendAppointmentReminderEmail).toHaveBeenCalledWith(
+        `${COUNSELOR}@example.com`, expect.any(String), appointment.startsAt, 'Europe/Berlin'
+      );
+    });
+  });
+
+  describe('validation', () => {
+    it('should require an offset on slot times and a real timezone', () => {
+      const startsAt = inHours(24).toISOString();
+
+      expect(schemas.createSlots.body.safeParse({
+        timezone: 'Europe/Berlin',
+        slots: [{ startsAt }],
+      }).success).toBe(true);
+      expect(schemas.createSlots.body.safeParse({
+        timezone: 'Mars/Olympus',
+        slots: [{ startsAt }],
+      }).success).toBe(false);
+      expect(schemas.createSlots.body.safeParse({
+        timezone: 'Europe/Berlin',
+        slots: [{ startsAt: startsAt.replace('Z', ''), durationMinutes: 50 }],
+      }).success).toBe(false);
+    });
+
+    it('should align slots to the time bucket size', () => {
+      const startsAt = inHours(24);
+      const parse = (slot: Record<string, unknown>) =>
+        schemas.createSlots.body.safeParse({ timezone: 'Europe/Berlin', slots: [slot] }).success;
+
+      expect(parse({ startsAt: new Date(startsAt.getTime() + 2 * 60 * 1000).toISOString() })).toBe(false);
+      expect(parse({ startsAt: startsAt.toISOString(), durationMinutes: 52 })).toBe(false);
+      expect(parse({ startsAt: startsAt.toISOString(), durationMinutes: 45 })).toBe(true);
+    });
+  });
+});
\ No newline at end of file
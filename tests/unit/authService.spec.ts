@@ -110,6 +110,22 @@ describe('AuthService', () => {
     });
   });
 
+  describe('recovery codes', () => {
+    it('should generate grouped recovery codes', () => {
+      const code = authService.generateRecoveryCode();
+
+      expect(code).toMatch(/^[A-Z2-9]{5}(-[A-Z2-9]{5}){3}$/);
+      expect(authService.generateRecoveryCode()).not.toBe(code);
+    });
+
+    it('should hash codes independently of casing and separators', () => {
+      const code = authService.generateRecoveryCode();
+
+      expect(authService.hashSecret(code.toLowerCase().replace(/-/g, ' '))).toBe(authService.hashSecret(code));
+      expect(authService.hashSecret(code)).not.toContain(code);
+    });
+  });
+
   describe('token decoding', () => {
     it('should decode token without verification', () => {
       const payload = {
@@ -0,0 +1,84 @@
+import { Types } from 'mongoose';
+import { chatRoomService } from '../../src/services/chatRoomService';
+import { ChatRoom } from '../../src/models/ChatRoom';
+import { schemas } from '../../src/middleware/validation';
+
+jest.mock('../../src/models/ChatRoom', () => ({
+  ChatRoom: { aggregate: jest.fn() },
+  SUSPENDED_FLAG_COUNT: 100,
+}));
+
+const room = (n: number, extra: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(n.toString(16).padStart(24, '0')),
+  streamChannelId: `messaging:room-${n}`,
+  title: `Room ${n}`,
+  tags: ['anxiety'],
+  isGroup: true,
+  memberCount: n,
+  activityAt: new Date(Date.UTC(2026, 0, n)),
+  createdAt: new Date(Date.UTC(2025, 0, n)),
+  ...extra,
+});
+
+describe('Channel discovery', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should only match public rooms below the flag threshold', async () => {
+    (ChatRoom.aggregate as jest.Mock).mockResolvedValue([]);
+
+    await chatRoomService.discover({ tags: ['anxiety', 'sleep'], q: 'a.b (c)', sort: 'recent', limit: 20 });
+
+    const [match] = (ChatRoom.aggregate as jest.Mock).mock.calls[0][0];
+    expect(match.$match).toEqual({
+      isPrivate: false,
+      flaggedCount: { $lt: 10 },
+      tags: { $all: ['anxiety', 'sleep'] },
+      title: { $regex: 'a\\.b \\(c\\)', $options: 'i' },
+    });
+  });
+
+  it('should return a cursor that resumes after the last item', async () => {
+    (ChatRoom.aggregate as jest.Mock).mockResolvedValue([room(9), room(8), room(7)]);
+
+    const first = await chatRoomService.discover({ sort: 'members', limit: 2 });
+
+    expect(first.items.map((item) => item.memberCount)).toEqual([9, 8]);
+    expect(first.nextCursor).not.toBeNull();
+
+    (ChatRoom.aggregate as jest.Mock).mockResolvedValue([room(7)]);
+    const second = await chatRoomService.discover({ sort: 'members', limit: 2, cursor: first.nextCursor! });
+
+    const pipeline = (ChatRoom.aggregate as jest.Mock).mock.calls[1][0];
+    expect(pipeline[2].$match.$or).toEqual([
+      { memberCount: { $lt: 8 } },
+      { memberCount: 8, _id: { $lt: room(8)._id } },
+    ]);
+    expect(pipeline[3].$sort).toEqual({ memberCount: -1, _id: -1 });
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should decode recent cursors as dates', async () => {
+    (ChatRoom.aggregate as jest.Mock).mockResolvedValueOnce([room(3), room(2)]);
+    const { nextCursor } = await chatRoomService.discover({ sort: 'recent', limit: 1 });
+
+    (ChatRoom.aggregate as jest.Mock).mockResolvedValueOnce([]);
+    await chatRoomService.discover({ sort: 'recent', limit: 1, cursor: nextCursor! });
+
+    const pipeline = (ChatRoom.aggregate as jest.Mock).mock.calls[1][0];
+    expect(pipeline[2].$match.$or[0]).toEqual({ activityAt: { $lt: room(3).activityAt } });
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(
+      chatRoomService.discover({ sort: 'members', limit: 20, cursor: 'not-a-cursor' })
+    ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_CURSOR' });
+  });
+
+  it('should parse comma-separated tags and defaults', () => {
+    const query = schemas.listChannels.query.parse({ tags: 'anxiety, sleep,' });
+
+    expect(query).toEqual({ tags: ['anxiety', 'sleep'], sort: 'recent', limit: 20 });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,330 @@
+import {
+  acceptInvite,
+  createInvite,
+  deleteChannelMessage,
+  demoteModerator,
+  joinChannel,
+  leaveChannel,
+  muteMember,
+  promoteModerator,
+  removeMember,
+  transferOwnership,
+} from '../../src/controllers/streamController';
+import { ChatRoom } from '../../src/models/ChatRoom';
+import { EphemeralMapping } from '../../src/models/EphemeralMapping';
+import { User } from '../../src/models/User';
+import { AuditLog } from '../../src/models/AuditLog';
+import { streamClient } from '../../src/services/streamClient';
+import { channelInviteService } from '../../src/services/channelInviteService';
+import { Permission } from '../../src/types';
+
+jest.mock('../../src/models/ChatRoom', () => ({
+  ChatRoom: { findOne: jest.fn(), updateOne: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/models/EphemeralMapping', () => ({
+  EphemeralMapping: { find: jest.fn(), findOne: jest.fn() },
+}));
+jest.mock('../../src/models/User', () => ({ User: { findById: jest.fn() } }));
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/services/streamClient', () => ({
+  streamClient: {
+    removeMembers: jest.fn().mockResolvedValue(undefined),
+    addMembers: jest.fn().mockResolvedValue(undefined),
+    setChannelRoles: jest.fn().mockResolvedValue(undefined),
+    banFromChannel: jest.fn().mockResolvedValue(undefined),
+    getMessage: jest.fn(),
+    deleteMessage: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('../../src/services/channelInviteService', () => ({
+  channelInviteService: {
+    create: jest.fn(),
+    find: jest.fn(),
+    redeem: jest.fn(),
+    release: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const OWNER = '507f1f77bcf86cd799439011';
+const MODERATOR = '507f1f77bcf86cd799439012';
+const MEMBER = '507f1f77bcf86cd799439013';
+const ANON = `anon_${MEMBER}_abcd1234`;
+
+// Chainable stand-in for Model.find().select()
+function query(result: any) {
+  return { select: jest.fn().mockResolvedValue(result) };
+}
+
+describe('Channel membership', () => {
+  let room: any;
+  let res: any;
+
+  const request = (userId: string, body: any, permissions: Permission[] = []) => ({
+    body: { streamChannelId: 'messaging:room-1', ...body },
+    user: { id: userId, permissions },
+  }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    room = {
+      _id: 'room-id',
+      streamChannelId: 'messaging:room-1',
+      members: new Map([
+        [OWNER, { role: 'owner', joinedAt: new Date() }],
+        [MODERATOR, { role: 'moderator', joinedAt: new Date() }],
+        [MEMBER, { role: 'member', joinedAt: new Date() }],
+        [ANON, { role: 'member', joinedAt: new Date() }],
+      ]),
+    };
+    (ChatRoom.findOne as jest.Mock).mockResolvedValue(room);
+    (EphemeralMapping.find as jest.Mock).mockImplementation(({ realUserId }) =>
+      query(realUserId === MEMBER ? [{ ephemeralId: ANON }] : [])
+    );
+    (EphemeralMapping.findOne as jest.Mock).mockReturnValue(query({ realUserId: MEMBER }));
+    (User.findById as jest.Mock).mockReturnValue(query({ anonymousHandles: [] }));
+
+    res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  });
+
+  describe('leaveChannel', () => {
+    it('should remove the real and anonymous identities from Stream and the room', async () => {
+      await leaveChannel(request(MEMBER, {}), res);
+
+      expect(streamClient.removeMembers).toHaveBeenCalledWith('messaging', 'room-1', [MEMBER, ANON]);
+      expect(ChatRoom.updateOne).toHaveBeenCalledWith(
+        { _id: 'room-id' },
+        { $unset: { [`members.${MEMBER}`]: '', [`members.${ANON}`]: '' } }
+      );
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'channel_left',
+        target: 'channel:messaging:room-1',
+      }));
+    });
+
+    it('should refuse the owner', async () => {
+      await expect(leaveChannel(request(OWNER, {}), res)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'OWNER_CANNOT_LEAVE',
+      });
+      expect(streamClient.removeMembers).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for non-members', async () => {
+      await expect(
+        leaveChannel(request('507f1f77bcf86cd799439099', {}), res)
+      ).rejects.toMatchObject({ code: 'NOT_A_MEMBER' });
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let a room moderator remove an anonymous member and audit the real user', async () => {
+      await removeMember(request(MODERATOR, { memberId: ANON, reason: 'spam' }), res);
+
+      expect(streamClient.removeMembers).toHaveBeenCalledWith('messaging', 'room-1', [ANON]);
+      expect(room.members.has(ANON)).toBe(false);
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'channel_member_removed',
+        meta: expect.objectContaining({ memberId: ANON, memberUserId: MEMBER, actorRole: 'moderator' }),
+      }));
+    });
+
+    it('should not let a moderator remove the owner', async () => {
+      await expect(
+        removeMember(request(MODERATOR, { memberId: OWNER }), res)
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should not let plain members remove anyone', async () => {
+      await expect(
+        removeMember(request(MEMBER, { memberId: MODERATOR }), res)
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should let global channel moderators remove members of rooms they are not in', async () => {
+      await removeMember(
+        request('507f1f77bcf86cd799439099', { memberId: MEMBER }, [Permission.CHANNELS_SUSPEND]),
+        res
+      );
+
+      expect(streamClient.removeMembers).toHaveBeenCalledWith('messaging', 'room-1', [MEMBER]);
+    });
+  });
+
+  describe('role management', () => {
+    it('should let the owner promote a member and mirror the role to Stream', async () => {
+      await promoteModerator(request(OWNER, { memberId: MEMBER }), res);
+
+      expect(streamClient.setChannelRoles).toHaveBeenCalledWith('messaging', 'room-1', [
+        { userId: MEMBER, role: 'channel_moderator' },
+      ]);
+      expect(ChatRoom.updateOne).toHaveBeenCalledWith(
+        { _id: 'room-id' },
+        { $set: { [`members.${MEMBER}.role`]: 'moderator' } }
+      );
+      expect(room.members.get(MEMBER).role).toBe('moderator');
+    });
+
+    it('should only let the owner manage roles', async () => {
+      await expect(
+        promoteModerator(request(MODERATOR, { memberId: MEMBER }), res)
+      ).rejects.toMatchObject({ statusCode: 403 });
+      await expect(
+        demoteModerator(request(OWNER, { memberId: MEMBER }), res)
+      ).rejects.toMatchObject({ code: 'NOT_A_MODERATOR' });
+    });
+
+    it('should make the previous owner a moderator on transfer', async () => {
+      await transferOwnership(request(OWNER, { memberId: ANON }), res);
+
+      expect(room.members.get(ANON).role).toBe('owner');
+      expect(room.members.get(OWNER).role).toBe('moderator');
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'channel_ownership_transferred',
+        meta: expect.objectContaining({ fromMemberId: OWNER, toMemberId: ANON, toUserId: MEMBER }),
+      }));
+    });
+  });
+
+  describe('room moderation', () => {
+    it('should mute a member with a timed channel ban', async () => {
+      await muteMember(request(MODERATOR, { memberId: MEMBER, durationMinutes: 30 }), res);
+
+      expect(streamClient.banFromChannel).toHaveBeenCalledWith('messaging', 'room-1', MEMBER, {
+        timeout: 30,
+        reason: undefined,
+        bannedBy: MODERATOR,
+      });
+    });
+
+    it('should not let a moderator mute another moderator', async () => {
+      room.members.set(MEMBER, { role: 'moderator', joinedAt: new Date() });
+
+      await expect(
+        muteMember(request(MODERATOR, { memberId: MEMBER, durationMinutes: 30 }), res)
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should delete a member message in the room', async () => {
+      (streamClient.getMessage as jest.Mock).mockResolvedValue({ cid: 'messaging:room-1', user: { id: ANON } });
+
+      await deleteChannelMessage(request(MODERATOR, { messageId: 'msg-1' }), res);
+
+      expect(streamClient.deleteMessage).toHaveBeenCalledWith('msg-1');
+    });
+
+    it('should refuse messages from other channels', async () => {
+      (streamClient.getMessage as jest.Mock).mockResolvedValue({ cid: 'messaging:other', user: { id: ANON } });
+
+      await expect(
+        deleteChannelMessage(request(MODERATOR, { messageId: 'msg-1' }), res)
+      ).rejects.toMatchObject({ code: 'MESSAGE_NOT_FOUND' });
+      expect(streamClient.deleteMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('private rooms', () => {
+    const NEWCOMER = '507f1f77bcf86cd799439099';
+    const invite = {
+      _id: 'invite-1',
+      streamChannelId: 'messaging:room-1',
+      createdBy: OWNER,
+      uses: 1,
+      maxUses: 5,
+    };
+
+    beforeEach(() => {
+      room.isPrivate = true;
+      room.save = jest.fn().mockResolvedValue(undefined);
+    });
+
+    it('should refuse to join without a valid invite', async () => {
+      (channelInviteService.redeem as jest.Mock).mockResolvedValue(null);
+
+      await expect(joinChannel(request(NEWCOMER, {}), res)).rejects.toMatchObject({
+        statusCode: 403,
+        code: 'INVITE_REQUIRED',
+      });
+      await expect(
+        joinChannel(request(NEWCOMER, { inviteToken: 'expired' }), res)
+      ).rejects.toMatchObject({ code: 'INVITE_REQUIRED' });
+      expect(streamClient.addMembers).not.toHaveBeenCalled();
+    });
+
+    it('should join with an invite token for this channel', async () => {
+      (channelInviteService.redeem as jest.Mock).mockResolvedValue(invite);
+
+      await joinChannel(request(NEWCOMER, { inviteToken: 'tok' }), res);
+
+      expect(channelInviteService.redeem).toHaveBeenCalledWith('tok', 'messaging:room-1');
+      expect(streamClient.addMembers).toHaveBeenCalledWith('messaging', 'room-1', [NEWCOMER]);
+      expect(room.members.get(NEWCOMER).role).toBe('member');
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'channel_invite_accepted' }));
+    });
+
+    it('should let existing members rejoin without an invite and keep their role', async () => {
+      await joinChannel(request(MODERATOR, {}), res);
+
+      expect(channelInviteService.redeem).not.toHaveBeenCalled();
+      expect(room.members.get(MODERATOR).role).toBe('moderator');
+    });
+
+    describe('acceptInvite', () => {
+      const accept = (userId: string) =>
+        acceptInvite({ params: { token: 'tok' }, body: {}, user: { id: userId, permissions: [] } } as any, res);
+
+      beforeEach(() => {
+        (channelInviteService.find as jest.Mock).mockResolvedValue(invite);
+        (channelInviteService.redeem as jest.Mock).mockResolvedValue(invite);
+      });
+
+      it('should accept an invite by token', async () => {
+        await accept(NEWCOMER);
+
+        expect(channelInviteService.redeem).toHaveBeenCalledWith('tok', 'messaging:room-1');
+        expect(room.members.has(NEWCOMER)).toBe(true);
+        expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'channel_invite_accepted' }));
+      });
+
+      it('should not use up an invite for existing members', async () => {
+        await accept(MODERATOR);
+
+        expect(channelInviteService.redeem).not.toHaveBeenCalled();
+        expect(streamClient.addMembers).toHaveBeenCalledWith('messaging', 'room-1', [MODERATOR]);
+      });
+
+      it('should give the use back when joining fails', async () => {
+        (streamClient.addMembers as jest.Mock).mockRejectedValueOnce(new Error('Stream down'));
+
+        await expect(accept(NEWCOMER)).rejects.toThrow('Stream down');
+
+        expect(channelInviteService.release).toHaveBeenCalledWith(invite);
+        expect(AuditLog.create).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should only let owners and moderators create invites', async () => {
+      const createRequest = (userId: string) => ({
+        params: { id: 'messaging:room-1' },
+        body: { maxUses: 5, expiresInHours: 24 },
+        user: { id: userId, permissions: [] },
+      }) as any;
+      (channelInviteService.create as jest.Mock).mockResolvedValue({
+        token: 'tok',
+        invite: { ...invite, expiresAt: new Date() },
+      });
+
+      await expect(createInvite(createRequest(MEMBER), res)).rejects.toMatchObject({ statusCode: 403 });
+
+      await createInvite(createRequest(MODERATOR), res);
+      expect(channelInviteService.create).toHaveBeenCalledWith('messaging:room-1', MODERATOR, {
+        maxUses: 5,
+        expiresInHours: 24,
+      });
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
+  });
+});
\ No newline at end of file
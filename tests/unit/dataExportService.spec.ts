@@ -0,0 +1,214 @@
+import { Readable } from 'stream';
+import { dataExportService } from '../../src/services/dataExportService';
+import { exportArchiveStore } from '../../src/services/exportArchiveStore';
+import { DataExport } from '../../src/models/DataExport';
+import { User } from '../../src/models/User';
+import { ChatRoom } from '../../src/models/ChatRoom';
+import { Report } from '../../src/models/Report';
+import { AuditLog } from '../../src/models/AuditLog';
+import { MatchRequest } from '../../src/models/MatchRequest';
+import { Appointment } from '../../src/models/Appointment';
+import { DataExportStatus } from '../../src/types';
+
+jest.mock('../../src/models/DataExport', () => ({
+  DataExport: {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn().mockResolvedValue({}),
+    updateMany: jest.fn().mockResolvedValue({}),
+  },
+}));
+jest.mock('../../src/services/exportArchiveStore', () => ({
+  exportArchiveStore: {
+    save: jest.fn().mockResolvedValue('file-1'),
+    open: jest.fn(),
+    deleteExpired: jest.fn().mockResolvedValue(0),
+  },
+}));
+jest.mock('../../src/models/User', () => ({ User: { findById: jest.fn() } }));
+jest.mock('../../src/models/ChatRoom', () => ({ ChatRoom: { find: jest.fn() } }));
+jest.mock('../../src/models/Report', () => ({ Report: { find: jest.fn() } }));
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { find: jest.fn(), create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/models/MatchRequest', () => ({ MatchRequest: { find: jest.fn() } }));
+jest.mock('../../src/models/Appointment', () => ({ Appointment: { find: jest.fn() } }));
+
+// Chainable stand-in for a mongoose query
+const query = (result: unknown) => {
+  const chain: any = {
+    select: () => chain,
+    sort: () => chain,
+    lean: () => Promise.resolve(result),
+  };
+  return chain;
+};
+
+describe('DataExportService', () => {
+  const userId = '64b7f0c2a1b2c3d4e5f60718';
+  const ephemeralId = `anon_${userId}_abc12345`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (User.findById as jest.Mock).mockResolvedValue({
+      _id: userId,
+      anonymousHandles: [{ ephemeralId, handle: 'Quiet Fox', channelId: 'room-2' }],
+      toJSON: () => ({
+        id: userId,
+        displayName: 'Sam',
+        anonymousHandles: [{ ephemeralId, handle: 'Quiet Fox', channelId: 'room-2' }],
+      }),
+    });
+    (ChatRoom.find as jest.Mock).mockResolvedValue([
+      {
+        streamChannelId: 'room-1',
+        title: 'Evening check-in',
+        isPrivate: false,
+        isGroup: true,
+        members: new Map([[userId, { role: 'owner', joinedAt: new Date('2026-01-01') }]]),
+      },
+      {
+        streamChannelId: 'room-2',
+        title: 'Anxiety support',
+        isPrivate: false,
+        isGroup: true,
+        members: new Map([[ephemeralId, { role: 'member', joinedAt: new Date('2026-02-01') }]]),
+      },
+    ]);
+    (Report.find as jest.Mock).mockReturnValue(query([{ _id: 'r1', reason: 'spam', status: 'open' }]));
+    (AuditLog.find as jest.Mock).mockReturnValue(query([{ _id: 'a1', action: 'login_success' }]));
+    (MatchRequest.find as jest.Mock).mockReturnValue(query([{ _id: 'm1', tags: ['anxiety'], status: 'matched' }]));
+    (Appointment.find as jest.Mock).mockReturnValue(query([{ _id: 'ap1', status: 'booked' }]));
+  });
+
+  describe('collect', () => {
+    it('should include profile, handles, channels, reports, audit entries, matching requests and appointments', async () => {
+      const archive: any = await dataExportService.collect(userId);
+
+      expect(archive.version).toBe(1);
+      expect(archive.profile).toEqual({ id: userId, displayName: 'Sam' });
+      expect(archive.anonymousHandles).toHaveLength(1);
+      expect(archive.channels).toEqual([
+        expect.objectContaining({ streamChannelId: 'room-1', memberId: userId, role: 'owner' }),
+        expect.objectContaining({ streamChannelId: 'room-2', memberId: ephemeralId, role: 'member' }),
+      ]);
+      expect(archive.reports).toEqual([{ id: 'r1', reason: 'spam', status: 'open' }]);
+      expect(archive.auditLog).toEqual([{ id: 'a1', action: 'login_success' }]);
+      expect(archive.matchRequests).toEqual([{ id: 'm1', tags: ['anxiety'], status: 'matched' }]);
+      expect(archive.appointments).toEqual([{ id: 'ap1', status: 'booked' }]);
+    });
+  });
+
+  describe('request', () => {
+    it('should return an export that is still valid instead of starting another', async () => {
+      const existing = { _id: 'e1', status: DataExportStatus.READY };
+      (DataExport.findOne as jest.Mock).mockReturnValue({ sort: () => Promise.resolve(existing) });
+
+      await expect(dataExportService.request(userId)).resolves.toBe(existing);
+      expect(DataExport.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('build', () => {
+    it('should store the archive outside the export document and mark the export ready', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      (DataExport.findOneAndUpdate as jest.Mock).mockResolvedValue({ _id: 'e1', userId, expiresAt });
+
+      await expect(dataExportService.build('e1')).resolves.toBe(true);
+
+      const [exportId, owner, archive, fileExpiry] = (exportArchiveStore.save as jest.Mock).mock.calls[0];
+      expect([exportId, owner, fileExpiry]).toEqual(['e1', userId, expiresAt]);
+      expect(JSON.parse(archive).profile.displayName).toBe('Sam');
+
+      const update = (DataExport.updateOne as jest.Mock).mock.calls[0][1];
+      expect(update.status).toBe(DataExportStatus.READY);
+      expect(update.archiveFileId).toBe('file-1');
+      expect(update.archive).toBeUndefined();
+      expect(update.sizeBytes).toBe(Buffer.byteLength(archive));
+    });
+
+    it('should count attempts and only claim exports that have some left', async () => {
+      (DataExport.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      await dataExportService.build('e1');
+
+      const [filter, update] = (DataExport.findOneAndUpdate as jest.Mock).mock.calls[0];
+      expect(filter.attempts).toEqual({ $lt: 3 });
+      expect(update.$inc).toEqual({ attempts: 1 });
+    });
+
+    it('should skip exports already claimed by another worker', async () => {
+      (DataExport.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      await expect(dataExportService.build('e1')).resolves.toBe(false);
+      expect(User.findById).not.toHaveBeenCalled();
+    });
+
+    it('should mark the export failed when collection fails', async () => {
+      (DataExport.findOneAndUpdate as jest.Mock).mockResolvedValue({ _id: 'e1', userId });
+      (User.findById as jest.Mock).mockResolvedValue(null);
+
+      await expect(dataExportService.build('e1')).rejects.toMatchObject({ code: 'USER_NOT_FOUND' });
+      expect(DataExport.updateOne).toHaveBeenCalledWith(
+        { _id: 'e1' },
+        expect.objectContaining({ status: DataExportStatus.FAILED })
+      );
+    });
+  });
+
+  describe('processPending', () => {
+    it('should mark exports interrupted on every attempt as failed', async () => {
+      (DataExport.find as jest.Mock).mockReturnValue({ select: () => Promise.resolve([]) });
+
+      await dataExportService.processPending();
+
+      expect(DataExport.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ status: DataExportStatus.PROCESSING, attempts: { $gte: 3 } }),
+        expect.objectContaining({ status: DataExportStatus.FAILED })
+      );
+      expect((DataExport.find as jest.Mock).mock.calls[0][0].attempts).toEqual({ $lt: 3 });
+    });
+  });
+
+  describe('getArchive', () => {
+    const future = new Date(Date.now() + 60 * 60 * 1000);
+
+    it('should reject exports that are still building', async () => {
+      (DataExport.findOne as jest.Mock).mockResolvedValue({ status: DataExportStatus.PROCESSING, expiresAt: future });
+
+      await expect(dataExportService.getArchive(userId, 'e1')).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'EXPORT_NOT_READY',
+      });
+    });
+
+    it('should reject expired exports', async () => {
+      (DataExport.findOne as jest.Mock).mockResolvedValue({
+        status: DataExportStatus.READY,
+        archiveFileId: 'file-1',
+        expiresAt: new Date(0),
+      });
+
+      await expect(dataExportService.getArchive(userId, 'e1')).rejects.toMatchObject({
+        statusCode: 404,
+        code: 'EXPORT_NOT_FOUND',
+      });
+    });
+
+    it('should stream a ready archive from storage', async () => {
+      const stream = Readable.from(['{}']);
+      (DataExport.findOne as jest.Mock).mockResolvedValue({
+        status: DataExportStatus.READY,
+        archiveFileId: 'file-1',
+        expiresAt: future,
+      });
+      (exportArchiveStore.open as jest.Mock).mockReturnValue(stream);
+
+      await expect(dataExportService.getArchive(userId, 'e1')).resolves.toMatchObject({ archive: stream });
+      expect(exportArchiveStore.open).toHaveBeenCalledWith('file-1');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { oneTimeTokenService } from '../../src/services/oneTimeTokenService';
+import { principalCache } from '../../src/services/principalCache';
+import { verifyEmail } from '../../src/controllers/authController';
+import { requireVerifiedEmail, requireVerifiedEmailIfPresent } from '../../src/middleware/auth';
+import { OneTimeToken } from '../../src/models/OneTimeToken';
+import { User } from '../../src/models/User';
+import { AuditLog } from '../../src/models/AuditLog';
+import { config } from '../../src/config/env';
+import { TokenPurpose } from '../../src/types';
+
+jest.mock('../../src/models/OneTimeToken', () => ({
+  OneTimeToken: {
+    create: jest.fn().mockResolvedValue({}),
+    deleteMany: jest.fn().mockResolvedValue({}),
+    findOneAndUpdate: jest.fn(),
+  },
+}));
+jest.mock('../../src/models/User', () => ({ User: { findById: jest.fn() } }));
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/services/principalCache', () => ({
+  principalCache: { invalidate: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('Email verification', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('tokens', () => {
+    it('should store only the hash and replace unused tokens', async () => {
+      const token = await oneTimeTokenService.issue('user-123', TokenPurpose.EMAIL_VERIFICATION, 60);
+
+      expect(OneTimeToken.deleteMany).toHaveBeenCalledWith({
+        userId: 'user-123',
+        purpose: TokenPurpose.EMAIL_VERIFICATION,
+        usedAt: { $exists: false },
+      });
+      const [stored] = (OneTimeToken.create as jest.Mock).mock.calls[0];
+      expect(stored.tokenHash).toBe(sha256(token));
+      expect(JSON.stringify(stored)).not.toContain(token);
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should consume only unused, unexpired tokens for the purpose', async () => {
+      await oneTimeTokenService.consume('abc', TokenPurpose.EMAIL_VERIFICATION);
+
+      const [filter, update] = (OneTimeToken.findOneAndUpdate as jest.Mock).mock.calls[0];
+      expect(filter).toMatchObject({
+        tokenHash: sha256('abc'),
+        purpose: TokenPurpose.EMAIL_VERIFICATION,
+        usedAt: { $exists: false },
+      });
+      expect(filter.expiresAt.$gt).toBeInstanceOf(Date);
+      expect(update.usedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('verifyEmail', () => {
+    const mockResponse = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn() }) as any;
+
+    it('should mark the email verified and refresh the cached principal', async () => {
+      const user: any = { _id: 'user-123', email: 'sam@example.com', emailVerified: false, save: jest.fn() };
+      (OneTimeToken.findOneAndUpdate as jest.Mock).mockResolvedValue({ userId: 'user-123' });
+      (User.findById as jest.Mock).mockResolvedValue(user);
+      const res = mockResponse();
+
+      await verifyEmail({ body: { token: 'abc' } } as any, res);
+
+      expect(user.emailVerified).toBe(true);
+      expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+      expect(principalCache.invalidate).toHaveBeenCalledWith('user-123');
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'email_verified' }));
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should reject a used, expired or unknown token', async () => {
+      (OneTimeToken.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      await expect(verifyEmail({ body: { token: 'abc' } } as any, mockResponse())).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_VERIFICATION_TOKEN',
+      });
+      expect(User.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('middleware', () => {
+    const settings = config.emailVerification as { required: boolean };
+    const run = (middleware: typeof requireVerifiedEmail, user?: Record<string, unknown>) => {
+      const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+      const next = jest.fn();
+      middleware({ user } as any, res, next);
+      return { status: res.status.mock.calls[0]?.[0], passed: next.mock.calls.length > 0 };
+    };
+
+    beforeEach(() => {
+      settings.required = true;
+    });
+
+    afterAll(() => {
+      settings.required = false;
+    });
+
+    it('should require a signed-in user with a verified email', () => {
+      expect(run(requireVerifiedEmail)).toEqual({ status: 401, passed: false });
+      expect(run(requireVerifiedEmail, { isAnonymous: true })).toEqual({ status: 403, passed: false });
+      expect(run(requireVerifiedEmail, { email: 'sam@example.com', emailVerified: false }))
+        .toEqual({ status: 403, passed: false });
+      expect(run(requireVerifiedEmail, { email: 'sam@example.com', emailVerified: true }).passed).toBe(true);
+    });
+
+    it('should let guests and anonymous accounts through on guest routes', () => {
+      expect(run(requireVerifiedEmailIfPresent).passed).toBe(true);
+      expect(run(requireVerifiedEmailIfPresent, { isAnonymous: true, emailVerified: false }).passed).toBe(true);
+      expect(run(requireVerifiedEmailIfPresent, { email: 'sam@example.com', emailVerified: false }))
+        .toEqual({ status: 403, passed: false });
+    });
+
+    it('should not check anything while verification is off', () => {
+      settings.required = false;
+
+      expect(run(requireVerifiedEmail).passed).toBe(true);
+    });
+  });
+});
\ No newline at end of file
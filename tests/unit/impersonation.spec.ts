@@ -0,0 +1,196 @@
+import { authenticate, allowWhileImpersonating, denyWhileImpersonating } from '../../src/middleware/auth';
+import { startImpersonation } from '../../src/controllers/adminController';
+import { getStreamToken } from '../../src/controllers/streamController';
+import { authService } from '../../src/services/authService';
+import { sessionService } from '../../src/services/sessionService';
+import { principalCache } from '../../src/services/principalCache';
+import { streamClient } from '../../src/services/streamClient';
+import { User } from '../../src/models/User';
+import { AuditLog } from '../../src/models/AuditLog';
+import { Session } from '../../src/models/Session';
+import { Permission, UserRole } from '../../src/types';
+
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/models/User', () => ({ User: { findById: jest.fn() } }));
+
+describe('Admin impersonation', () => {
+  const userId = '64b7f0c2a1b2c3d4e5f60718';
+  const adminId = '64b7f0c2a1b2c3d4e5f60719';
+
+  const token = authService.generateAccessToken({
+    userId,
+    role: UserRole.USER,
+    sessionId: 'session-1',
+    impersonatedBy: adminId,
+  }, 900);
+
+  let mockResponse: any;
+  let next: jest.Mock;
+
+  const request = (method: string) => ({
+    method,
+    originalUrl: '/api/users/me',
+    headers: { authorization: `Bearer ${token}` },
+  }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    next = jest.fn();
+    mockResponse = {
+      locals: {},
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+
+    jest.spyOn(sessionService, 'isSessionActive').mockResolvedValue(true);
+    jest.spyOn(principalCache, 'get').mockResolvedValue({
+      id: userId,
+      role: UserRole.USER,
+      displayName: 'Sam',
+      twoFactorEnabled: false,
+      permissions: [],
+      guardianConsentRequired: false,
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should allow and audit reads', async () => {
+      const req = request('GET');
+
+      await authenticate(req, mockResponse, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.user.impersonatedBy).toBe(adminId);
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'impersonation_request',
+        actorUserId: adminId,
+        target: `user:${userId}`,
+        meta: expect.objectContaining({ method: 'GET', path: '/api/users/me', blocked: false }),
+      }));
+    });
+
+    it('should block and audit writes', async () => {
+      await authenticate(request('PATCH'), mockResponse, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json.mock.calls[0][0].error.code).toBe('IMPERSONATION_READ_ONLY');
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        meta: expect.objectContaining({ blocked: true }),
+      }));
+    });
+
+    it('should allow writes on routes that opt in', async () => {
+      const req = request('POST');
+      allowWhileImpersonating(req, mockResponse, jest.fn());
+
+      await authenticate(req, mockResponse, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should not audit regular tokens', async () => {
+      const req = request('PATCH');
+      req.headers.authorization = `Bearer ${authService.generateAccessToken({ userId, role: UserRole.USER })}`;
+
+      await authenticate(req, mockResponse, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(AuditLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('denyWhileImpersonating', () => {
+    it('should refuse reads of sensitive routes', () => {
+      denyWhileImpersonating({ user: { impersonatedBy: adminId } } as any, mockResponse, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('getStreamToken', () => {
+    const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+    const impersonated = (body: Record<string, unknown> = {}) => ({
+      body,
+      user: { id: userId, role: UserRole.USER, sessionId: 'session-1', impersonatedBy: adminId, permissions: [] },
+    }) as any;
+
+    beforeEach(() => {
+      (User.findById as jest.Mock).mockResolvedValue({ _id: userId, displayName: 'Sam', isBanned: () => false });
+      jest.spyOn(Session, 'findById').mockReturnValue({ select: jest.fn().mockResolvedValue({ expiresAt }) } as any);
+      jest.spyOn(streamClient, 'createToken').mockReturnValue('stream-token');
+      jest.spyOn(streamClient, 'upsertUser').mockResolvedValue(undefined as any);
+    });
+
+    it('should be allowed under impersonation', async () => {
+      const req = { ...request('POST'), originalUrl: '/api/stream/token' };
+      allowWhileImpersonating(req, mockResponse, jest.fn());
+
+      await authenticate(req, mockResponse, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should issue an audited token that expires with the impersonation', async () => {
+      await getStreamToken(impersonated(), mockResponse);
+
+      expect(streamClient.createToken).toHaveBeenCalledWith(userId, Math.floor(expiresAt.getTime() / 1000));
+      expect(streamClient.upsertUser).not.toHaveBeenCalled();
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'impersonation_stream_token_issued',
+        actorUserId: adminId,
+        target: `user:${userId}`,
+      }));
+      expect(mockResponse.json.mock.calls[0][0].data.token).toBe('stream-token');
+    });
+
+    it('should refuse anonymous handle tokens', async () => {
+      await expect(getStreamToken(impersonated({ anonymousHandle: 'Quiet Owl' }), mockResponse))
+        .rejects.toMatchObject({ statusCode: 403, code: 'IMPERSONATION_READ_ONLY' });
+      expect(streamClient.createToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startImpersonation', () => {
+    const adminRequest = (permissions: Permission[]) => ({
+      params: { id: userId },
+      body: { reason: 'Investigating a channel display bug' },
+      ip: '127.0.0.1',
+      get: () => 'jest',
+      user: { id: adminId, role: UserRole.ADMIN, displayName: 'Admin', permissions },
+    }) as any;
+
+    it('should issue a short-lived token and audit the start', async () => {
+      (User.findById as jest.Mock).mockResolvedValue({ _id: userId, role: UserRole.USER, permissions: [] });
+      jest.spyOn(sessionService, 'createImpersonationSession').mockResolvedValue({
+        accessToken: 'token',
+        sessionId: 'session-1',
+        expiresAt: new Date(),
+      });
+
+      await startImpersonation(adminRequest(Object.values(Permission)), mockResponse);
+
+      expect(sessionService.createImpersonationSession).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: userId }),
+        adminId,
+        expect.any(Object)
+      );
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'impersonation_started',
+        meta: expect.objectContaining({ reason: 'Investigating a channel display bug' }),
+      }));
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should refuse to impersonate users with permissions the admin lacks', async () => {
+      (User.findById as jest.Mock).mockResolvedValue({ _id: userId, role: UserRole.MODERATOR, permissions: [] });
+
+      await expect(
+        startImpersonation(adminRequest([Permission.USERS_IMPERSONATE]), mockResponse)
+      ).rejects.toMatchObject({ statusCode: 403, code: 'FORBIDDEN' });
+    });
+  });
+});
\ No newline at end of file
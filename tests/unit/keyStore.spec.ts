@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { keyStore } from '../../src/services/keyStore';
+import { authService } from '../../src/services/authService';
+import { config } from '../../src/config/env';
+import { UserRole } from '../../src/types';
+
+describe('KeyStore', () => {
+  const jwtConfig = config.jwt as any;
+  const original = { ...config.jwt };
+  const payload = { userId: 'user-1', role: UserRole.USER };
+  let directory: string;
+
+  const writeKey = (file: string, type: 'rsa' | 'ec', publicOnly = false) => {
+    const { privateKey, publicKey } =
+      type === 'ec'
+        ? crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+        : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const pem = publicOnly
+      ? publicKey.export({ type: 'spki', format: 'pem' })
+      : privateKey.export({ type: 'pkcs8', format: 'pem' });
+    fs.writeFileSync(path.join(directory, file), pem);
+    return privateKey;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mindsupport-keys-'));
+    jwtConfig.keysDir = directory;
+  });
+
+  afterEach(() => {
+    Object.assign(jwtConfig, original);
+    fs.rmSync(directory, { recursive: true, force: true });
+    keyStore.reload();
+  });
+
+  it('should publish all public keys as a JWKS', () => {
+    writeKey('2026-01-rs256.pem', 'rsa');
+    writeKey('2026-02-es256.pem', 'ec');
+    keyStore.reload();
+
+    const { keys } = keyStore.getJwks();
+
+    expect(keys).toHaveLength(2);
+    expect(keys).toContainEqual(expect.objectContaining({ kid: '2026-01-rs256', alg: 'RS256', kty: 'RSA', use: 'sig' }));
+    expect(keys).toContainEqual(expect.objectContaining({ kid: '2026-02-es256', alg: 'ES256', kty: 'EC', crv: 'P-256' }));
+    expect(keys.every((key) => !('d' in key))).toBe(true);
+  });
+
+  it('should sign access tokens with the active key', () => {
+    writeKey('2026-02-es256.pem', 'ec');
+    jwtConfig.activeKid = '2026-02-es256';
+    keyStore.reload();
+
+    const token = authService.generateAccessToken(payload);
+    const header = jwt.decode(token, { complete: true })!.header;
+
+    expect(header).toMatchObject({ alg: 'ES256', kid: '2026-02-es256' });
+    expect(authService.verifyAccessToken(token).userId).toBe('user-1');
+  });
+
+  it('should keep verifying tokens signed by a retired key', () => {
+    const retired = writeKey('2026-01-rs256.pem', 'rsa');
+    jwtConfig.activeKid = '2026-01-rs256';
+    keyStore.reload();
+    const token = authService.generateAccessToken(payload);
+
+    fs.unlinkSync(path.join(directory, '2026-01-rs256.pem'));
+    fs.writeFileSync(
+      path.join(directory, '2026-01-rs256.pub.pem'),
+      crypto.createPublicKey(retired).export({ type: 'spki', format: 'pem' })
+    );
+    writeKey('2026-02-rs256.pem', 'rsa');
+    jwtConfig.activeKid = '2026-02-rs256';
+    keyStore.reload();
+
+    expect(authService.verifyAccessToken(token).userId).toBe('user-1');
+  });
+
+  it('should reject tokens with an unknown kid', () => {
+    const privateKey = writeKey('other.pem', 'rsa');
+    fs.unlinkSync(path.join(directory, 'other.pem'));
+    keyStore.reload();
+
+    const token = jwt.sign({ ...payload, type: 'access' }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'other',
+      issuer: 'mindsupport-api',
+      audience: 'mindsupport-client',
+    });
+
+    expect(() => authService.verifyAccessToken(token)).toThrow('Invalid token');
+  });
+
+  it('should stop accepting HS256 tokens when disabled', () => {
+    const legacy = authService.generateAccessToken(payload);
+
+    writeKey('2026-01-rs256.pem', 'rsa');
+    jwtConfig.activeKid = '2026-01-rs256';
+    keyStore.reload();
+    expect(authService.verifyAccessToken(legacy).userId).toBe('user-1');
+
+    jwtConfig.acceptHs256 = false;
+    expect(() => authService.verifyAccessToken(legacy)).toThrow('Invalid token');
+  });
+});
\ No newline at end of file
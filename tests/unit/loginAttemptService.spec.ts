@@ -0,0 +1,67 @@
+import { loginAttemptService } from '../../src/services/loginAttemptService';
+import { AuditLog } from '../../src/models/AuditLog';
+import { mailService } from '../../src/services/mailService';
+import { config } from '../../src/config/env';
+
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+
+jest.mock('../../src/services/mailService', () => ({
+  mailService: { sendAccountLockedEmail: jest.fn().mockResolvedValue(undefined) },
+}));
+
+describe('LoginAttemptService', () => {
+  let account: string;
+  let counter = 0;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    account = `user${++counter}@example.com`;
+  });
+
+  it('should allow free attempts without delay', async () => {
+    for (let i = 0; i < config.loginLockout.freeAttempts; i++) {
+      await loginAttemptService.recordFailure(account, null, '127.0.0.1');
+    }
+
+    await expect(loginAttemptService.assertCanAttempt(account)).resolves.toBeUndefined();
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'login_failed' }));
+  });
+
+  it('should throttle once free attempts are used up', async () => {
+    for (let i = 0; i <= config.loginLockout.freeAttempts; i++) {
+      await loginAttemptService.recordFailure(account, null);
+    }
+
+    await expect(loginAttemptService.assertCanAttempt(account)).rejects.toMatchObject({
+      statusCode: 429,
+      code: 'LOGIN_THROTTLED',
+    });
+  });
+
+  it('should lock the account at the threshold and notify the owner', async () => {
+    const user: any = { _id: 'user-id', email: account, displayName: 'Sam' };
+
+    for (let i = 0; i < config.loginLockout.threshold; i++) {
+      await loginAttemptService.recordFailure(account, user);
+    }
+
+    await expect(loginAttemptService.assertCanAttempt(account.toUpperCase())).rejects.toMatchObject({
+      statusCode: 423,
+      code: 'ACCOUNT_LOCKED',
+    });
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'account_locked' }));
+    expect(mailService.sendAccountLockedEmail).toHaveBeenCalledWith(account, 'Sam', expect.any(Date));
+  });
+
+  it('should clear failures after a successful login', async () => {
+    for (let i = 0; i <= config.loginLockout.freeAttempts; i++) {
+      await loginAttemptService.recordFailure(account, null);
+    }
+
+    await loginAttemptService.recordSuccess(account);
+
+    await expect(loginAttemptService.assertCanAttempt(account)).resolves.toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { mailService, FileTransport, MailTransport } from '../../src/services/mailService';
+
+describe('MailService', () => {
+  describe('FileTransport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mindsupport-mail-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write each email as a JSON file', async () => {
+      const transport = new FileTransport(directory);
+
+      await transport.send({
+        from: 'no-reply@example.com',
+        to: 'user@example.com',
+        subject: 'Hello',
+        text: 'Body',
+      });
+
+      const files = await fs.readdir(directory);
+      expect(files).toHaveLength(1);
+
+      const written = JSON.parse(await fs.readFile(path.join(directory, files[0]), 'utf8'));
+      expect(written.to).toBe('user@example.com');
+      expect(written.subject).toBe('Hello');
+      expect(written.sentAt).toBeDefined();
+    });
+  });
+
+  describe('templates', () => {
+    const sent: any[] = [];
+    const memoryTransport: MailTransport = {
+      name: 'memory',
+      send: async (message) => {
+        sent.push(message);
+      },
+    };
+
+    beforeEach(() => {
+      sent.length = 0;
+      mailService.setTransport(memoryTransport);
+    });
+
+    it('should include the reset token in the password reset link', async () => {
+      await mailService.sendPasswordResetEmail('user@example.com', 'Sam', 'abc+123');
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('user@example.com');
+      expect(sent[0].from).toBeDefined();
+      expect(sent[0].text).toContain('reset-password?token=abc%2B123');
+    });
+
+    it('should say which devices a password change signed out', async () => {
+      await mailService.sendPasswordChangedEmail('user@example.com', 'Sam', 'all');
+      await mailService.sendPasswordChangedEmail('user@example.com', 'Sam', 'others');
+
+      expect(sent[0].text).toContain('all devices were signed out');
+      expect(sent[1].text).toContain('your other devices were signed out');
+    });
+
+    it('should propagate transport failures', async () => {
+      mailService.setTransport({
+        name: 'failing',
+        send: async () => {
+          throw new Error('SMTP down');
+        },
+      });
+
+      await expect(
+        mailService.send({ to: 'user@example.com', subject: 'x', text: 'y' })
+      ).rejects.toThrow('SMTP down');
+    });
+  });
+});
\ No newline at end of file
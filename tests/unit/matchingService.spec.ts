@@ -0,0 +1,181 @@
+import { matchingService } from '../../src/services/matchingService';
+import { MatchRequest } from '../../src/models/MatchRequest';
+import { User } from '../../src/models/User';
+import { ChatRoom } from '../../src/models/ChatRoom';
+import { AuditLog } from '../../src/models/AuditLog';
+import { streamClient } from '../../src/services/streamClient';
+import { anonymousIdentityService } from '../../src/services/anonymousIdentityService';
+import { AgeBand, MatchPartnerType, MatchStatus } from '../../src/types';
+
+// Constructible model whose documents keep what they were given
+function mockMatchRequestModel() {
+  const Model: any = jest.fn().mockImplementation(function (this: any, data: any) {
+    Object.assign(this, { _id: 'req-new', status: 'waiting', ...data });
+    this.save = jest.fn().mockResolvedValue(this);
+    this.set = (values: any) => Object.assign(this, values);
+  });
+  Model.findOne = jest.fn();
+  Model.find = jest.fn();
+  Model.findOneAndUpdate = jest.fn();
+  Model.updateOne = jest.fn().mockResolvedValue({});
+  Model.updateMany = jest.fn().mockResolvedValue({ modifiedCount: 0 });
+  return Model;
+}
+
+jest.mock('../../src/models/MatchRequest', () => ({ MatchRequest: mockMatchRequestModel() }));
+jest.mock('../../src/models/User', () => ({ User: { findById: jest.fn() } }));
+jest.mock('../../src/models/ChatRoom', () => ({ ChatRoom: { create: jest.fn().mockResolvedValue({}) } }));
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/services/streamClient', () => ({
+  streamClient: {
+    createChannel: jest.fn().mockResolvedValue(undefined),
+    upsertUser: jest.fn().mockResolvedValue(undefined),
+    toStreamRole: jest.fn((role: string) => role),
+  },
+}));
+jest.mock('../../src/services/anonymousIdentityService', () => ({
+  anonymousIdentityService: { create: jest.fn() },
+}));
+
+const SEEKER = '507f1f77bcf86cd799439011';
+const SUPPORTER = '507f1f77bcf86cd799439012';
+
+const makeUser = (id: string, extra: Record<string, unknown> = {}) => ({
+  _id: id,
+  displayName: `User ${id.slice(-2)}`,
+  role: 'user',
+  isVolunteer: false,
+  isCounselor: false,
+  ageBand: AgeBand.ADULT,
+  ...extra,
+}) as any;
+
+// Chainable stand-in for find().sort().limit().select()
+function candidates(ids: string[]) {
+  const chain: any = {};
+  chain.sort = jest.fn().mockReturnValue(chain);
+  chain.limit = jest.fn().mockReturnValue(chain);
+  chain.select = jest.fn().mockResolvedValue(ids.map((_id) => ({ _id })));
+  return chain;
+}
+
+const input = {
+  tags: ['anxiety'],
+  language: 'en',
+  partnerType: MatchPartnerType.ANY,
+};
+
+describe('Matching Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (MatchRequest.findOne as jest.Mock).mockResolvedValue(null);
+    (MatchRequest.find as jest.Mock).mockReturnValue(candidates([]));
+  });
+
+  it('should queue the request when nobody compatible is waiting', async () => {
+    const request = await matchingService.enqueue(makeUser(SEEKER), input);
+
+    expect(request.status).toBe(MatchStatus.WAITING);
+    expect(request.save).toHaveBeenCalled();
+    expect(streamClient.createChannel).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a second waiting request', async () => {
+    (MatchRequest.findOne as jest.Mock).mockResolvedValue({ _id: 'req-old' });
+
+    await expect(matchingService.enqueue(makeUser(SEEKER), input)).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'ALREADY_IN_QUEUE',
+    });
+  });
+
+  it('should only look for volunteers or counselors of the same age group when asked', async () => {
+    await matchingService.enqueue(
+      makeUser(SEEKER, { ageBand: AgeBand.AGE_16_17 }),
+      { ...input, partnerType: MatchPartnerType.VOLUNTEER }
+    );
+
+    const { $and } = (MatchRequest.find as jest.Mock).mock.calls[0][0];
+    expect($and).toEqual(expect.arrayContaining([
+      { userId: { $ne: SEEKER } },
+      { language: 'en' },
+      { $or: [{ tags: { $in: ['anxiety'] } }, { tags: { $size: 0 } }] },
+      { $or: [{ isMinor: true }, { isCounselor: true }] },
+      { $or: [{ isVolunteer: true }, { isCounselor: true }] },
+      // A plain user is only acceptable to requests that take anyone
+      { partnerType: { $in: [MatchPartnerType.ANY] } },
+    ]));
+  });
+
+  it('should not pair two requests with the same handle', async () => {
+    await matchingService.enqueue(makeUser(SEEKER), { ...input, anonymousHandle: 'Quiet Owl' });
+
+    const { $and } = (MatchRequest.find as jest.Mock).mock.calls[0][0];
+    const { anonymousHandle } = $and.find((condition: any) => condition.anonymousHandle);
+    expect(anonymousHandle.$not.test('quiet owl')).toBe(true);
+    expect(anonymousHandle.$not.test('Quiet Owlet')).toBe(false);
+  });
+
+  it('should pair with a claimed request and open a private 1:1 channel', async () => {
+    const partnerRequest: any = {
+      _id: 'req-1',
+      userId: SUPPORTER,
+      tags: ['anxiety', 'sleep'],
+      anonymousHandle: 'Quiet Owl',
+      matchedAt: new Date(),
+      set(values: any) { Object.assign(this, values); },
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    (MatchRequest.find as jest.Mock).mockReturnValue(candidates(['req-1']));
+    (MatchRequest.findOneAndUpdate as jest.Mock).mockResolvedValue(partnerRequest);
+    (User.findById as jest.Mock).mockResolvedValue(makeUser(SUPPORTER, { isVolunteer: true }));
+    (anonymousIdentityService.create as jest.Mock).mockResolvedValue({ ephemeralId: `anon_${SUPPORTER}_x` });
+
+    const request = await matchingService.enqueue(makeUser(SEEKER), input);
+
+    expect(MatchRequest.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: 'req-1', status: MatchStatus.WAITING }),
+      expect.objectContaining({ status: MatchStatus.MATCHED }),
+      { new: true }
+    );
+    expect(streamClient.createChannel).toHaveBeenCalledWith(
+      'messaging',
+      expect.stringMatching(/^match-/),
+      SEEKER,
+      expect.objectContaining({ members: [SEEKER, `anon_${SUPPORTER}_x`] })
+    );
+    expect(ChatRoom.create).toHaveBeenCalledWith(expect.objectContaining({
+      isPrivate: true,
+      isGroup: false,
+      tags: ['anxiety'],
+    }));
+    expect(request.status).toBe(MatchStatus.MATCHED);
+    expect(request.memberId).toBe(SEEKER);
+    expect(partnerRequest.memberId).toBe(`anon_${SUPPORTER}_x`);
+    expect(partnerRequest.streamChannelId).toBe(request.streamChannelId);
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'match_made' }));
+  });
+
+  it('should put the partner back in the queue when the channel cannot be created', async () => {
+    const partnerRequest: any = { _id: 'req-1', userId: SUPPORTER, tags: [] };
+    (MatchRequest.find as jest.Mock).mockReturnValue(candidates(['req-1']));
+    (MatchRequest.findOneAndUpdate as jest.Mock).mockResolvedValue(partnerRequest);
+    (User.findById as jest.Mock).mockResolvedValue(makeUser(SUPPORTER));
+    (streamClient.createChannel as jest.Mock).mockRejectedValueOnce(new Error('Stream down'));
+
+    await expect(matchingService.enqueue(makeUser(SEEKER), input)).rejects.toThrow('Stream down');
+
+    expect(MatchRequest.updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: 'req-1', status: MatchStatus.MATCHED }),
+      expect.objectContaining({ status: MatchStatus.WAITING })
+    );
+  });
+
+  it('should return 404 when cancelling without a waiting request', async () => {
+    (MatchRequest.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+    await expect(matchingService.cancel(SEEKER)).rejects.toMatchObject({ code: 'NOT_IN_QUEUE' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { runMigrations } from '../../src/utils/migrations';
+import { EphemeralMapping } from '../../src/models/EphemeralMapping';
+import { User } from '../../src/models/User';
+
+jest.mock('../../src/models/EphemeralMapping', () => ({
+  EphemeralMapping: {
+    collection: { indexes: jest.fn(), dropIndex: jest.fn().mockResolvedValue(undefined) },
+    find: jest.fn(),
+    updateOne: jest.fn().mockResolvedValue({}),
+  },
+}));
+jest.mock('../../src/models/User', () => ({
+  User: { findOne: jest.fn(), updateMany: jest.fn().mockResolvedValue({ modifiedCount: 0 }) },
+}));
+
+// Chainable stand-in for Model.find().select().lean()
+function query(result: unknown) {
+  return {
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockResolvedValue(result),
+  };
+}
+
+describe('Migrations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (EphemeralMapping.collection.indexes as jest.Mock).mockResolvedValue([{ name: '_id_' }]);
+    (EphemeralMapping.find as jest.Mock).mockReturnValue(query([]));
+  });
+
+  it('should drop the legacy mapping TTL index only when present', async () => {
+    await runMigrations();
+    expect(EphemeralMapping.collection.dropIndex).not.toHaveBeenCalled();
+
+    (EphemeralMapping.collection.indexes as jest.Mock).mockResolvedValue([{ name: '_id_' }, { name: 'expiresAt_1' }]);
+    await runMigrations();
+    expect(EphemeralMapping.collection.dropIndex).toHaveBeenCalledWith('expiresAt_1');
+  });
+
+  it('should backfill mapping handles from the user record', async () => {
+    (EphemeralMapping.find as jest.Mock).mockReturnValue(query([
+      { _id: 'mapping-1', ephemeralId: 'anon_1', realUserId: 'user-1' },
+      { _id: 'mapping-2', ephemeralId: 'anon_2', realUserId: 'user-2' },
+    ]));
+    (User.findOne as jest.Mock)
+      .mockReturnValueOnce({ lean: jest.fn().mockResolvedValue({ anonymousHandles: [{ handle: 'Quiet Owl' }] }) })
+      .mockReturnValueOnce({ lean: jest.fn().mockResolvedValue(null) });
+
+    await runMigrations();
+
+    expect(EphemeralMapping.updateOne).toHaveBeenCalledWith(
+      { _id: 'mapping-1', handle: { $exists: false } },
+      { handle: 'Quiet Owl' }
+    );
+    expect(EphemeralMapping.updateOne).toHaveBeenCalledWith(
+      { _id: 'mapping-2', handle: { $exists: false } },
+      { handle: 'Anonymous' }
+    );
+  });
+
+  it('should treat emails of accounts older than verification as verified', async () => {
+    await runMigrations();
+
+    expect(User.updateMany).toHaveBeenCalledWith(
+      { email: { $exists: true }, emailVerified: { $exists: false } },
+      { emailVerified: true }
+    );
+  });
+
+  it('should keep going when a step fails', async () => {
+    (EphemeralMapping.collection.indexes as jest.Mock).mockRejectedValue(new Error('not primary'));
+
+    await expect(runMigrations()).resolves.toBeUndefined();
+    expect(EphemeralMapping.find).toHaveBeenCalled();
+  });
+});
\ No newline at end of file
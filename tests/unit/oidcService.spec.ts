@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { oidcService } from '../../src/services/oidcService';
+import { config } from '../../src/config/env';
+
+describe('OidcService', () => {
+  const issuer = 'http://localhost:4010';
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1', alg: 'RS256', use: 'sig' }] };
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  const signIdToken = (claims: object = {}, options: jwt.SignOptions = {}) =>
+    jwt.sign({ email: 'Alice@Example.com', email_verified: true, name: 'Alice', ...claims }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'k1',
+      issuer,
+      subject: 'alice-sub',
+      audience: 'mindsupport-dev',
+      expiresIn: '5m',
+      ...options,
+    });
+
+  beforeAll(() => {
+    (config.oidc as any).providers = [{ name: 'mock', issuer, clientIds: ['mindsupport-dev'] }];
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async (url: string) => ({
+      ok: true,
+      json: async () =>
+        url.endsWith('/.well-known/openid-configuration') ? { issuer, jwks_uri: `${issuer}/jwks` } : jwks,
+    }));
+    global.fetch = fetchMock as any;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+    (config.oidc as any).providers = [];
+  });
+
+  it('should verify an ID token using discovered keys', async () => {
+    const claims = await oidcService.verifyIdToken('mock', signIdToken());
+
+    expect(claims).toEqual({
+      provider: 'mock',
+      subject: 'alice-sub',
+      email: 'alice@example.com',
+      emailVerified: true,
+      name: 'Alice',
+      picture: undefined,
+    });
+    expect(fetchMock).toHaveBeenCalledWith(`${issuer}/.well-known/openid-configuration`, expect.anything());
+  });
+
+  it('should cache provider keys', async () => {
+    await oidcService.verifyIdToken('mock', signIdToken());
+    await oidcService.verifyIdToken('mock', signIdToken());
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens for another audience or issuer', async () => {
+    await expect(
+      oidcService.verifyIdToken('mock', signIdToken({}, { audience: 'someone-else' }))
+    ).rejects.toMatchObject({ code: 'INVALID_ID_TOKEN' });
+
+    await expect(
+      oidcService.verifyIdToken('mock', signIdToken({}, { issuer: 'https://evil.example.com' }))
+    ).rejects.toMatchObject({ code: 'INVALID_ID_TOKEN' });
+  });
+
+  it('should reject a mismatched nonce', async () => {
+    await expect(
+      oidcService.verifyIdToken('mock', signIdToken({ nonce: 'abc' }), 'xyz')
+    ).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('should treat Apple-style string flags as booleans', async () => {
+    const claims = await oidcService.verifyIdToken('mock', signIdToken({ email_verified: 'false' }));
+
+    expect(claims.emailVerified).toBe(false);
+  });
+
+  it('should reject unknown providers', async () => {
+    await expect(oidcService.verifyIdToken('nope', signIdToken())).rejects.toMatchObject({
+      statusCode: 404,
+      code: 'UNKNOWN_PROVIDER',
+    });
+  });
+});
\ No newline at end of file
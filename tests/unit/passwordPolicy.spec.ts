@@ -0,0 +1,56 @@
+import { passwordPolicy } from '../../src/services/passwordPolicy';
+
+describe('PasswordPolicy', () => {
+  describe('entropy', () => {
+    it('should score repeated and sequential characters low', () => {
+      expect(passwordPolicy.estimateEntropy('aaaaaaaaaaaa')).toBeLessThan(20);
+      expect(passwordPolicy.estimateEntropy('abcdefghijkl')).toBeLessThan(20);
+      expect(passwordPolicy.estimateEntropy('tr4in-Bucket-mo0n')).toBeGreaterThan(60);
+    });
+  });
+
+  describe('breached passwords', () => {
+    it('should detect passwords from the bundled list', () => {
+      expect(passwordPolicy.isBreached('password123')).toBe(true);
+      expect(passwordPolicy.isBreached('Qwerty123')).toBe(true);
+      expect(passwordPolicy.isBreached('tr4in-Bucket-mo0n')).toBe(false);
+    });
+  });
+
+  describe('check', () => {
+    it('should accept a strong password', () => {
+      expect(passwordPolicy.check('tr4in-Bucket-mo0n', { email: 'sam@example.com', displayName: 'Sam Lee' })).toEqual([]);
+    });
+
+    it('should reject short passwords', () => {
+      const issues = passwordPolicy.check('Xk9#');
+
+      expect(issues).toContainEqual({ field: 'password', message: expect.stringContaining('at least') });
+    });
+
+    it('should reject passwords containing the email or display name', () => {
+      const context = { email: 'riverstone@example.com', displayName: 'Quiet Owl' };
+
+      expect(passwordPolicy.check('Riverstone-7731!', context)).toContainEqual({
+        field: 'password',
+        message: 'Password must not contain your email address or display name',
+      });
+      expect(passwordPolicy.check('quietowl#5512X', context)).toContainEqual({
+        field: 'password',
+        message: 'Password must not contain your email address or display name',
+      });
+    });
+
+    it('should throw VALIDATION_ERROR with details', () => {
+      expect(() => passwordPolicy.assertValid('password123')).toThrow(
+        expect.objectContaining({
+          statusCode: 400,
+          code: 'VALIDATION_ERROR',
+          details: expect.arrayContaining([
+            { field: 'password', message: 'Password has appeared in a data breach; choose a different one' },
+          ]),
+        })
+      );
+    });
+  });
+});
\ No newline at end of file
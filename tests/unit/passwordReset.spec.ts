@@ -0,0 +1,122 @@
+import { forgotPassword, resetPassword } from '../../src/controllers/authController';
+import { OneTimeToken } from '../../src/models/OneTimeToken';
+import { User } from '../../src/models/User';
+import { authService } from '../../src/services/authService';
+import { sessionService } from '../../src/services/sessionService';
+import { mailService } from '../../src/services/mailService';
+import { TokenPurpose } from '../../src/types';
+
+jest.mock('../../src/models/OneTimeToken', () => ({
+  OneTimeToken: {
+    create: jest.fn().mockResolvedValue({}),
+    deleteMany: jest.fn().mockResolvedValue({}),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  },
+}));
+jest.mock('../../src/models/User', () => ({ User: { findOne: jest.fn(), findById: jest.fn() } }));
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/services/sessionService', () => ({
+  sessionService: { revokeAllForUser: jest.fn().mockResolvedValue(3) },
+}));
+jest.mock('../../src/services/mailService', () => ({
+  mailService: {
+    sendPasswordResetEmail: jest.fn().mockResolvedValue(undefined),
+    sendPasswordChangedEmail: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// Let detached work (the reset email) finish
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Password reset', () => {
+  const mockResponse = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn() }) as any;
+  let user: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    user = {
+      _id: 'user-123',
+      email: 'sam@example.com',
+      displayName: 'Sam',
+      passwordHash: 'old-hash',
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  describe('forgotPassword', () => {
+    const respond = async (email: string) => {
+      const res = mockResponse();
+      await forgotPassword({ body: { email }, ip: '127.0.0.1' } as any, res);
+      await flush();
+      const { meta, ...body } = res.json.mock.calls[0][0];
+      return { status: res.status.mock.calls[0][0], body };
+    };
+
+    it('should respond identically for existing and unknown emails', async () => {
+      (User.findOne as jest.Mock).mockResolvedValueOnce(user).mockResolvedValueOnce(null);
+
+      const existing = await respond('sam@example.com');
+      const unknown = await respond('nobody@example.com');
+
+      expect(existing).toEqual(unknown);
+      expect(existing.status).toBe(200);
+    });
+
+    it('should email a reset link only to existing accounts', async () => {
+      (User.findOne as jest.Mock).mockResolvedValue(user);
+      await respond('sam@example.com');
+
+      expect(OneTimeToken.create).toHaveBeenCalledWith(expect.objectContaining({ purpose: TokenPurpose.PASSWORD_RESET }));
+      expect(mailService.sendPasswordResetEmail).toHaveBeenCalledWith('sam@example.com', 'Sam', expect.any(String));
+
+      jest.clearAllMocks();
+      (User.findOne as jest.Mock).mockResolvedValue(null);
+      await respond('nobody@example.com');
+
+      expect(OneTimeToken.create).not.toHaveBeenCalled();
+      expect(mailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    beforeEach(() => {
+      (OneTimeToken.findOne as jest.Mock).mockResolvedValue({ userId: 'user-123' });
+      (OneTimeToken.findOneAndUpdate as jest.Mock).mockResolvedValue({ userId: 'user-123' });
+      (User.findById as jest.Mock).mockResolvedValue(user);
+    });
+
+    it('should keep the token when the new password fails the policy', async () => {
+      await expect(
+        resetPassword({ body: { token: 'abc', password: 'short' } } as any, mockResponse())
+      ).rejects.toMatchObject({ statusCode: 400, code: 'VALIDATION_ERROR' });
+
+      expect(OneTimeToken.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('should set the password, sign out every session and tell the user', async () => {
+      const res = mockResponse();
+
+      await resetPassword({ body: { token: 'abc', password: 'Tangerine-Lighthouse-42' }, ip: '127.0.0.1' } as any, res);
+
+      expect(OneTimeToken.findOneAndUpdate).toHaveBeenCalled();
+      expect(await authService.comparePassword('Tangerine-Lighthouse-42', user.passwordHash)).toBe(true);
+      expect(sessionService.revokeAllForUser).toHaveBeenCalledWith('user-123', 'password_reset');
+      expect(mailService.sendPasswordChangedEmail).toHaveBeenCalledWith('sam@example.com', 'Sam', 'all');
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should reject a used, expired or unknown token', async () => {
+      (OneTimeToken.findOne as jest.Mock).mockResolvedValue(null);
+      (OneTimeToken.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        resetPassword({ body: { token: 'abc', password: 'Tangerine-Lighthouse-42' } } as any, mockResponse())
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_RESET_TOKEN' });
+      expect(sessionService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
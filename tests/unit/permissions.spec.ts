@@ -0,0 +1,83 @@
+import { resolvePermissions, resolveScopePermissions } from '../../src/config/permissions';
+import { requirePermission } from '../../src/middleware/auth';
+import { ApiKeyScope, Permission, UserRole } from '../../src/types';
+
+describe('Permissions', () => {
+  describe('resolvePermissions', () => {
+    it('should give regular users no permissions', () => {
+      expect(resolvePermissions({ role: UserRole.USER })).toEqual([]);
+    });
+
+    it('should give admins every permission', () => {
+      expect(resolvePermissions({ role: UserRole.ADMIN }).sort()).toEqual(Object.values(Permission).sort());
+    });
+
+    it('should add counselor permissions for the isCounselor flag', () => {
+      expect(resolvePermissions({ role: UserRole.USER, isCounselor: true })).toContain(Permission.CRISIS_RESPOND);
+    });
+
+    it('should merge per-user grants without duplicates', () => {
+      const permissions = resolvePermissions({
+        role: UserRole.MODERATOR,
+        permissions: [Permission.TIPS_PUBLISH, Permission.USERS_BAN],
+      });
+
+      expect(permissions).toContain(Permission.TIPS_PUBLISH);
+      expect(permissions.filter((p) => p === Permission.USERS_BAN)).toHaveLength(1);
+    });
+
+    it('should map API key scopes to permissions', () => {
+      expect(resolveScopePermissions([ApiKeyScope.MODERATION_READ])).toEqual([
+        Permission.REPORTS_READ,
+        Permission.MODERATION_QUEUE_READ,
+      ]);
+    });
+  });
+
+  describe('requirePermission', () => {
+    const createRes = () => {
+      const res: any = {};
+      res.status = jest.fn().mockReturnValue(res);
+      res.json = jest.fn().mockReturnValue(res);
+      return res;
+    };
+
+    it('should reject unauthenticated requests', () => {
+      const res = createRes();
+      const next = jest.fn();
+
+      requirePermission(Permission.REPORTS_READ)({} as any, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should list missing permissions', () => {
+      const res = createRes();
+      const req: any = { user: { permissions: [Permission.REPORTS_READ], twoFactorEnabled: true } };
+
+      requirePermission(Permission.REPORTS_READ, Permission.USERS_BAN)(req, res, jest.fn());
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json.mock.calls[0][0].error.details.missing).toEqual([Permission.USERS_BAN]);
+    });
+
+    it('should require 2FA for privileged access', () => {
+      const res = createRes();
+      const req: any = { user: { permissions: [Permission.REPORTS_READ], twoFactorEnabled: false } };
+
+      requirePermission(Permission.REPORTS_READ)(req, res, jest.fn());
+
+      expect(res.json.mock.calls[0][0].error.code).toBe('TWO_FACTOR_REQUIRED');
+    });
+
+    it('should allow users holding every permission', () => {
+      const next = jest.fn();
+      const req: any = { user: { permissions: [Permission.REPORTS_READ], twoFactorEnabled: true } };
+
+      requirePermission(Permission.REPORTS_READ)(req, createRes(), next);
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
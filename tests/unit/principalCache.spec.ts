@@ -0,0 +1,124 @@
+import { principalCache } from '../../src/services/principalCache';
+import { lastSeenTracker } from '../../src/services/lastSeenTracker';
+import { User } from '../../src/models/User';
+import { config } from '../../src/config/env';
+import { Permission, UserRole } from '../../src/types';
+
+jest.mock('../../src/models/User', () => ({
+  User: {
+    findById: jest.fn(),
+    bulkWrite: jest.fn().mockResolvedValue({}),
+  },
+}));
+
+const userDoc = (id: string, overrides: Record<string, unknown> = {}) => ({
+  _id: id,
+  role: UserRole.MODERATOR,
+  displayName: `User ${id}`,
+  email: `${id}@example.com`,
+  emailVerified: true,
+  twoFactor: { enabled: true },
+  permissions: [],
+  ...overrides,
+});
+
+describe('PrincipalCache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    principalCache.clear();
+    (User.findById as jest.Mock).mockImplementation(async (id: string) => userDoc(id));
+  });
+
+  it('should read the database once while cached', async () => {
+    const first = await principalCache.get('u1');
+    const second = await principalCache.get('u1');
+
+    expect(second).toBe(first);
+    expect(User.findById).toHaveBeenCalledTimes(1);
+    expect(first).toMatchObject({
+      id: 'u1',
+      role: UserRole.MODERATOR,
+      twoFactorEnabled: true,
+    });
+    expect(first!.permissions).toContain(Permission.REPORTS_RESOLVE);
+  });
+
+  it('should reload after invalidation', async () => {
+    await principalCache.get('u1');
+    (User.findById as jest.Mock).mockResolvedValueOnce(
+      userDoc('u1', { bannedUntil: new Date(Date.now() + 60000) })
+    );
+
+    await principalCache.invalidate('u1');
+    const principal = await principalCache.get('u1');
+
+    expect(User.findById).toHaveBeenCalledTimes(2);
+    expect(principal!.bannedUntil).toBeGreaterThan(Date.now());
+  });
+
+  it('should reload after the TTL', async () => {
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await principalCache.get('u1');
+
+    spy.mockReturnValue(now + config.principalCache.ttlSeconds * 1000 + 1);
+    await principalCache.get('u1');
+    spy.mockRestore();
+
+    expect(User.findById).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return null for deleted users without caching them', async () => {
+    (User.findById as jest.Mock).mockResolvedValue(null);
+
+    expect(await principalCache.get('gone')).toBeNull();
+    expect(await principalCache.get('gone')).toBeNull();
+    expect(User.findById).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const original = config.principalCache.maxEntries;
+    (config.principalCache as any).maxEntries = 2;
+
+    await principalCache.get('a');
+    await principalCache.get('b');
+    await principalCache.get('a'); // a is now more recent than b
+    await principalCache.get('c'); // evicts b
+    (User.findById as jest.Mock).mockClear();
+
+    await principalCache.get('a');
+    await principalCache.get('b');
+    (config.principalCache as any).maxEntries = original;
+
+    expect((User.findById as jest.Mock).mock.calls.map(([id]) => id)).toEqual(['b']);
+  });
+});
+
+describe('LastSeenTracker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await lastSeenTracker.stop();
+  });
+
+  it('should write each user once per flush', async () => {
+    lastSeenTracker.touch('u1', new Date(1000));
+    lastSeenTracker.touch('u1', new Date(2000));
+    lastSeenTracker.touch('u2', new Date(1500));
+
+    await expect(lastSeenTracker.flush()).resolves.toBe(2);
+
+    const operations = (User.bulkWrite as jest.Mock).mock.calls[0][0];
+    expect(operations).toEqual([
+      { updateOne: { filter: { _id: 'u1' }, update: { $max: { lastSeenAt: new Date(2000) } } } },
+      { updateOne: { filter: { _id: 'u2' }, update: { $max: { lastSeenAt: new Date(1500) } } } },
+    ]);
+  });
+
+  it('should skip the write when nothing is pending', async () => {
+    await expect(lastSeenTracker.flush()).resolves.toBe(0);
+    expect(User.bulkWrite).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { Types } from 'mongoose';
+import { sessionService } from '../../src/services/sessionService';
+import { authService } from '../../src/services/authService';
+import { Session } from '../../src/models/Session';
+import { AuditLog } from '../../src/models/AuditLog';
+import { principalCache } from '../../src/services/principalCache';
+import { revokeSession } from '../../src/controllers/authController';
+import { authenticate } from '../../src/middleware/auth';
+import { UserRole } from '../../src/types';
+
+describe('SessionService', () => {
+  const user: any = {
+    _id: new Types.ObjectId(),
+    role: UserRole.USER,
+    email: 'test@example.com',
+  };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(AuditLog, 'create').mockResolvedValue({} as any);
+  });
+
+  describe('createSession', () => {
+    it('should issue tokens bound to a new session', async () => {
+      const createSpy = jest.spyOn(Session, 'create').mockResolvedValue({} as any);
+
+      const tokens = await sessionService.createSession(user, { ip: '127.0.0.1' });
+      const access = authService.verifyAccessToken(tokens.accessToken);
+      const refresh = authService.verifyRefreshToken(tokens.refreshToken);
+
+      expect(access.sessionId).toBeDefined();
+      expect(refresh.sessionId).toBe(access.sessionId);
+      expect(refresh.jti).toBeDefined();
+
+      const stored = createSpy.mock.calls[0][0] as any;
+      expect(String(stored._id)).toBe(access.sessionId);
+      expect(stored.currentTokenHash).not.toBe(tokens.refreshToken);
+      expect(stored.ip).toBe('127.0.0.1');
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('should rotate the current refresh token', async () => {
+      jest.spyOn(Session, 'create').mockResolvedValue({} as any);
+      const tokens = await sessionService.createSession(user);
+      const payload = authService.verifyRefreshToken(tokens.refreshToken);
+
+      const updateSpy = jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue({ _id: payload.sessionId } as any);
+
+      const rotated = await sessionService.rotateRefreshToken(user, payload, tokens.refreshToken);
+
+      expect(rotated.refreshToken).not.toBe(tokens.refreshToken);
+      expect(authService.verifyRefreshToken(rotated.refreshToken).sessionId).toBe(payload.sessionId);
+
+      const [filter, update] = updateSpy.mock.calls[0] as any[];
+      expect(filter.currentTokenHash).not.toBe(update.currentTokenHash);
+      expect(AuditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the family when a rotated token is reused', async () => {
+      jest.spyOn(Session, 'create').mockResolvedValue({} as any);
+      const tokens = await sessionService.createSession(user);
+      const payload = authService.verifyRefreshToken(tokens.refreshToken);
+
+      jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(null);
+      jest.spyOn(Session, 'findById').mockResolvedValue({
+        _id: payload.sessionId,
+        userId: user._id,
+        isActive: () => true,
+      } as any);
+      const revokeSpy = jest.spyOn(Session, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+
+      await expect(
+        sessionService.rotateRefreshToken(user, payload, tokens.refreshToken)
+      ).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED', statusCode: 401 });
+
+      expect(revokeSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: payload.sessionId }),
+        expect.objectContaining({ revokedReason: 'refresh_token_reuse' })
+      );
+      expect(AuditLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'refresh_token_reuse_detected' })
+      );
+    });
+
+    it('should reject tokens of a revoked session without auditing reuse', async () => {
+      jest.spyOn(Session, 'create').mockResolvedValue({} as any);
+      const tokens = await sessionService.createSession(user);
+      const payload = authService.verifyRefreshToken(tokens.refreshToken);
+
+      jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(null);
+      jest.spyOn(Session, 'findById').mockResolvedValue({ isActive: () => false } as any);
+
+      await expect(
+        sessionService.rotateRefreshToken(user, payload, tokens.refreshToken)
+      ).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+
+      expect(AuditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should only rotate device-bound sessions with the same device id', async () => {
+      jest.spyOn(Session, 'create').mockResolvedValue({} as any);
+      const tokens = await sessionService.createSession(user, { deviceId: 'device-1234' });
+      const payload = authService.verifyRefreshToken(tokens.refreshToken);
+      const deviceIdHash = authService.hashSecret('device-1234');
+      expect((Session.create as jest.Mock).mock.calls[0][0].deviceIdHash).toBe(deviceIdHash);
+
+      const updateSpy = jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(null);
+      jest.spyOn(Session, 'findById').mockResolvedValue({ deviceIdHash, isActive: () => true } as any);
+      const revokeSpy = jest.spyOn(Session, 'updateOne');
+
+      await expect(
+        sessionService.rotateRefreshToken(user, payload, tokens.refreshToken, { deviceId: 'other-device' })
+      ).rejects.toMatchObject({ code: 'DEVICE_MISMATCH', statusCode: 401 });
+
+      expect((updateSpy.mock.calls[0] as any[])[0].$or).toEqual([
+        { deviceIdHash: { $exists: false } },
+        { deviceIdHash: authService.hashSecret('other-device') },
+      ]);
+      expect(revokeSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject refresh tokens without a session', async () => {
+      const legacyToken = authService.generateRefreshToken({
+        userId: String(user._id),
+        role: user.role,
+      });
+      const payload = authService.verifyRefreshToken(legacyToken);
+
+      await expect(
+        sessionService.rotateRefreshToken(user, payload, legacyToken)
+      ).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+  });
+
+  describe('revokeSession', () => {
+    it("should refuse to revoke another user's session", async () => {
+      const owner = String(user._id);
+      const updateSpy = jest.spyOn(Session, 'updateOne').mockImplementation(
+        ((filter: any) => Promise.resolve({ modifiedCount: filter.userId === owner ? 1 : 0 })) as any
+      );
+      const req: any = {
+        params: { id: String(new Types.ObjectId()) },
+        user: { id: String(new Types.ObjectId()), sessionId: 'session-1' },
+        ip: '127.0.0.1',
+      };
+      const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+
+      await expect(revokeSession(req, res)).rejects.toMatchObject({
+        statusCode: 404,
+        code: 'SESSION_NOT_FOUND',
+      });
+      expect(updateSpy.mock.calls[0][0]).toMatchObject({ _id: req.params.id, userId: req.user.id });
+      expect(AuditLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should refuse access tokens of a revoked session straight away', async () => {
+      jest.spyOn(Session, 'create').mockResolvedValue({} as any);
+      const { accessToken } = await sessionService.createSession(user);
+      const sessionId = authService.verifyAccessToken(accessToken).sessionId;
+
+      const findSpy = jest.spyOn(Session, 'findOne').mockReturnValue({
+        select: jest.fn().mockResolvedValue({ isActive: () => false }),
+      } as any);
+      const principalSpy = jest.spyOn(principalCache, 'get');
+      const req: any = { headers: { authorization: `Bearer ${accessToken}` } };
+      const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+      const next = jest.fn();
+
+      await authenticate(req, res, next);
+
+      expect(findSpy).toHaveBeenCalledWith({ _id: sessionId, userId: String(user._id) });
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'SESSION_REVOKED' }),
+      }));
+      expect(principalSpy).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
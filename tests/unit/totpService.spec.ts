@@ -0,0 +1,120 @@
+import { totpService } from '../../src/services/totpService';
+import { authService } from '../../src/services/authService';
+import { User } from '../../src/models/User';
+
+jest.mock('../../src/models/User', () => ({ User: { updateOne: jest.fn() } }));
+
+describe('TotpService', () => {
+  // RFC 6238 test secret: ASCII "12345678901234567890"
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from('12345678901234567890');
+
+      expect(totpService.base32Encode(bytes)).toBe(rfcSecret);
+      expect(totpService.base32Decode(rfcSecret).equals(bytes)).toBe(true);
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => totpService.base32Decode('ABC1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('code generation', () => {
+    it('should match RFC 6238 test vectors', () => {
+      expect(totpService.generateCode(rfcSecret, totpService.getTimeStep(59 * 1000))).toBe('287082');
+      expect(totpService.generateCode(rfcSecret, totpService.getTimeStep(1111111109 * 1000))).toBe('081804');
+      expect(totpService.generateCode(rfcSecret, totpService.getTimeStep(1234567890 * 1000))).toBe('005924');
+    });
+  });
+
+  describe('verification', () => {
+    it('should accept the current code and reject replays', () => {
+      const secret = totpService.generateSecret();
+      const code = totpService.generateCode(secret);
+
+      const step = totpService.verifyCode(secret, code);
+      expect(step).toBe(totpService.getTimeStep());
+      expect(totpService.verifyCode(secret, code, step!)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      const secret = totpService.generateSecret();
+
+      expect(totpService.verifyCode(secret, 'abcdef')).toBeNull();
+      expect(totpService.verifyCode(secret, '12345')).toBeNull();
+    });
+
+    describe('verifySecondFactor', () => {
+      const secret = totpService.generateSecret();
+      const { codes, hashes } = totpService.generateBackupCodes(2);
+      const user: any = {
+        _id: 'user-123',
+        twoFactor: {
+          enabled: true,
+          secretEncrypted: totpService.encryptSecret(secret),
+          backupCodeHashes: hashes,
+        },
+      };
+
+      beforeEach(() => {
+        (User.updateOne as jest.Mock).mockReset();
+      });
+
+      it('should consume a TOTP step only if no later step was used', async () => {
+        (User.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 1 });
+
+        await expect(totpService.verifySecondFactor(user, { code: totpService.generateCode(secret) })).resolves.toBe(true);
+
+        const step = totpService.getTimeStep();
+        expect(User.updateOne).toHaveBeenCalledWith(
+          {
+            _id: 'user-123',
+            $or: [
+              { 'twoFactor.lastUsedStep': { $lt: step } },
+              { 'twoFactor.lastUsedStep': { $exists: false } },
+            ],
+          },
+          { 'twoFactor.lastUsedStep': step }
+        );
+      });
+
+      it('should consume backup codes once', async () => {
+        (User.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 1 });
+
+        await expect(totpService.verifySecondFactor(user, { backupCode: codes[0].toLowerCase() })).resolves.toBe(true);
+        expect(User.updateOne).toHaveBeenCalledWith(
+          { _id: 'user-123', 'twoFactor.backupCodeHashes': authService.hashSecret(codes[0]) },
+          { $pull: { 'twoFactor.backupCodeHashes': authService.hashSecret(codes[0]) } }
+        );
+        await expect(totpService.verifySecondFactor(user, { backupCode: 'AAAAA-BBBBB' })).resolves.toBe(false);
+      });
+
+      it('should fail when a concurrent request used the code first', async () => {
+        (User.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 0 });
+
+        await expect(totpService.verifySecondFactor(user, { code: totpService.generateCode(secret) })).resolves.toBe(false);
+        await expect(totpService.verifySecondFactor(user, { backupCode: codes[1] })).resolves.toBe(false);
+      });
+    });
+  });
+
+  describe('secret storage', () => {
+    it('should encrypt and decrypt secrets', () => {
+      const secret = totpService.generateSecret();
+      const encrypted = totpService.encryptSecret(secret);
+
+      expect(encrypted).not.toContain(secret);
+      expect(totpService.decryptSecret(encrypted)).toBe(secret);
+    });
+
+    it('should build an otpauth provisioning URI', () => {
+      const uri = totpService.buildProvisioningUri('ABCDEF', 'mod@example.com');
+
+      expect(uri).toMatch(/^otpauth:\/\/totp\/MindSupport%3Amod%40example\.com\?/);
+      expect(uri).toContain('secret=ABCDEF');
+      expect(uri).toContain('issuer=MindSupport');
+    });
+  });
+});
\ No newline at end of file
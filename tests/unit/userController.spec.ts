@@ -0,0 +1,140 @@
+import { updateProfile, changePassword } from '../../src/controllers/userController';
+import { User } from '../../src/models/User';
+import { keywordScanner } from '../../src/services/keywordScanner';
+import { streamClient } from '../../src/services/streamClient';
+import { sessionService } from '../../src/services/sessionService';
+import { authService } from '../../src/services/authService';
+import { mailService } from '../../src/services/mailService';
+import { KeywordAction, KeywordSeverity, UserRole } from '../../src/types';
+
+jest.mock('../../src/models/User', () => ({ User: { findById: jest.fn() } }));
+jest.mock('../../src/models/AuditLog', () => ({
+  AuditLog: { create: jest.fn().mockResolvedValue({}) },
+}));
+jest.mock('../../src/services/streamClient', () => ({
+  streamClient: {
+    upsertUser: jest.fn().mockResolvedValue(undefined),
+    toStreamRole: jest.fn((role: string) => role),
+  },
+}));
+jest.mock('../../src/services/sessionService', () => ({
+  sessionService: { revokeAllForUser: jest.fn().mockResolvedValue(2) },
+}));
+jest.mock('../../src/services/mailService', () => ({
+  mailService: { sendPasswordChangedEmail: jest.fn().mockResolvedValue(undefined) },
+}));
+
+describe('User Controller', () => {
+  let user: any;
+  let mockResponse: any;
+
+  const request = (body: any) => ({
+    body,
+    ip: '127.0.0.1',
+    user: { id: 'user-123', sessionId: 'session-1', permissions: [] },
+  }) as any;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    user = {
+      _id: 'user-123',
+      email: 'sam@example.com',
+      displayName: 'Sam',
+      role: UserRole.USER,
+      tags: [],
+      passwordHash: await authService.hashPassword('old-password'),
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    (User.findById as jest.Mock).mockResolvedValue(user);
+
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+
+    jest.spyOn(keywordScanner, 'scanText').mockResolvedValue({
+      severity: KeywordSeverity.NONE,
+      matches: [],
+      severityScore: 0,
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('should push a new display name and avatar to Stream', async () => {
+      await updateProfile(
+        request({ displayName: 'Sam R', avatarUrl: 'https://cdn.example.com/a.png' }),
+        mockResponse
+      );
+
+      expect(user.save).toHaveBeenCalled();
+      expect(streamClient.upsertUser).toHaveBeenCalledWith('user-123', {
+        name: 'Sam R',
+        image: 'https://cdn.example.com/a.png',
+        role: UserRole.USER,
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should not call Stream when only tags change', async () => {
+      await updateProfile(request({ tags: ['anxiety', 'anxiety', 'sleep'] }), mockResponse);
+
+      expect(user.tags).toEqual(['anxiety', 'sleep']);
+      expect(streamClient.upsertUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject display names that contain abusive keywords', async () => {
+      (keywordScanner.scanText as jest.Mock).mockResolvedValue({
+        severity: KeywordSeverity.HIGH,
+        matches: [{ word: 'kys', severity: KeywordSeverity.HIGH, action: KeywordAction.HIDE, position: 0 }],
+        severityScore: 3,
+      });
+
+      await expect(updateProfile(request({ displayName: 'kys' }), mockResponse)).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'VALIDATION_ERROR',
+      });
+      expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('should accept display names that contain crisis or mood keywords', async () => {
+      (keywordScanner.scanText as jest.Mock).mockResolvedValue({
+        severity: KeywordSeverity.MEDIUM,
+        matches: [{ word: 'depressed', severity: KeywordSeverity.MEDIUM, action: KeywordAction.FLAG, position: 4 }],
+        severityScore: 2,
+      });
+
+      await updateProfile(request({ displayName: 'Not depressed today' }), mockResponse);
+
+      expect(user.displayName).toBe('Not depressed today');
+      expect(user.save).toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password and revoke other sessions only', async () => {
+      await changePassword(
+        request({ currentPassword: 'old-password', newPassword: 'Tangerine-Lighthouse-42' }),
+        mockResponse
+      );
+
+      expect(await authService.comparePassword('Tangerine-Lighthouse-42', user.passwordHash)).toBe(true);
+      expect(sessionService.revokeAllForUser).toHaveBeenCalledWith('user-123', 'password_changed', 'session-1');
+      expect(mailService.sendPasswordChangedEmail).toHaveBeenCalledWith(user.email, user.displayName, 'others');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should reject a wrong current password', async () => {
+      await expect(
+        changePassword(request({ currentPassword: 'nope', newPassword: 'Tangerine-Lighthouse-42' }), mockResponse)
+      ).rejects.toMatchObject({ statusCode: 401, code: 'INVALID_CREDENTIALS' });
+      expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the password policy', async () => {
+      await expect(
+        changePassword(request({ currentPassword: 'old-password', newPassword: 'short' }), mockResponse)
+      ).rejects.toMatchObject({ statusCode: 400, code: 'VALIDATION_ERROR' });
+    });
+  });
+});
\ No newline at end of file